@@ -1,19 +1,160 @@
-
-import React, { useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import HomePage from './components/HomePage';
 import MonitorPage from './components/MonitorPage';
+import AnalyticsPage from './components/AnalyticsPage';
+import { FilterCategory, FilterPreset, FilterPresetActions, Filters, SensitiveZoneSet } from './types';
+import { EMPTY_FILTERS, normalizeFilters, toggleFilter } from './services/filterService';
+import { deleteFilterPreset, loadFilterPresets, saveFilterPreset } from './services/detectionStore';
+import { createId } from './services/ids';
+import { formatRoute, MapView, Page, parseRoute, Route } from './services/routeService';
+import { BUNDLED_SENSITIVE_ZONES_NAME, getBundledSensitiveZones } from './services/sensitiveZoneService';
 
 const App: React.FC = () => {
-  const [page, setPage] = useState<'home' | 'monitor'>('home');
+  // The location hash is the source of truth, so every view can be linked and the back button
+  // steps between pages. Filters live in the route so the monitor and analytics pages share them.
+  const [route, setRoute] = useState<Route>(() => parseRoute(window.location.hash));
+  const routeRef = useRef(route);
+
+  // Page changes add a history entry; filter, viewport and selection changes update the current one.
+  const updateRoute = useCallback((update: (prev: Route) => Route, mode: 'push' | 'replace') => {
+    const next = update(routeRef.current);
+    const hash = formatRoute(next);
+    if (hash !== window.location.hash) {
+      if (mode === 'push') window.history.pushState(null, '', hash);
+      else window.history.replaceState(null, '', hash);
+    }
+    routeRef.current = next;
+    setRoute(next);
+  }, []);
+
+  useEffect(() => {
+    // The home page link carries no state; keep the previous filters and viewport for the way back.
+    const syncWithLocation = () => {
+      const parsed = parseRoute(window.location.hash);
+      const next = parsed.page === 'home' ? { ...routeRef.current, page: parsed.page } : parsed;
+      routeRef.current = next;
+      setRoute(next);
+    };
+    window.addEventListener('hashchange', syncWithLocation);
+    window.addEventListener('popstate', syncWithLocation);
+    return () => {
+      window.removeEventListener('hashchange', syncWithLocation);
+      window.removeEventListener('popstate', syncWithLocation);
+    };
+  }, []);
+
+  const navigateTo = useCallback((page: Page) => updateRoute(prev => ({ ...prev, page }), 'push'), [updateRoute]);
+  const navigateToMonitor = () => navigateTo('monitor');
+  const navigateToAnalytics = () => navigateTo('analytics');
+  const navigateToHome = () => navigateTo('home');
+
+  const handleFilterChange = useCallback((category: FilterCategory, value: string) => {
+    updateRoute(prev => ({ ...prev, filters: toggleFilter(prev.filters, category, value) }), 'replace');
+  }, [updateRoute]);
+
+  const handleFilterUpdate = useCallback((patch: Partial<Filters>) => {
+    updateRoute(prev => ({ ...prev, filters: { ...prev.filters, ...patch } }), 'replace');
+  }, [updateRoute]);
+
+  const resetFilters = useCallback(() => updateRoute(prev => ({ ...prev, filters: EMPTY_FILTERS }), 'replace'), [updateRoute]);
+
+  // Presets are shared by both pages, so they are loaded here rather than by either page.
+  const [filterPresets, setFilterPresets] = useState<FilterPreset[]>([]);
+  const filterPresetsRef = useRef(filterPresets);
+  filterPresetsRef.current = filterPresets;
+
+  useEffect(() => {
+    let cancelled = false;
+    loadFilterPresets()
+      .then(stored => {
+        if (!cancelled) setFilterPresets(stored);
+      })
+      .catch(err => console.error('Не удалось загрузить наборы фильтров:', err));
+    return () => { cancelled = true; };
+  }, []);
+
+  const presetActions: FilterPresetActions = useMemo(() => ({
+    onSave: (name: string) => {
+      // Saving under an existing name overwrites that preset.
+      const existing = filterPresetsRef.current.find(p => p.name === name);
+      const preset: FilterPreset = {
+        id: existing?.id ?? createId('preset'),
+        name,
+        filters: routeRef.current.filters,
+        createdAt: existing?.createdAt ?? Date.now(),
+      };
+      setFilterPresets(prev => existing ? prev.map(p => p.id === preset.id ? preset : p) : [...prev, preset]);
+      saveFilterPreset(preset).catch(err => console.error('Не удалось сохранить набор фильтров:', err));
+    },
+    onApply: (id: string) => {
+      const preset = filterPresetsRef.current.find(p => p.id === id);
+      if (preset) updateRoute(prev => ({ ...prev, filters: normalizeFilters(preset.filters) }), 'replace');
+    },
+    onDelete: (id: string) => {
+      setFilterPresets(prev => prev.filter(p => p.id !== id));
+      deleteFilterPreset(id).catch(err => console.error('Не удалось удалить набор фильтров:', err));
+    },
+  }), [updateRoute]);
+
+  // The loaded zone layer drives proximity filters on both pages and the monitor's alerts, so it outlives either page.
+  const [sensitiveZones, setSensitiveZones] = useState<SensitiveZoneSet>(
+    () => ({ name: BUNDLED_SENSITIVE_ZONES_NAME, zones: getBundledSensitiveZones() })
+  );
+
+  const handleMapViewChange = useCallback((view: MapView) => {
+    updateRoute(prev => ({ ...prev, view }), 'replace');
+  }, [updateRoute]);
+
+  const handleSelectIncident = useCallback((incidentId: string | null) => {
+    updateRoute(prev => ({ ...prev, incidentId, detectionId: null }), 'replace');
+  }, [updateRoute]);
 
-  const navigateToMonitor = () => setPage('monitor');
-  const navigateToHome = () => setPage('home');
+  // A detection picked from the list selects the incident it belongs to and keeps the exact row in the link.
+  const handleSelectDetection = useCallback((detectionId: string) => {
+    updateRoute(prev => ({ ...prev, incidentId: null, detectionId }), 'replace');
+  }, [updateRoute]);
 
-  // Render the appropriate page based on the current state.
-  // This simple state-based routing avoids the need for a full routing library.
-  return page === 'home' 
-    ? <HomePage onNavigate={navigateToMonitor} /> 
-    : <MonitorPage onNavigateHome={navigateToHome} />;
+  // Render the appropriate page based on the current route.
+  // Hash-based routing keeps the app a static bundle without a routing library.
+  switch (route.page) {
+    case 'home':
+      return <HomePage onNavigate={navigateToMonitor} onNavigateAnalytics={navigateToAnalytics} />;
+    case 'monitor':
+      return (
+        <MonitorPage
+          onNavigateHome={navigateToHome}
+          onNavigateAnalytics={navigateToAnalytics}
+          filters={route.filters}
+          onFilterChange={handleFilterChange}
+          onFilterUpdate={handleFilterUpdate}
+          onResetFilters={resetFilters}
+          filterPresets={filterPresets}
+          presetActions={presetActions}
+          mapView={route.view}
+          onMapViewChange={handleMapViewChange}
+          selectedIncidentId={route.incidentId}
+          selectedDetectionId={route.detectionId}
+          onSelectIncident={handleSelectIncident}
+          onSelectDetection={handleSelectDetection}
+          sensitiveZones={sensitiveZones}
+          onSensitiveZonesChange={setSensitiveZones}
+        />
+      );
+    case 'analytics':
+      return (
+        <AnalyticsPage
+          onNavigateHome={navigateToHome}
+          onNavigateMonitor={navigateToMonitor}
+          filters={route.filters}
+          onFilterChange={handleFilterChange}
+          onFilterUpdate={handleFilterUpdate}
+          onResetFilters={resetFilters}
+          filterPresets={filterPresets}
+          presetActions={presetActions}
+          sensitiveZones={sensitiveZones.zones}
+        />
+      );
+  }
 };
 
 export default App;
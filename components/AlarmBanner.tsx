@@ -0,0 +1,51 @@
+import React from 'react';
+import { Alarm, AlarmActions } from '../types';
+
+interface AlarmBannerProps {
+  alarms: Alarm[];
+  actions: AlarmActions;
+}
+
+const MAX_VISIBLE_ALARMS = 3;
+
+// Unacknowledged alarms stay on top of the map until an operator confirms them.
+const AlarmBanner: React.FC<AlarmBannerProps> = ({ alarms, actions }) => {
+  if (alarms.length === 0) return null;
+  const hidden = alarms.length - MAX_VISIBLE_ALARMS;
+
+  return (
+    <div className="bg-red-900/90 backdrop-blur-md border border-red-500 rounded-md p-3 shadow-lg w-80 max-w-[90vw]">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="font-bold text-sm text-white flex items-center space-x-2">
+          <i className="ph-bold ph-warning animate-pulse"></i>
+          <span>ТРЕВОГИ ({alarms.length})</span>
+        </h3>
+        {alarms.length > 1 && (
+          <button onClick={actions.onAcknowledgeAll} className="text-xs text-red-200 hover:text-white underline">
+            Подтвердить все
+          </button>
+        )}
+      </div>
+      <ul className="space-y-2">
+        {alarms.slice(0, MAX_VISIBLE_ALARMS).map(alarm => (
+          <li key={alarm.id} className="bg-red-950/60 rounded px-2 py-1 text-xs text-red-100">
+            <div className="flex items-center justify-between">
+              <span className="font-semibold">{alarm.ruleName}</span>
+              <span className="text-red-300">{new Date(alarm.timestamp).toLocaleTimeString('ru-RU')}</span>
+            </div>
+            <p>{alarm.detectionType}: {alarm.reasons.join('; ')}</p>
+            <button
+              onClick={() => actions.onAcknowledge(alarm.id)}
+              className="mt-1 px-2 py-0.5 rounded bg-red-600 hover:bg-red-500 text-white font-semibold"
+            >
+              Подтвердить
+            </button>
+          </li>
+        ))}
+      </ul>
+      {hidden > 0 && <p className="text-xs text-red-300 mt-1">И ещё {hidden}…</p>}
+    </div>
+  );
+};
+
+export default AlarmBanner;
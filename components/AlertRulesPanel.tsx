@@ -0,0 +1,221 @@
+import React, { useState } from 'react';
+import { AlertCondition, AlertRule, WebhookDelivery, WebhookEndpoint } from '../types';
+import { describeCondition } from '../services/alertService';
+
+const POLLUTION_TYPES = ['Химическое', 'Нефтяное', 'Физическое'];
+const HAZARD_LEVELS = ['Низкий', 'Средний', 'Высокий'];
+const IMPACT_AREAS = ['Вода', 'Побережье', 'Почва'];
+const SOURCES = ['ИИ', 'Симуляция', 'Импорт'];
+
+const DELIVERY_STATUS_CLASSES: Record<WebhookDelivery['status'], string> = {
+  success: 'text-green-400',
+  retry: 'text-yellow-400',
+  failed: 'text-red-400',
+};
+
+interface AlertRulesPanelProps {
+  rules: AlertRule[];
+  webhooks: WebhookEndpoint[];
+  deliveries: WebhookDelivery[];
+  onAddRule: (name: string, conditions: AlertCondition[]) => void;
+  onToggleRule: (id: string) => void;
+  onDeleteRule: (id: string) => void;
+  onAddWebhook: (url: string) => void;
+  onToggleWebhook: (id: string) => void;
+  onDeleteWebhook: (id: string) => void;
+}
+
+interface RuleDraft {
+  name: string;
+  type: string;
+  hazardLevel: string;
+  impactArea: string;
+  source: string;
+  minConfidence: string;
+  minAreaKm2: string;
+  nearSettlementKm: string;
+  inProtectedArea: boolean;
+}
+
+const EMPTY_DRAFT: RuleDraft = {
+  name: '', type: '', hazardLevel: '', impactArea: '', source: '',
+  minConfidence: '', minAreaKm2: '', nearSettlementKm: '', inProtectedArea: false,
+};
+
+// Turns the form into rule conditions; empty fields mean "any value".
+const toConditions = (draft: RuleDraft): AlertCondition[] => {
+  const conditions: AlertCondition[] = [];
+  if (draft.type) conditions.push({ kind: 'equals', field: 'type', value: draft.type });
+  if (draft.hazardLevel) conditions.push({ kind: 'equals', field: 'hazardLevel', value: draft.hazardLevel });
+  if (draft.impactArea) conditions.push({ kind: 'equals', field: 'impactArea', value: draft.impactArea });
+  if (draft.source) conditions.push({ kind: 'equals', field: 'source', value: draft.source });
+  if (draft.minConfidence !== '') conditions.push({ kind: 'compare', field: 'confidence', op: '>', value: Number(draft.minConfidence) });
+  if (draft.minAreaKm2 !== '') conditions.push({ kind: 'compare', field: 'areaKm2', op: '>', value: Number(draft.minAreaKm2) });
+  if (draft.nearSettlementKm !== '') conditions.push({ kind: 'nearSettlement', distanceKm: Number(draft.nearSettlementKm) });
+  if (draft.inProtectedArea) conditions.push({ kind: 'inProtectedArea' });
+  return conditions;
+};
+
+const inputClass = 'w-full bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-xs text-gray-200';
+
+const SelectField: React.FC<{ label: string; value: string; options: string[]; onChange: (value: string) => void }> = ({ label, value, options, onChange }) => (
+  <label className="block text-xs text-gray-400">
+    {label}
+    <select value={value} onChange={e => onChange(e.target.value)} className={inputClass}>
+      <option value="">Любой</option>
+      {options.map(option => <option key={option} value={option}>{option}</option>)}
+    </select>
+  </label>
+);
+
+const NumberField: React.FC<{ label: string; value: string; step: string; onChange: (value: string) => void }> = ({ label, value, step, onChange }) => (
+  <label className="block text-xs text-gray-400">
+    {label}
+    <input type="number" min="0" step={step} value={value} onChange={e => onChange(e.target.value)} className={inputClass} />
+  </label>
+);
+
+const AlertRulesPanel: React.FC<AlertRulesPanelProps> = ({
+  rules,
+  webhooks,
+  deliveries,
+  onAddRule,
+  onToggleRule,
+  onDeleteRule,
+  onAddWebhook,
+  onToggleWebhook,
+  onDeleteWebhook,
+}) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState<RuleDraft>(EMPTY_DRAFT);
+  const [webhookUrl, setWebhookUrl] = useState('');
+
+  const conditions = toConditions(draft);
+  const canSave = draft.name.trim().length > 0 && conditions.length > 0;
+  const update = (patch: Partial<RuleDraft>) => setDraft(prev => ({ ...prev, ...patch }));
+
+  const saveRule = () => {
+    onAddRule(draft.name.trim(), conditions);
+    setDraft(EMPTY_DRAFT);
+    setIsEditing(false);
+  };
+
+  const addWebhook = () => {
+    onAddWebhook(webhookUrl.trim());
+    setWebhookUrl('');
+  };
+
+  return (
+    <div className="flex-shrink-0 bg-gray-900/50 p-3 rounded-md border border-gray-700 space-y-3">
+      <h3 className="font-semibold">ПРАВИЛА ТРЕВОГ</h3>
+
+      {rules.length > 0 && (
+        <ul className="space-y-1 text-sm">
+          {rules.map(rule => (
+            <li key={rule.id} className="bg-gray-800/60 rounded px-2 py-1">
+              <div className="flex items-center justify-between">
+                <label className="flex items-center space-x-2 cursor-pointer min-w-0">
+                  <input type="checkbox" checked={rule.enabled} onChange={() => onToggleRule(rule.id)} className="accent-cyan-500" />
+                  <span className={`truncate ${rule.enabled ? '' : 'text-gray-500'}`}>{rule.name}</span>
+                </label>
+                <button onClick={() => onDeleteRule(rule.id)} className="px-2 py-0.5 rounded text-xs bg-gray-700 hover:bg-red-700" title="Удалить правило">
+                  <i className="ph ph-trash"></i>
+                </button>
+              </div>
+              <p className="text-xs text-gray-500">{rule.conditions.map(describeCondition).join(' И ')}</p>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {isEditing ? (
+        <div className="space-y-2">
+          <input value={draft.name} onChange={e => update({ name: e.target.value })} placeholder="Название правила" className={inputClass} />
+          <div className="grid grid-cols-2 gap-2">
+            <SelectField label="Тип" value={draft.type} options={POLLUTION_TYPES} onChange={type => update({ type })} />
+            <SelectField label="Опасность" value={draft.hazardLevel} options={HAZARD_LEVELS} onChange={hazardLevel => update({ hazardLevel })} />
+            <SelectField label="Область" value={draft.impactArea} options={IMPACT_AREAS} onChange={impactArea => update({ impactArea })} />
+            <SelectField label="Источник" value={draft.source} options={SOURCES} onChange={source => update({ source })} />
+            <NumberField label="Уверенность >" value={draft.minConfidence} step="0.05" onChange={minConfidence => update({ minConfidence })} />
+            <NumberField label="Площадь > км²" value={draft.minAreaKm2} step="0.1" onChange={minAreaKm2 => update({ minAreaKm2 })} />
+            <NumberField label="До н.п. ≤ км" value={draft.nearSettlementKm} step="5" onChange={nearSettlementKm => update({ nearSettlementKm })} />
+            <label className="flex items-end space-x-2 text-xs text-gray-400 cursor-pointer pb-1">
+              <input type="checkbox" checked={draft.inProtectedArea} onChange={e => update({ inProtectedArea: e.target.checked })} className="accent-cyan-500" />
+              <span>В охраняемой зоне</span>
+            </label>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <button
+              onClick={saveRule}
+              disabled={!canSave}
+              className="px-3 py-1.5 text-sm bg-cyan-600 text-white font-semibold rounded-md hover:bg-cyan-500 disabled:bg-gray-800 disabled:text-gray-500 disabled:cursor-not-allowed transition-colors"
+            >
+              Сохранить
+            </button>
+            <button
+              onClick={() => { setDraft(EMPTY_DRAFT); setIsEditing(false); }}
+              className="px-3 py-1.5 text-sm bg-gray-700 text-white font-semibold rounded-md hover:bg-gray-600 transition-colors"
+            >
+              Отмена
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button
+          onClick={() => setIsEditing(true)}
+          className="w-full px-3 py-1.5 text-sm bg-gray-700 text-white font-semibold rounded-md hover:bg-gray-600 transition-colors"
+        >
+          + Новое правило
+        </button>
+      )}
+
+      <div>
+        <h4 className="text-sm font-semibold text-gray-400 mb-1">Webhook</h4>
+        <ul className="space-y-1 text-xs mb-2">
+          {webhooks.map(webhook => (
+            <li key={webhook.id} className="flex items-center justify-between bg-gray-800/60 rounded px-2 py-1">
+              <label className="flex items-center space-x-2 cursor-pointer min-w-0">
+                <input type="checkbox" checked={webhook.enabled} onChange={() => onToggleWebhook(webhook.id)} className="accent-cyan-500" />
+                <span className={`truncate font-mono ${webhook.enabled ? '' : 'text-gray-500'}`}>{webhook.url}</span>
+              </label>
+              <button onClick={() => onDeleteWebhook(webhook.id)} className="px-2 py-0.5 rounded bg-gray-700 hover:bg-red-700" title="Удалить webhook">
+                <i className="ph ph-trash"></i>
+              </button>
+            </li>
+          ))}
+        </ul>
+        <div className="flex space-x-2">
+          <input
+            type="url"
+            value={webhookUrl}
+            onChange={e => setWebhookUrl(e.target.value)}
+            placeholder="http://localhost:9000/alarms"
+            className={`${inputClass} font-mono`}
+          />
+          <button
+            onClick={addWebhook}
+            disabled={!/^https?:\/\//.test(webhookUrl.trim())}
+            className="px-3 py-1 text-sm bg-cyan-600 text-white font-semibold rounded-md hover:bg-cyan-500 disabled:bg-gray-800 disabled:text-gray-500 disabled:cursor-not-allowed transition-colors"
+          >
+            +
+          </button>
+        </div>
+      </div>
+
+      {deliveries.length > 0 && (
+        <div>
+          <h4 className="text-sm font-semibold text-gray-400 mb-1">Журнал доставки</h4>
+          <ul className="max-h-32 overflow-y-auto text-xs font-mono space-y-0.5">
+            {deliveries.map(d => (
+              <li key={d.id} className={DELIVERY_STATUS_CLASSES[d.status]} title={d.url}>
+                {new Date(d.timestamp).toLocaleTimeString('ru-RU')} #{d.attempt} {d.httpStatus ?? d.error ?? ''} {d.status}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AlertRulesPanel;
@@ -0,0 +1,78 @@
+import React from 'react';
+import { AnalysisCacheStats, BYTES_PER_MB } from '../services/analysisCache';
+
+interface AnalysisCachePanelProps {
+  // Null until the stored images have been read.
+  stats: AnalysisCacheStats | null;
+  limitMb: number;
+  forceReanalysis: boolean;
+  onLimitChange: (mb: number) => void;
+  onForceReanalysisChange: (force: boolean) => void;
+  onClear: () => void;
+}
+
+const inputClass = 'w-full bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-xs text-gray-200';
+
+const AnalysisCachePanel: React.FC<AnalysisCachePanelProps> = ({
+  stats,
+  limitMb,
+  forceReanalysis,
+  onLimitChange,
+  onForceReanalysisChange,
+  onClear,
+}) => {
+  const lookups = stats ? stats.hits + stats.misses : 0;
+  return (
+    <div className="flex-shrink-0 bg-gray-900/50 p-3 rounded-md border border-gray-700">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="font-semibold">КЭШ АНАЛИЗА</h3>
+        <button
+          onClick={onClear}
+          disabled={!stats || stats.images === 0}
+          className="px-2 py-0.5 text-xs bg-gray-700 text-white rounded hover:bg-gray-600 disabled:bg-gray-800 disabled:text-gray-500 disabled:cursor-not-allowed transition-colors"
+        >
+          Очистить
+        </button>
+      </div>
+      {stats ? (
+        <div className="grid grid-cols-2 gap-x-2 gap-y-1 text-xs">
+          <span className="text-gray-400">Попаданий:</span>
+          <span className="text-right font-mono">
+            {stats.hits}{lookups > 0 ? ` (${Math.round((stats.hits / lookups) * 100)}%)` : ''}
+          </span>
+          <span className="text-gray-400">Промахов:</span>
+          <span className="text-right font-mono">{stats.misses}</span>
+          <span className="text-gray-400">Снимков:</span>
+          <span className="text-right font-mono">{stats.images}</span>
+          <span className="text-gray-400">Объём:</span>
+          <span className="text-right font-mono">
+            {(stats.bytes / BYTES_PER_MB).toFixed(1)} / {(stats.limitBytes / BYTES_PER_MB).toFixed(0)} МБ
+          </span>
+        </div>
+      ) : (
+        <p className="text-xs text-gray-500">Чтение кэша…</p>
+      )}
+      <label className="block text-xs text-gray-400 mt-2">
+        Предел объёма, МБ
+        <input
+          type="number"
+          min="1"
+          value={limitMb}
+          onChange={e => onLimitChange(Number(e.target.value))}
+          className={inputClass}
+        />
+      </label>
+      <label className="flex items-center space-x-2 text-xs text-gray-300 mt-2 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={forceReanalysis}
+          onChange={e => onForceReanalysisChange(e.target.checked)}
+          className="accent-cyan-500"
+        />
+        <span>Анализировать заново, не используя кэш</span>
+      </label>
+    </div>
+  );
+};
+
+export default AnalysisCachePanel;
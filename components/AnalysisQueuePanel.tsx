@@ -0,0 +1,66 @@
+import React from 'react';
+import { AnalysisBudget } from '../types';
+import { AnalysisQueueStats } from '../services/analysisQueue';
+
+interface AnalysisQueuePanelProps {
+  stats: AnalysisQueueStats;
+  budget: AnalysisBudget;
+  // Whether the current provider counts against the budget.
+  metered: boolean;
+  onBudgetChange: (budget: AnalysisBudget) => void;
+}
+
+const inputClass = 'w-full bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-xs text-gray-200';
+
+const formatWait = (ms: number): string => {
+  const seconds = Math.ceil(ms / 1000);
+  if (seconds <= 0) return 'без ожидания';
+  if (seconds < 60) return `≈ ${seconds} с`;
+  if (seconds < 3600) return `≈ ${Math.ceil(seconds / 60)} мин`;
+  return `≈ ${Math.floor(seconds / 3600)} ч ${Math.ceil((seconds % 3600) / 60)} мин`;
+};
+
+const AnalysisQueuePanel: React.FC<AnalysisQueuePanelProps> = ({ stats, budget, metered, onBudgetChange }) => (
+  <div className="flex-shrink-0 bg-gray-900/50 p-3 rounded-md border border-gray-700">
+    <h3 className="font-semibold mb-2">ОЧЕРЕДЬ АНАЛИЗА</h3>
+    <div className="grid grid-cols-2 gap-x-2 gap-y-1 text-xs">
+      <span className="text-gray-400">В очереди:</span>
+      <span className="text-right font-mono">{stats.queued}</span>
+      <span className="text-gray-400">Выполняется:</span>
+      <span className="text-right font-mono">{stats.running}</span>
+      <span className="text-gray-400">Ожидание:</span>
+      <span className="text-right font-mono">{stats.readyAt === null ? '—' : formatWait(stats.readyAt - Date.now())}</span>
+      <span className="text-gray-400">Запросов за минуту:</span>
+      <span className="text-right font-mono">{stats.usedLastMinute} / {budget.requestsPerMinute}</span>
+      <span className="text-gray-400">Запросов за сутки:</span>
+      <span className="text-right font-mono">{stats.usedLastDay} / {budget.requestsPerDay}</span>
+    </div>
+    <div className="grid grid-cols-2 gap-2 mt-2">
+      <label className="block text-xs text-gray-400">
+        Лимит в минуту
+        <input
+          type="number"
+          min="1"
+          value={budget.requestsPerMinute}
+          onChange={e => onBudgetChange({ ...budget, requestsPerMinute: Number(e.target.value) })}
+          className={inputClass}
+        />
+      </label>
+      <label className="block text-xs text-gray-400">
+        Лимит в сутки
+        <input
+          type="number"
+          min="1"
+          value={budget.requestsPerDay}
+          onChange={e => onBudgetChange({ ...budget, requestsPerDay: Number(e.target.value) })}
+          className={inputClass}
+        />
+      </label>
+    </div>
+    {!metered && (
+      <p className="text-xs text-gray-500 mt-2">Текущий источник анализа не расходует лимит запросов.</p>
+    )}
+  </div>
+);
+
+export default AnalysisQueuePanel;
@@ -0,0 +1,296 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { FilterCategory, FilterPreset, FilterPresetActions, Filters, IncidentWorkflow, PollutionData, SensitiveZone } from '../types';
+import Header from './Header';
+import FilterPanel from './FilterPanel';
+import { HAZARD_COLORS, POLLUTION_COLORS, SOURCE_COLORS } from '../constants';
+import { loadDetections, loadIncidentWorkflows } from '../services/detectionStore';
+import { getStatusByDetection, groupIntoIncidents } from '../services/incidentService';
+import { applyFilters } from '../services/filterService';
+import { AreaSummaryRow, measureDetection, summarizeArea } from '../services/measurementService';
+import { findNearestZone } from '../services/sensitiveZoneService';
+import {
+  buildConfidenceHistogram,
+  buildTimeSeries,
+  chooseTimeBucket,
+  countBy,
+  CountRow,
+  formatBucketLabel,
+  HistogramBin,
+  TIME_BUCKET_LABELS,
+  TimeBucket,
+  TimeSeriesPoint,
+} from '../services/analyticsService';
+
+interface AnalyticsPageProps {
+  onNavigateHome: () => void;
+  onNavigateMonitor: () => void;
+  filters: Filters;
+  onFilterChange: (category: FilterCategory, value: string) => void;
+  onFilterUpdate: (patch: Partial<Filters>) => void;
+  onResetFilters: () => void;
+  filterPresets: FilterPreset[];
+  presetActions: FilterPresetActions;
+  // The zone layer loaded on the monitor page, so proximity filters count the same on both pages.
+  sensitiveZones: SensitiveZone[];
+}
+
+// Detections stored before sources were recorded have none.
+const UNKNOWN_SOURCE = 'Не указан';
+
+const Card: React.FC<{ title: string; className?: string; children: React.ReactNode }> = ({ title, className = '', children }) => (
+  <section className={`bg-gray-900/50 p-4 rounded-md border border-gray-700 ${className}`}>
+    <h3 className="font-semibold mb-3">{title}</h3>
+    {children}
+  </section>
+);
+
+const Stat: React.FC<{ label: string; value: string }> = ({ label, value }) => (
+  <div className="bg-gray-900/50 p-3 rounded-md border border-gray-700">
+    <p className="text-xs text-gray-400">{label}</p>
+    <p className="text-2xl font-bold text-white">{value}</p>
+  </div>
+);
+
+const Legend: React.FC<{ colors: Record<string, string> }> = ({ colors }) => (
+  <div className="flex flex-wrap gap-x-3 gap-y-1 text-xs text-gray-400 mt-2">
+    {Object.entries(colors).map(([key, color]) => (
+      <span key={key} className="flex items-center space-x-1">
+        <span className="inline-block w-3 h-3 rounded-sm" style={{ backgroundColor: color }}></span>
+        <span>{key}</span>
+      </span>
+    ))}
+  </div>
+);
+
+// Columns of stacked segments, one per time bucket; only the first, middle and last buckets are labelled.
+const StackedBarChart: React.FC<{ series: TimeSeriesPoint[]; bucket: TimeBucket; colors: Record<string, string> }> = ({ series, bucket, colors }) => {
+  const max = Math.max(1, ...series.map(point => point.total));
+  const labelled = new Set([0, Math.floor((series.length - 1) / 2), series.length - 1]);
+  return (
+    <div>
+      <div className="flex items-end h-40 gap-px border-b border-gray-700">
+        {series.map(point => (
+          <div
+            key={point.start}
+            className="flex-1 flex flex-col-reverse min-w-0"
+            style={{ height: `${(point.total / max) * 100}%` }}
+            title={`${formatBucketLabel(point.start, bucket)}: ${point.total}\n` +
+              Object.entries(point.counts).map(([key, count]) => `${key}: ${count}`).join('\n')}
+          >
+            {Object.keys(colors).map(key => point.counts[key] ? (
+              <div key={key} style={{ flexGrow: point.counts[key], backgroundColor: colors[key] }}></div>
+            ) : null)}
+          </div>
+        ))}
+      </div>
+      <div className="flex text-[10px] text-gray-500 mt-1">
+        {series.map((point, index) => (
+          <div key={point.start} className="flex-1 min-w-0 text-center overflow-visible whitespace-nowrap">
+            {labelled.has(index) ? formatBucketLabel(point.start, bucket) : ''}
+          </div>
+        ))}
+      </div>
+      <Legend colors={colors} />
+    </div>
+  );
+};
+
+const HorizontalBars: React.FC<{ rows: CountRow[]; colors: Record<string, string>; total: number }> = ({ rows, colors, total }) => (
+  <div className="space-y-2">
+    {rows.map(row => (
+      <div key={row.key} className="text-sm">
+        <div className="flex justify-between text-gray-300">
+          <span>{row.key}</span>
+          <span>{row.count} ({total > 0 ? Math.round((row.count / total) * 100) : 0}%)</span>
+        </div>
+        <div className="h-2 bg-gray-800 rounded">
+          <div
+            className="h-2 rounded"
+            style={{ width: `${total > 0 ? (row.count / total) * 100 : 0}%`, backgroundColor: colors[row.key] ?? '#6b7280' }}
+          ></div>
+        </div>
+      </div>
+    ))}
+  </div>
+);
+
+const ConfidenceHistogram: React.FC<{ bins: HistogramBin[] }> = ({ bins }) => {
+  const max = Math.max(1, ...bins.map(bin => bin.count));
+  return (
+    <div>
+      <div className="flex items-end h-32 gap-1 border-b border-gray-700">
+        {bins.map(bin => (
+          <div
+            key={bin.from}
+            className="flex-1 bg-cyan-600 rounded-t"
+            style={{ height: `${(bin.count / max) * 100}%` }}
+            title={`${Math.round(bin.from * 100)}–${Math.round(bin.to * 100)} %: ${bin.count}`}
+          ></div>
+        ))}
+      </div>
+      <div className="flex gap-1 text-[10px] text-gray-500 mt-1">
+        {bins.map(bin => (
+          <div key={bin.from} className="flex-1 text-center">{Math.round(bin.from * 100)}</div>
+        ))}
+      </div>
+      <p className="text-xs text-gray-500 mt-1">Уверенность, % (нижняя граница интервала)</p>
+    </div>
+  );
+};
+
+const SeaTable: React.FC<{ rows: AreaSummaryRow[] }> = ({ rows }) => {
+  const maxArea = Math.max(0, ...rows.map(row => row.areaKm2));
+  return (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="text-gray-500 text-left text-xs">
+          <th className="font-normal pb-1">Море</th>
+          <th className="font-normal pb-1 text-right">Кол-во</th>
+          <th className="font-normal pb-1 text-right">Площадь, км²</th>
+          <th className="font-normal pb-1 w-1/3"></th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map(row => (
+          <tr key={row.key} className="text-gray-300">
+            <td className="py-1">{row.key}</td>
+            <td className="py-1 text-right">{row.count}</td>
+            <td className="py-1 text-right">{row.areaKm2.toFixed(2)}</td>
+            <td className="py-1 pl-3">
+              <div className="h-2 bg-red-500/70 rounded" style={{ width: `${maxArea > 0 ? (row.areaKm2 / maxArea) * 100 : 0}%` }}></div>
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+};
+
+/**
+ * Trends and breakdowns over the detection history in the local store, narrowed by the same filters
+ * as the monitor. Proximity is measured against the sensitive-zone set shared with the monitor.
+ */
+const AnalyticsPage: React.FC<AnalyticsPageProps> = ({
+  onNavigateHome,
+  onNavigateMonitor,
+  filters,
+  onFilterChange,
+  onFilterUpdate,
+  onResetFilters,
+  filterPresets,
+  presetActions,
+  sensitiveZones,
+}) => {
+  const [detections, setDetections] = useState<PollutionData[]>([]);
+  const [workflows, setWorkflows] = useState<Record<string, IncidentWorkflow>>({});
+  const [loadState, setLoadState] = useState<'loading' | 'ready' | 'error'>('loading');
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([loadDetections(), loadIncidentWorkflows()])
+      .then(([stored, storedWorkflows]) => {
+        if (cancelled) return;
+        setDetections(stored);
+        setWorkflows(storedWorkflows);
+        setLoadState('ready');
+      })
+      .catch(err => {
+        console.error('Не удалось загрузить историю обнаружений:', err);
+        if (!cancelled) setLoadState('error');
+      });
+    return () => { cancelled = true; };
+  }, []);
+
+  const incidents = useMemo(() => groupIntoIncidents(detections, workflows), [detections, workflows]);
+  const measures = useMemo(() => new Map(detections.map(p => [p.id, measureDetection(p)])), [detections]);
+  const zoneProximity = useMemo(
+    () => new Map(detections.map(p => [p.id, findNearestZone(p, sensitiveZones)])),
+    [detections, sensitiveZones]
+  );
+
+  const filtered = useMemo(
+    () => applyFilters(detections, filters, {
+      statusByDetection: getStatusByDetection(incidents),
+      measures,
+      proximity: zoneProximity,
+    }),
+    [detections, filters, incidents, measures, zoneProximity]
+  );
+
+  const bucket = useMemo<TimeBucket>(() => {
+    if (filtered.length === 0) return 'day';
+    const times = filtered.map(p => p.timestamp);
+    return chooseTimeBucket(Math.max(...times) - Math.min(...times));
+  }, [filtered]);
+  const byType = useMemo(() => buildTimeSeries(filtered, p => p.type, bucket), [filtered, bucket]);
+  const byHazard = useMemo(() => buildTimeSeries(filtered, p => p.hazardLevel, bucket), [filtered, bucket]);
+  const bySea = useMemo(() => summarizeArea(filtered, measures, (_p, m) => m.sea), [filtered, measures]);
+  const confidenceBins = useMemo(() => buildConfidenceHistogram(filtered), [filtered]);
+  const bySource = useMemo(
+    () => countBy(filtered, p => p.source ?? UNKNOWN_SOURCE, Object.keys(SOURCE_COLORS)),
+    [filtered]
+  );
+
+  const totalArea = bySea.reduce((sum, row) => sum + row.areaKm2, 0);
+  const meanConfidence = filtered.length > 0 ? filtered.reduce((sum, p) => sum + p.confidence, 0) / filtered.length : 0;
+  const visibleIds = new Set(filtered.map(p => p.id));
+  const incidentCount = incidents.filter(incident => incident.observations.some(o => visibleIds.has(o.detectionId))).length;
+
+  return (
+    <div className="bg-gray-900 text-gray-200 h-screen w-screen flex flex-col font-sans overflow-hidden">
+      <Header onNavigateHome={onNavigateHome} onNavigateMonitor={onNavigateMonitor} />
+      <div className="flex-1 flex flex-col md:flex-row overflow-y-auto md:overflow-hidden">
+        <main className="flex-1 p-4 md:overflow-y-auto space-y-4">
+          {loadState === 'loading' && <p className="text-gray-400">Загрузка истории обнаружений...</p>}
+          {loadState === 'error' && <p className="text-red-400">Ошибка: история обнаружений недоступна.</p>}
+          {loadState === 'ready' && (
+            <>
+              <div className="grid grid-cols-2 lg:grid-cols-5 gap-4">
+                <Stat label="Обнаружений" value={`${filtered.length} из ${detections.length}`} />
+                <Stat label="Инцидентов" value={String(incidentCount)} />
+                <Stat label="Суммарная площадь" value={`${totalArea.toFixed(1)} км²`} />
+                <Stat label="Средняя уверенность" value={`${(meanConfidence * 100).toFixed(1)}%`} />
+                <Stat label="На проверке" value={String(filtered.filter(p => p.reviewReason).length)} />
+              </div>
+              {filtered.length === 0 ? (
+                <p className="text-gray-500">Нет обнаружений, соответствующих фильтрам.</p>
+              ) : (
+                <div className="grid grid-cols-1 xl:grid-cols-2 gap-4">
+                  <Card title={`ОБНАРУЖЕНИЯ ПО ТИПАМ (${TIME_BUCKET_LABELS[bucket]})`}>
+                    <StackedBarChart series={byType} bucket={bucket} colors={POLLUTION_COLORS} />
+                  </Card>
+                  <Card title={`ОБНАРУЖЕНИЯ ПО ОПАСНОСТИ (${TIME_BUCKET_LABELS[bucket]})`}>
+                    <StackedBarChart series={byHazard} bucket={bucket} colors={HAZARD_COLORS} />
+                  </Card>
+                  <Card title="МОРЯ АРКТИКИ">
+                    <SeaTable rows={bySea} />
+                  </Card>
+                  <div className="space-y-4">
+                    <Card title="РАСПРЕДЕЛЕНИЕ УВЕРЕННОСТИ">
+                      <ConfidenceHistogram bins={confidenceBins} />
+                    </Card>
+                    <Card title="ИСТОЧНИКИ">
+                      <HorizontalBars rows={bySource} colors={SOURCE_COLORS} total={filtered.length} />
+                    </Card>
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+        </main>
+        <aside className="w-full md:w-80 bg-gray-800/70 backdrop-blur-md border-l border-gray-700 flex flex-col p-4 space-y-4 md:h-full overflow-y-auto">
+          <FilterPanel
+            filters={filters}
+            onFilterChange={onFilterChange}
+            onFilterUpdate={onFilterUpdate}
+            onResetFilters={onResetFilters}
+            presets={filterPresets}
+            presetActions={presetActions}
+          />
+        </aside>
+      </div>
+    </div>
+  );
+};
+
+export default AnalyticsPage;
@@ -0,0 +1,48 @@
+import React from 'react';
+import { AreaSummaryRow } from '../services/measurementService';
+
+interface AreaSummaryPanelProps {
+  byType: AreaSummaryRow[];
+  bySea: AreaSummaryRow[];
+}
+
+const SummaryTable: React.FC<{ title: string; rows: AreaSummaryRow[] }> = ({ title, rows }) => (
+  <table className="w-full text-xs">
+    <thead>
+      <tr className="text-gray-500 text-left">
+        <th className="font-normal pb-1">{title}</th>
+        <th className="font-normal pb-1 text-right">Кол-во</th>
+        <th className="font-normal pb-1 text-right">Площадь, км²</th>
+      </tr>
+    </thead>
+    <tbody>
+      {rows.map(row => (
+        <tr key={row.key} className="text-gray-300">
+          <td className="py-0.5">{row.key}</td>
+          <td className="py-0.5 text-right">{row.count}</td>
+          <td className="py-0.5 text-right">{row.areaKm2.toFixed(2)}</td>
+        </tr>
+      ))}
+    </tbody>
+  </table>
+);
+
+const AreaSummaryPanel: React.FC<AreaSummaryPanelProps> = ({ byType, bySea }) => {
+  const total = byType.reduce((sum, row) => sum + row.areaKm2, 0);
+  return (
+    <div className="flex-shrink-0 bg-gray-900/50 p-3 rounded-md border border-gray-700">
+      <h3 className="font-semibold mb-2">ПЛОЩАДЬ ЗАГРЯЗНЕНИЙ</h3>
+      {byType.length === 0 ? (
+        <p className="text-sm text-gray-500">Нет обнаружений, соответствующих фильтрам.</p>
+      ) : (
+        <div className="space-y-3">
+          <p className="text-sm text-gray-400">Всего: {total.toFixed(2)} км²</p>
+          <SummaryTable title="Тип" rows={byType} />
+          <SummaryTable title="Море" rows={bySea} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AreaSummaryPanel;
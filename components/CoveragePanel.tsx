@@ -0,0 +1,51 @@
+import React from 'react';
+import { RegionCoverage } from '../services/coverageService';
+
+interface CoveragePanelProps {
+  cellCount: number;
+  regions: RegionCoverage[];
+  showOnMap: boolean;
+  onToggleShowOnMap: () => void;
+}
+
+const formatDuration = (ms: number): string => {
+  const minutes = Math.round(ms / 60000);
+  if (minutes < 60) return `${minutes} мин`;
+  const hours = Math.floor(minutes / 60);
+  return `${hours} ч ${minutes % 60} мин`;
+};
+
+const CoveragePanel: React.FC<CoveragePanelProps> = ({ cellCount, regions, showOnMap, onToggleShowOnMap }) => (
+  <div className="flex-shrink-0 bg-gray-900/50 p-3 rounded-md border border-gray-700">
+    <div className="flex items-center justify-between mb-2">
+      <h3 className="font-semibold">ПОКРЫТИЕ СЪЁМКОЙ</h3>
+      <label className="flex items-center space-x-1 text-xs text-gray-400 cursor-pointer">
+        <input type="checkbox" checked={showOnMap} onChange={onToggleShowOnMap} className="accent-cyan-500" />
+        <span>На карте</span>
+      </label>
+    </div>
+    <p className="text-sm text-gray-400 mb-2">Ячеек отснято: {cellCount}</p>
+    <table className="w-full text-xs">
+      <thead>
+        <tr className="text-gray-500 text-left">
+          <th className="font-normal pb-1">Район</th>
+          <th className="font-normal pb-1 text-right">Проходов</th>
+          <th className="font-normal pb-1 text-right" title="Наибольший интервал между проходами, включая время с последнего прохода">
+            Макс. интервал
+          </th>
+        </tr>
+      </thead>
+      <tbody>
+        {regions.map(region => (
+          <tr key={region.region} className={region.cells === 0 ? 'text-gray-600' : 'text-gray-300'}>
+            <td className="py-0.5">{region.region}</td>
+            <td className="py-0.5 text-right">{region.passes}</td>
+            <td className="py-0.5 text-right">{region.cells === 0 ? 'нет покрытия' : formatDuration(region.maxRevisitGapMs)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
+
+export default CoveragePanel;
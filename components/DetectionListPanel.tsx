@@ -0,0 +1,188 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { DetectionListActions, ExportFormat, IncidentStatus, PollutionData } from '../types';
+import { HAZARD_COLORS, POLLUTION_COLORS } from '../constants';
+import { DetectionMeasures } from '../services/measurementService';
+import { INCIDENT_STATUSES } from '../services/incidentService';
+import {
+  DEFAULT_DETECTION_SORT,
+  DetectionSort,
+  DetectionSortKey,
+  searchDetections,
+  sortDetections,
+  toggleSort,
+} from '../services/detectionListService';
+
+interface DetectionListPanelProps {
+  detections: PollutionData[];
+  measures: Map<string, DetectionMeasures>;
+  statusByDetection: Map<string, IncidentStatus>;
+  // Rows of the incident selected on the map.
+  highlightedIds: Set<string>;
+  actions: DetectionListActions;
+}
+
+// Only the rows inside the viewport (plus a margin) are rendered, so the list stays fast with thousands of detections.
+const ROW_HEIGHT = 28;
+const VIEWPORT_HEIGHT = 280;
+const OVERSCAN_ROWS = 6;
+const ROW_COLUMNS: React.CSSProperties = { gridTemplateColumns: '1.25rem 1fr 3rem 4.5rem 4rem' };
+
+const EXPORT_FORMATS: { format: ExportFormat; label: string }[] = [
+  { format: 'geojson', label: 'GeoJSON' },
+  { format: 'kml', label: 'KML' },
+  { format: 'csv', label: 'CSV' },
+];
+
+const SORT_COLUMNS: { key: DetectionSortKey; label: string }[] = [
+  { key: 'time', label: 'Время' },
+  { key: 'confidence', label: 'Увер.' },
+  { key: 'hazard', label: 'Опасн.' },
+  { key: 'area', label: 'км²' },
+];
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString('ru-RU', { day: '2-digit', month: '2-digit', hour: '2-digit', minute: '2-digit' });
+
+const DetectionListPanel: React.FC<DetectionListPanelProps> = ({ detections, measures, statusByDetection, highlightedIds, actions }) => {
+  const [query, setQuery] = useState('');
+  const [sort, setSort] = useState<DetectionSort>(DEFAULT_DETECTION_SORT);
+  const [checkedIds, setCheckedIds] = useState<Set<string>>(new Set());
+  const [bulkStatus, setBulkStatus] = useState<IncidentStatus>(INCIDENT_STATUSES[0]);
+  const [scrollTop, setScrollTop] = useState(0);
+  const viewportRef = useRef<HTMLDivElement>(null);
+
+  const rows = useMemo(
+    () => sortDetections(searchDetections(detections, query, measures), sort, measures),
+    [detections, query, sort, measures]
+  );
+
+  // Bulk actions apply to the checked rows that are still listed after filtering and search.
+  const checkedRows = useMemo(() => rows.filter(p => checkedIds.has(p.id)), [rows, checkedIds]);
+  const allChecked = rows.length > 0 && checkedRows.length === rows.length;
+
+  // Bring the row of an incident selected on the map into view, unless it is already visible. Only a new
+  // selection scrolls; re-sorting or new detections keep the operator's position.
+  const highlightKey = Array.from(highlightedIds).join(',');
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!viewport || highlightedIds.size === 0) return;
+    const index = rows.findIndex(p => highlightedIds.has(p.id));
+    if (index < 0) return;
+    const top = index * ROW_HEIGHT;
+    if (top < viewport.scrollTop || top + ROW_HEIGHT > viewport.scrollTop + VIEWPORT_HEIGHT) {
+      viewport.scrollTop = Math.max(0, top - (VIEWPORT_HEIGHT - ROW_HEIGHT) / 2);
+    }
+  }, [highlightKey]);
+
+  const firstRow = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN_ROWS);
+  const lastRow = Math.min(rows.length, Math.ceil((scrollTop + VIEWPORT_HEIGHT) / ROW_HEIGHT) + OVERSCAN_ROWS);
+
+  const toggleChecked = (id: string) => {
+    setCheckedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const toggleAll = () => setCheckedIds(allChecked ? new Set() : new Set(rows.map(p => p.id)));
+  const checkedIdList = checkedRows.map(p => p.id);
+
+  return (
+    <div className="flex-shrink-0 bg-gray-900/50 p-3 rounded-md border border-gray-700">
+      <h3 className="font-semibold mb-2">ОБНАРУЖЕНИЯ</h3>
+      <input
+        value={query}
+        onChange={e => setQuery(e.target.value)}
+        placeholder="Поиск: тип, море, источник, id…"
+        className="w-full bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-xs text-gray-200 mb-2"
+      />
+      <div className="grid items-center gap-1 px-1 pb-1 text-xs text-gray-400 border-b border-gray-700" style={ROW_COLUMNS}>
+        <input type="checkbox" checked={allChecked} onChange={toggleAll} disabled={rows.length === 0} className="accent-cyan-500" title="Выбрать все" />
+        {SORT_COLUMNS.map(({ key, label }) => (
+          <button key={key} onClick={() => setSort(prev => toggleSort(prev, key))} className={`text-left hover:text-white ${sort.key === key ? 'text-cyan-300' : ''}`}>
+            {label}
+            {sort.key === key && <i className={`ph-bold ${sort.direction === 'asc' ? 'ph-caret-up' : 'ph-caret-down'} ml-0.5`}></i>}
+          </button>
+        ))}
+      </div>
+      <div
+        ref={viewportRef}
+        onScroll={e => setScrollTop(e.currentTarget.scrollTop)}
+        className="overflow-y-auto text-xs"
+        style={{ height: VIEWPORT_HEIGHT }}
+      >
+        {rows.length === 0 ? (
+          <p className="text-gray-500 p-2">{detections.length === 0 ? 'Обнаружений нет.' : 'Ничего не найдено.'}</p>
+        ) : (
+          <div className="relative" style={{ height: rows.length * ROW_HEIGHT }}>
+            {rows.slice(firstRow, lastRow).map((p, i) => {
+              const isHighlighted = highlightedIds.has(p.id);
+              return (
+                <div
+                  key={p.id}
+                  onClick={() => actions.onSelect(p.id)}
+                  className={`absolute left-0 right-0 grid items-center gap-1 px-1 cursor-pointer border-b border-gray-800 ${isHighlighted ? 'bg-cyan-900/60 text-white' : 'text-gray-300 hover:bg-gray-700/60'}`}
+                  style={{ ...ROW_COLUMNS, top: (firstRow + i) * ROW_HEIGHT, height: ROW_HEIGHT }}
+                  title={`${p.type} · ${p.impactArea} · ${statusByDetection.get(p.id) ?? 'Новый'}${p.sourceName ? ` · ${p.sourceName}` : ''}`}
+                >
+                  <input
+                    type="checkbox"
+                    checked={checkedIds.has(p.id)}
+                    onChange={() => toggleChecked(p.id)}
+                    onClick={e => e.stopPropagation()}
+                    className="accent-cyan-500"
+                  />
+                  <span className="flex items-center space-x-1 truncate">
+                    <span className="inline-block h-2 w-2 rounded-full flex-shrink-0" style={{ backgroundColor: POLLUTION_COLORS[p.type] }}></span>
+                    <span className="truncate">{formatTime(p.timestamp)}</span>
+                  </span>
+                  <span>{Math.round(p.confidence * 100)}%</span>
+                  <span style={{ color: HAZARD_COLORS[p.hazardLevel] }}>{p.hazardLevel}</span>
+                  <span className="text-right">{(measures.get(p.id)?.areaKm2 ?? 0).toFixed(2)}</span>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+      <p className="text-xs text-gray-400 mt-2">
+        Показано: {rows.length} из {detections.length}{checkedRows.length > 0 ? `, выбрано: ${checkedRows.length}` : ''}
+      </p>
+      {checkedRows.length > 0 && (
+        <div className="mt-2 space-y-2">
+          <div className="grid grid-cols-3 gap-2">
+            {EXPORT_FORMATS.map(({ format, label }) => (
+              <button
+                key={format}
+                onClick={() => actions.onExport(checkedIdList, format)}
+                className="px-2 py-1 text-xs bg-gray-700 text-white font-semibold rounded-md hover:bg-gray-600 transition-colors flex items-center justify-center space-x-1"
+              >
+                <i className="ph ph-download-simple"></i>
+                <span>{label}</span>
+              </button>
+            ))}
+          </div>
+          <div className="flex space-x-2">
+            <select
+              value={bulkStatus}
+              onChange={e => setBulkStatus(e.target.value as IncidentStatus)}
+              className="flex-1 bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-xs text-gray-200"
+            >
+              {INCIDENT_STATUSES.map(status => <option key={status} value={status}>{status}</option>)}
+            </select>
+            <button
+              onClick={() => actions.onStatusChange(checkedIdList, bulkStatus)}
+              className="px-3 py-1 text-xs bg-cyan-600 text-white font-semibold rounded-md hover:bg-cyan-500 transition-colors"
+            >
+              Установить статус
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DetectionListPanel;
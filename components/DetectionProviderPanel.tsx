@@ -0,0 +1,44 @@
+import React from 'react';
+import { DetectionProviderId, DETECTION_PROVIDER_LABELS } from '../services/detectionProvider';
+
+const PROVIDER_IDS = Object.keys(DETECTION_PROVIDER_LABELS) as DetectionProviderId[];
+
+interface DetectionProviderPanelProps {
+  providerId: DetectionProviderId;
+  localModelUrl: string;
+  onProviderChange: (id: DetectionProviderId) => void;
+  onLocalModelUrlChange: (url: string) => void;
+}
+
+const DetectionProviderPanel: React.FC<DetectionProviderPanelProps> = ({
+  providerId,
+  localModelUrl,
+  onProviderChange,
+  onLocalModelUrlChange,
+}) => (
+  <div className="flex-shrink-0 bg-gray-900/50 p-3 rounded-md border border-gray-700">
+    <h3 className="font-semibold mb-2">ИСТОЧНИК АНАЛИЗА</h3>
+    <select
+      value={providerId}
+      onChange={e => onProviderChange(e.target.value as DetectionProviderId)}
+      className="w-full bg-gray-700 border border-gray-600 rounded-md px-2 py-1.5 text-sm text-gray-200 focus:ring-cyan-500 focus:border-cyan-500"
+    >
+      {PROVIDER_IDS.map(id => (
+        <option key={id} value={id}>{DETECTION_PROVIDER_LABELS[id]}</option>
+      ))}
+    </select>
+    {providerId === 'local' && (
+      <label className="block mt-2 text-sm text-gray-400">
+        Адрес модели
+        <input
+          type="url"
+          value={localModelUrl}
+          onChange={e => onLocalModelUrlChange(e.target.value)}
+          className="mt-1 w-full bg-gray-700 border border-gray-600 rounded-md px-2 py-1.5 text-sm text-gray-200 focus:ring-cyan-500 focus:border-cyan-500"
+        />
+      </label>
+    )}
+  </div>
+);
+
+export default DetectionProviderPanel;
@@ -0,0 +1,92 @@
+import React, { useRef, useState } from 'react';
+import { DriftFields, FORECAST_HOURS, parseVectorGrid, VectorGrid } from '../services/driftService';
+
+interface DriftPanelProps {
+  fields: DriftFields;
+  forecastHours: number | null;
+  slickCount: number;
+  onForecastHoursChange: (hours: number | null) => void;
+  onFieldLoad: (grid: VectorGrid) => void;
+  onResetFields: () => void;
+}
+
+const DriftPanel: React.FC<DriftPanelProps> = ({
+  fields,
+  forecastHours,
+  slickCount,
+  onForecastHoursChange,
+  onFieldLoad,
+  onResetFields,
+}) => {
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const loadFiles = async (files: File[]) => {
+    setError(null);
+    for (const file of files) {
+      try {
+        onFieldLoad(parseVectorGrid(await file.text(), file.name));
+      } catch (err) {
+        setError(err instanceof Error ? err.message : String(err));
+      }
+    }
+  };
+
+  return (
+    <div className="flex-shrink-0 bg-gray-900/50 p-3 rounded-md border border-gray-700">
+      <h3 className="font-semibold mb-2">ПРОГНОЗ ДРЕЙФА НЕФТИ</h3>
+      <div className="flex space-x-1 text-sm mb-2">
+        <button
+          onClick={() => onForecastHoursChange(null)}
+          className={`px-2 py-0.5 rounded ${forecastHours === null ? 'bg-cyan-600 text-white' : 'bg-gray-700 hover:bg-gray-600'}`}
+        >
+          Выкл
+        </button>
+        {FORECAST_HOURS.map(hours => (
+          <button
+            key={hours}
+            onClick={() => onForecastHoursChange(hours)}
+            className={`px-2 py-0.5 rounded ${forecastHours === hours ? 'bg-cyan-600 text-white' : 'bg-gray-700 hover:bg-gray-600'}`}
+          >
+            +{hours} ч
+          </button>
+        ))}
+      </div>
+      {forecastHours !== null && (
+        <p className="text-xs text-gray-400 mb-2">Нефтяных пятен в прогнозе: {slickCount}</p>
+      )}
+      <div className="text-xs text-gray-400 space-y-0.5">
+        <p><strong>Ветер:</strong> {fields.wind.name}</p>
+        <p><strong>Течение:</strong> {fields.current.name}</p>
+      </div>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".json"
+        multiple
+        className="hidden"
+        onChange={e => {
+          loadFiles(Array.from(e.target.files ?? []));
+          e.target.value = '';
+        }}
+      />
+      <div className="grid grid-cols-2 gap-2 mt-2">
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="px-3 py-1.5 text-sm bg-gray-700 text-white font-semibold rounded-md hover:bg-gray-600 transition-colors"
+        >
+          Загрузить поля
+        </button>
+        <button
+          onClick={onResetFields}
+          className="px-3 py-1.5 text-sm bg-gray-700 text-white font-semibold rounded-md hover:bg-gray-600 transition-colors"
+        >
+          Синтетические
+        </button>
+      </div>
+      {error && <p className="text-xs text-red-400 mt-2">{error}</p>}
+    </div>
+  );
+};
+
+export default DriftPanel;
@@ -0,0 +1,35 @@
+import React from 'react';
+import { ExportFormat } from '../types';
+
+const EXPORT_OPTIONS: { format: ExportFormat; label: string }[] = [
+  { format: 'geojson', label: 'GeoJSON' },
+  { format: 'kml', label: 'KML' },
+  { format: 'csv', label: 'CSV' },
+];
+
+interface ExportPanelProps {
+  count: number;
+  onExport: (format: ExportFormat) => void;
+}
+
+const ExportPanel: React.FC<ExportPanelProps> = ({ count, onExport }) => (
+  <div className="flex-shrink-0 bg-gray-900/50 p-3 rounded-md border border-gray-700">
+    <h3 className="font-semibold mb-1">ЭКСПОРТ ДАННЫХ</h3>
+    <p className="text-xs text-gray-400 mb-2">Отфильтрованных обнаружений: {count}</p>
+    <div className="grid grid-cols-3 gap-2">
+      {EXPORT_OPTIONS.map(({ format, label }) => (
+        <button
+          key={format}
+          onClick={() => onExport(format)}
+          disabled={count === 0}
+          className="px-2 py-1.5 text-sm bg-gray-700 text-white font-semibold rounded-md hover:bg-gray-600 disabled:bg-gray-800 disabled:text-gray-500 disabled:cursor-not-allowed transition-colors flex items-center justify-center space-x-1"
+        >
+          <i className="ph ph-download-simple"></i>
+          <span>{label}</span>
+        </button>
+      ))}
+    </div>
+  </div>
+);
+
+export default ExportPanel;
@@ -1,25 +1,43 @@
 import React, { useState } from 'react';
-import { Filters } from '../types';
-
-const POLLUTION_TYPES: Array<'Химическое' | 'Нефтяное' | 'Физическое'> = ['Химическое', 'Нефтяное', 'Физическое'];
-const HAZARD_LEVELS: Array<'Низкий' | 'Средний' | 'Высокий'> = ['Низкий', 'Средний', 'Высокий'];
-const IMPACT_AREAS: Array<'Вода' | 'Почва'> = ['Вода', 'Почва'];
-const CONFIDENCE_LEVELS: Array<'Низкая' | 'Средняя' | 'Высокая'> = ['Низкая', 'Средняя', 'Высокая'];
+import { FilterAreaActions, FilterAreaDrawing, FilterCategory, FilterPreset, FilterPresetActions, Filters } from '../types';
+import { countActiveFilters, FILTER_OPTIONS } from '../services/filterService';
 
 
 interface FilterPanelProps {
   filters: Filters;
-  onFilterChange: (category: keyof Filters, value: string) => void;
+  onFilterChange: (category: FilterCategory, value: string) => void;
+  onFilterUpdate: (patch: Partial<Filters>) => void;
   onResetFilters: () => void;
+  presets: FilterPreset[];
+  presetActions: FilterPresetActions;
+  // Drawing needs the map; without these the drawn area can only be shown and cleared.
+  areaDrawing?: FilterAreaDrawing | null;
+  areaActions?: FilterAreaActions;
 }
 
 interface CheckboxProps {
   label: string;
-  category: keyof Filters;
+  category: FilterCategory;
   isChecked: boolean;
-  onChange: (category: keyof Filters, value: string) => void;
+  onChange: (category: FilterCategory, value: string) => void;
 }
 
+const inputClass = 'w-full bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-xs text-gray-200';
+const smallButtonClass = 'flex-1 px-2 py-1 text-xs bg-gray-700 text-white font-semibold rounded-md hover:bg-gray-600 disabled:bg-gray-800 disabled:text-gray-500 disabled:cursor-not-allowed transition-colors';
+
+// `datetime-local` inputs work in local time without a zone suffix.
+const toLocalInput = (timestamp: number | null): string => {
+  if (timestamp === null) return '';
+  const offsetMs = new Date(timestamp).getTimezoneOffset() * 60000;
+  return new Date(timestamp - offsetMs).toISOString().slice(0, 16);
+};
+
+const fromLocalInput = (value: string): number | null => {
+  if (!value) return null;
+  const timestamp = new Date(value).getTime();
+  return Number.isFinite(timestamp) ? timestamp : null;
+};
+
 const FilterCheckbox: React.FC<CheckboxProps> = ({ label, category, isChecked, onChange }) => (
   <label className="flex items-center space-x-2 cursor-pointer text-gray-300 hover:text-white transition-colors">
     <input
@@ -32,10 +50,22 @@ const FilterCheckbox: React.FC<CheckboxProps> = ({ label, category, isChecked, o
   </label>
 );
 
-const FilterPanel: React.FC<FilterPanelProps> = ({ filters, onFilterChange, onResetFilters }) => {
+const FilterPanel: React.FC<FilterPanelProps> = ({ filters, onFilterChange, onFilterUpdate, onResetFilters, presets, presetActions, areaDrawing, areaActions }) => {
   const [isOpen, setIsOpen] = useState(true);
-  
-  const totalActiveFilters = filters.type.length + filters.hazardLevel.length + filters.impactArea.length + filters.confidence.length;
+  const [presetName, setPresetName] = useState('');
+
+  const totalActiveFilters = countActiveFilters(filters);
+  const confidenceMinPercent = Math.round(filters.confidenceMin * 100);
+  const confidenceMaxPercent = Math.round(filters.confidenceMax * 100);
+  const drawingPoints = areaDrawing?.points.length ?? 0;
+  const canFinishDrawing = areaDrawing?.shape === 'polygon' && drawingPoints >= 3;
+
+  const savePreset = () => {
+    const name = presetName.trim();
+    if (!name) return;
+    presetActions.onSave(name);
+    setPresetName('');
+  };
 
   return (
     <div className="flex-shrink-0 bg-gray-900/50 p-3 rounded-md border border-gray-700">
@@ -60,7 +90,7 @@ const FilterPanel: React.FC<FilterPanelProps> = ({ filters, onFilterChange, onRe
           <div>
             <h4 className="text-sm font-semibold text-gray-400 mb-2">Тип Загрязнения</h4>
             <div className="grid grid-cols-2 gap-2 text-sm">
-              {POLLUTION_TYPES.map(type => (
+              {FILTER_OPTIONS.type.map(type => (
                 <FilterCheckbox key={type} label={type} category="type" isChecked={filters.type.includes(type)} onChange={onFilterChange} />
               ))}
             </div>
@@ -68,7 +98,7 @@ const FilterPanel: React.FC<FilterPanelProps> = ({ filters, onFilterChange, onRe
           <div>
             <h4 className="text-sm font-semibold text-gray-400 mb-2">Уровень Опасности</h4>
             <div className="grid grid-cols-2 gap-2 text-sm">
-              {HAZARD_LEVELS.map(level => (
+              {FILTER_OPTIONS.hazardLevel.map(level => (
                 <FilterCheckbox key={level} label={level} category="hazardLevel" isChecked={filters.hazardLevel.includes(level)} onChange={onFilterChange} />
               ))}
             </div>
@@ -76,18 +106,175 @@ const FilterPanel: React.FC<FilterPanelProps> = ({ filters, onFilterChange, onRe
            <div>
             <h4 className="text-sm font-semibold text-gray-400 mb-2">Область Воздействия</h4>
             <div className="grid grid-cols-2 gap-2 text-sm">
-              {IMPACT_AREAS.map(area => (
+              {FILTER_OPTIONS.impactArea.map(area => (
                 <FilterCheckbox key={area} label={area} category="impactArea" isChecked={filters.impactArea.includes(area)} onChange={onFilterChange} />
               ))}
             </div>
           </div>
            <div>
-            <h4 className="text-sm font-semibold text-gray-400 mb-2">Уровень Уверенности</h4>
+            <h4 className="text-sm font-semibold text-gray-400 mb-2">Уверенность: {confidenceMinPercent}–{confidenceMaxPercent}%</h4>
+            <div className="space-y-1 text-xs text-gray-400">
+              <label className="flex items-center space-x-2">
+                <span className="w-6">от</span>
+                <input
+                  type="range"
+                  min="0"
+                  max="100"
+                  value={confidenceMinPercent}
+                  onChange={e => onFilterUpdate({ confidenceMin: Math.min(Number(e.target.value), confidenceMaxPercent) / 100 })}
+                  className="flex-1 accent-cyan-500"
+                />
+              </label>
+              <label className="flex items-center space-x-2">
+                <span className="w-6">до</span>
+                <input
+                  type="range"
+                  min="0"
+                  max="100"
+                  value={confidenceMaxPercent}
+                  onChange={e => onFilterUpdate({ confidenceMax: Math.max(Number(e.target.value), confidenceMinPercent) / 100 })}
+                  className="flex-1 accent-cyan-500"
+                />
+              </label>
+            </div>
+          </div>
+           <div>
+            <h4 className="text-sm font-semibold text-gray-400 mb-2">Статус Инцидента</h4>
             <div className="grid grid-cols-2 gap-2 text-sm">
-              {CONFIDENCE_LEVELS.map(level => (
-                <FilterCheckbox key={level} label={level} category="confidence" isChecked={filters.confidence.includes(level)} onChange={onFilterChange} />
+              {FILTER_OPTIONS.status.map(status => (
+                <FilterCheckbox key={status} label={status} category="status" isChecked={filters.status.includes(status)} onChange={onFilterChange} />
               ))}
             </div>
+          </div>
+           <div>
+            <h4 className="text-sm font-semibold text-gray-400 mb-2">Площадь Пятна</h4>
+            <div className="grid grid-cols-2 gap-2 text-sm">
+              {FILTER_OPTIONS.size.map(size => (
+                <FilterCheckbox key={size} label={size} category="size" isChecked={filters.size.includes(size)} onChange={onFilterChange} />
+              ))}
+            </div>
+            <label className="block text-xs text-gray-400 mt-2">
+              Не меньше, км²
+              <input
+                type="number"
+                min="0"
+                step="0.1"
+                value={filters.minAreaKm2 > 0 ? filters.minAreaKm2 : ''}
+                onChange={e => {
+                  const value = Number(e.target.value);
+                  onFilterUpdate({ minAreaKm2: Number.isFinite(value) && value > 0 ? value : 0 });
+                }}
+                className={inputClass}
+              />
+            </label>
+          </div>
+           <div>
+            <h4 className="text-sm font-semibold text-gray-400 mb-2">Чувствительные Зоны</h4>
+            <div className="grid grid-cols-2 gap-2 text-sm">
+              {FILTER_OPTIONS.proximity.map(proximity => (
+                <FilterCheckbox key={proximity} label={proximity} category="proximity" isChecked={filters.proximity.includes(proximity)} onChange={onFilterChange} />
+              ))}
+            </div>
+          </div>
+          <div>
+            <h4 className="text-sm font-semibold text-gray-400 mb-2">Период Обнаружения</h4>
+            <div className="grid grid-cols-2 gap-2">
+              <label className="block text-xs text-gray-400">
+                С
+                <input
+                  type="datetime-local"
+                  value={toLocalInput(filters.timeFrom)}
+                  onChange={e => onFilterUpdate({ timeFrom: fromLocalInput(e.target.value) })}
+                  className={inputClass}
+                />
+              </label>
+              <label className="block text-xs text-gray-400">
+                По
+                <input
+                  type="datetime-local"
+                  value={toLocalInput(filters.timeTo)}
+                  onChange={e => {
+                    // The input has minute precision; the end of the window covers its whole last minute.
+                    const timeTo = fromLocalInput(e.target.value);
+                    onFilterUpdate({ timeTo: timeTo === null ? null : timeTo + 59999 });
+                  }}
+                  className={inputClass}
+                />
+              </label>
+            </div>
+          </div>
+          <div>
+            <h4 className="text-sm font-semibold text-gray-400 mb-2">Область на Карте</h4>
+            {areaDrawing ? (
+              <div className="space-y-2">
+                <p className="text-xs text-cyan-300">
+                  {areaDrawing.shape === 'rectangle'
+                    ? `Щёлкните два противоположных угла на карте (отмечено: ${drawingPoints}).`
+                    : `Щёлкайте вершины на карте (отмечено: ${drawingPoints}), затем нажмите «Готово».`}
+                </p>
+                <div className="flex space-x-2">
+                  {areaDrawing.shape === 'polygon' && (
+                    <button onClick={areaActions?.onFinishDrawing} disabled={!canFinishDrawing} className={smallButtonClass}>Готово</button>
+                  )}
+                  <button onClick={areaActions?.onCancelDrawing} className={smallButtonClass}>Отмена</button>
+                </div>
+              </div>
+            ) : (
+              <div className="space-y-2">
+                <p className="text-xs text-gray-400">
+                  {filters.area ? `Задана область (вершин: ${filters.area.length - 1}).` : 'Область не задана.'}
+                </p>
+                <div className="flex space-x-2">
+                  {areaActions && (
+                    <>
+                      <button onClick={() => areaActions.onStartDrawing('rectangle')} className={smallButtonClass}>Прямоугольник</button>
+                      <button onClick={() => areaActions.onStartDrawing('polygon')} className={smallButtonClass}>Многоугольник</button>
+                    </>
+                  )}
+                  {filters.area && (
+                    <button onClick={() => onFilterUpdate({ area: null })} className={smallButtonClass} title="Убрать область">
+                      <i className="ph ph-x"></i>
+                    </button>
+                  )}
+                </div>
+              </div>
+            )}
+          </div>
+          <div>
+            <h4 className="text-sm font-semibold text-gray-400 mb-2">Наборы Фильтров</h4>
+            {presets.length > 0 ? (
+              <ul className="space-y-1 mb-2 text-xs">
+                {presets.map(preset => (
+                  <li key={preset.id} className="flex items-center justify-between space-x-2">
+                    <button onClick={() => presetActions.onApply(preset.id)} className="flex-1 text-left truncate text-gray-300 hover:text-cyan-300" title="Применить набор">
+                      <i className="ph ph-funnel mr-1"></i>{preset.name}
+                    </button>
+                    <button onClick={() => presetActions.onDelete(preset.id)} className="px-2 py-0.5 rounded bg-gray-700 hover:bg-red-700" title="Удалить набор">
+                      <i className="ph ph-trash"></i>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-xs text-gray-500 mb-2">Сохранённых наборов нет.</p>
+            )}
+            <div className="flex space-x-2">
+              <input
+                value={presetName}
+                onChange={e => setPresetName(e.target.value)}
+                onKeyDown={e => { if (e.key === 'Enter') savePreset(); }}
+                placeholder="Название набора"
+                className={inputClass}
+              />
+              <button
+                onClick={savePreset}
+                disabled={!presetName.trim()}
+                className="px-3 py-1 text-sm bg-cyan-600 text-white font-semibold rounded-md hover:bg-cyan-500 disabled:bg-gray-800 disabled:text-gray-500 disabled:cursor-not-allowed transition-colors"
+                title="Сохранить текущие фильтры"
+              >
+                <i className="ph ph-floppy-disk"></i>
+              </button>
+            </div>
           </div>
           <button
             onClick={onResetFilters}
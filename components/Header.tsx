@@ -3,9 +3,21 @@ import React from 'react';
 
 interface HeaderProps {
   onNavigateHome?: () => void;
+  onNavigateMonitor?: () => void;
+  onNavigateAnalytics?: () => void;
 }
 
-const Header: React.FC<HeaderProps> = ({ onNavigateHome }) => {
+const NavButton: React.FC<{ icon: string; label: string; onClick: () => void }> = ({ icon, label, onClick }) => (
+  <button
+    onClick={onClick}
+    className="px-3 py-1 text-sm bg-gray-700 text-white font-semibold rounded-md hover:bg-gray-600 transition-colors flex items-center space-x-1"
+  >
+    <i className={`ph-bold ${icon}`}></i>
+    <span className="hidden sm:inline">{label}</span>
+  </button>
+);
+
+const Header: React.FC<HeaderProps> = ({ onNavigateHome, onNavigateMonitor, onNavigateAnalytics }) => {
   return (
     <header className="bg-gray-800/50 backdrop-blur-sm border-b border-gray-700 p-3 flex items-center justify-between z-10">
       <div className="flex items-center space-x-3">
@@ -23,6 +35,8 @@ const Header: React.FC<HeaderProps> = ({ onNavigateHome }) => {
         <h1 className="text-lg md:text-xl font-bold text-white tracking-wider">МОНИТОР ЗАГРЯЗНЕНИЯ АРКТИКИ</h1>
       </div>
       <div className="flex items-center space-x-2">
+        {onNavigateMonitor && <NavButton icon="ph-map-trifold" label="Мониторинг" onClick={onNavigateMonitor} />}
+        {onNavigateAnalytics && <NavButton icon="ph-chart-bar" label="Аналитика" onClick={onNavigateAnalytics} />}
         <span className="relative flex h-3 w-3">
           <span className="animate-ping absolute inline-flex h-full w-full rounded-full bg-green-400 opacity-75"></span>
           <span className="relative inline-flex rounded-full h-3 w-3 bg-green-500"></span>
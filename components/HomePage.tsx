@@ -3,6 +3,7 @@ import React from 'react';
 
 interface HomePageProps {
   onNavigate: () => void;
+  onNavigateAnalytics: () => void;
 }
 
 const SectionTitle: React.FC<{ children: React.ReactNode }> = ({ children }) => (
@@ -23,7 +24,7 @@ const FeatureCard: React.FC<{ icon: string; title: string; children: React.React
   </div>
 );
 
-const HomePage: React.FC<HomePageProps> = ({ onNavigate }) => {
+const HomePage: React.FC<HomePageProps> = ({ onNavigate, onNavigateAnalytics }) => {
   return (
     <div className="bg-gray-900 text-gray-300 h-screen w-screen overflow-y-auto font-sans">
       {/* Sticky Header */}
@@ -32,13 +33,22 @@ const HomePage: React.FC<HomePageProps> = ({ onNavigate }) => {
           <i className="ph-bold ph-planet text-3xl text-cyan-400"></i>
           <h1 className="text-lg font-bold text-white tracking-wider hidden sm:block">АРКТИЧЕСКИЙ МОНИТОР</h1>
         </div>
-        <button
-          onClick={onNavigate}
-          className="px-5 py-2 bg-cyan-600 text-white font-bold text-sm rounded-md hover:bg-cyan-500 transition-colors transform hover:scale-105 shadow-lg shadow-cyan-500/20 flex items-center space-x-2"
-        >
-          <i className="ph-bold ph-satellite"></i>
-          <span>К МОНИТОРИНГУ</span>
-        </button>
+        <div className="flex items-center space-x-3">
+          <button
+            onClick={onNavigateAnalytics}
+            className="px-5 py-2 bg-gray-700 text-white font-bold text-sm rounded-md hover:bg-gray-600 transition-colors flex items-center space-x-2"
+          >
+            <i className="ph-bold ph-chart-bar"></i>
+            <span>АНАЛИТИКА</span>
+          </button>
+          <button
+            onClick={onNavigate}
+            className="px-5 py-2 bg-cyan-600 text-white font-bold text-sm rounded-md hover:bg-cyan-500 transition-colors transform hover:scale-105 shadow-lg shadow-cyan-500/20 flex items-center space-x-2"
+          >
+            <i className="ph-bold ph-satellite"></i>
+            <span>К МОНИТОРИНГУ</span>
+          </button>
+        </div>
       </header>
 
       <main className="container mx-auto px-4">
@@ -0,0 +1,85 @@
+import React, { useRef } from 'react';
+import { ImportReport, ReferenceLayer } from '../types';
+
+interface ImportPanelProps {
+  reports: ImportReport[];
+  referenceLayers: ReferenceLayer[];
+  onImportFiles: (files: File[]) => void;
+  onRemoveReferenceLayer: (id: string) => void;
+  onClearReports: () => void;
+}
+
+const ImportPanel: React.FC<ImportPanelProps> = ({
+  reports,
+  referenceLayers,
+  onImportFiles,
+  onRemoveReferenceLayer,
+  onClearReports,
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  return (
+    <div className="flex-shrink-0 bg-gray-900/50 p-3 rounded-md border border-gray-700">
+      <h3 className="font-semibold mb-1">ИМПОРТ ДАННЫХ</h3>
+      <p className="text-xs text-gray-400 mb-2">Перетащите GeoJSON или KML на карту или выберите файл.</p>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".geojson,.json,.kml"
+        multiple
+        className="hidden"
+        onChange={e => {
+          onImportFiles(Array.from(e.target.files ?? []));
+          e.target.value = '';
+        }}
+      />
+      <button
+        onClick={() => fileInputRef.current?.click()}
+        className="w-full px-3 py-1.5 text-sm bg-gray-700 text-white font-semibold rounded-md hover:bg-gray-600 transition-colors flex items-center justify-center space-x-2"
+      >
+        <i className="ph ph-upload-simple"></i>
+        <span>Выбрать файл</span>
+      </button>
+
+      {referenceLayers.length > 0 && (
+        <div className="mt-3">
+          <h4 className="text-sm font-semibold text-gray-400 mb-1">Справочные слои</h4>
+          {referenceLayers.map(layer => (
+            <div key={layer.id} className="flex justify-between items-center text-xs text-gray-300">
+              <span className="truncate">{layer.name} ({layer.features.length})</span>
+              <button onClick={() => onRemoveReferenceLayer(layer.id)} className="text-gray-400 hover:text-white" aria-label="Удалить слой">
+                <i className="ph ph-trash"></i>
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {reports.length > 0 && (
+        <div className="mt-3">
+          <div className="flex justify-between items-center mb-1">
+            <h4 className="text-sm font-semibold text-gray-400">Результаты импорта</h4>
+            <button onClick={onClearReports} className="text-xs text-gray-400 hover:text-white">Очистить</button>
+          </div>
+          <div className="max-h-40 overflow-y-auto space-y-2">
+            {reports.map((report, i) => (
+              <div key={`${report.fileName}-${i}`} className="text-xs">
+                <p className="text-gray-300 font-semibold truncate">{report.fileName}</p>
+                <p className="text-gray-400">
+                  Загружено: <span className="text-green-400">{report.imported}</span>,
+                  справочных: {report.referenceFeatures},
+                  отклонено: <span className={report.rejected.length > 0 ? 'text-red-400' : ''}>{report.rejected.length}</span>
+                </p>
+                {report.rejected.map(r => (
+                  <p key={r.index} className="text-red-400 pl-2">{r.name}: {r.reason}</p>
+                ))}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ImportPanel;
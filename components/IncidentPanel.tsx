@@ -0,0 +1,125 @@
+import React, { useEffect, useState } from 'react';
+import { Incident, IncidentActions, IncidentStatus } from '../types';
+import { INCIDENT_STATUSES } from '../services/incidentService';
+
+interface IncidentPanelProps {
+  incident: Incident;
+  actions: IncidentActions;
+  onClose: () => void;
+}
+
+export const STATUS_BADGE_CLASSES: Record<IncidentStatus, string> = {
+  'Новый': 'bg-blue-600',
+  'Подтверждён': 'bg-yellow-600',
+  'Направлена бригада': 'bg-orange-600',
+  'Локализован': 'bg-teal-600',
+  'Закрыт': 'bg-gray-600',
+  'Ложная тревога': 'bg-gray-500',
+};
+
+const formatDateTime = (timestamp: number) => new Date(timestamp).toLocaleString('ru-RU');
+
+const IncidentPanel: React.FC<IncidentPanelProps> = ({ incident, actions, onClose }) => {
+  const { workflow } = incident;
+  const [assignee, setAssignee] = useState(workflow.assignee);
+  const [note, setNote] = useState('');
+
+  // Keep the draft in sync when another incident is selected or the assignee is edited from the map.
+  useEffect(() => {
+    setAssignee(workflow.assignee);
+  }, [incident.id, workflow.assignee]);
+
+  const submitNote = () => {
+    if (!note.trim()) return;
+    actions.onAddNote(incident.id, note);
+    setNote('');
+  };
+
+  return (
+    <div className="flex-shrink-0 bg-gray-900/50 p-3 rounded-md border border-cyan-700">
+      <div className="flex justify-between items-center mb-2">
+        <h3 className="font-semibold">ИНЦИДЕНТ: {incident.type.toUpperCase()}</h3>
+        <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors" aria-label="Закрыть">
+          <i className="ph-bold ph-x text-lg"></i>
+        </button>
+      </div>
+
+      <div className="space-y-2 text-sm">
+        <p className="text-gray-400">
+          Наблюдений: {incident.observations.length}, последнее {formatDateTime(incident.lastSeen)}
+        </p>
+
+        <label className="block text-gray-400">
+          Статус
+          <select
+            value={workflow.status}
+            onChange={e => actions.onStatusChange(incident.id, e.target.value as IncidentStatus)}
+            className="mt-1 w-full bg-gray-700 border border-gray-600 rounded-md px-2 py-1.5 text-gray-200"
+          >
+            {INCIDENT_STATUSES.map(status => <option key={status} value={status}>{status}</option>)}
+          </select>
+        </label>
+
+        <label className="block text-gray-400">
+          Ответственный
+          <input
+            type="text"
+            value={assignee}
+            onChange={e => setAssignee(e.target.value)}
+            onBlur={() => actions.onAssign(incident.id, assignee)}
+            onKeyDown={e => e.key === 'Enter' && actions.onAssign(incident.id, assignee)}
+            placeholder="Не назначен"
+            className="mt-1 w-full bg-gray-700 border border-gray-600 rounded-md px-2 py-1.5 text-gray-200"
+          />
+        </label>
+
+        <div>
+          <h4 className="font-semibold text-gray-400 mb-1">Заметки оператора</h4>
+          <div className="max-h-32 overflow-y-auto space-y-1">
+            {workflow.notes.length === 0 && <p className="text-xs text-gray-500">Заметок нет.</p>}
+            {workflow.notes.map(n => (
+              <div key={n.timestamp} className="text-xs">
+                <span className="text-gray-500 mr-2">{formatDateTime(n.timestamp)}</span>
+                <span className="text-gray-300">{n.text}</span>
+              </div>
+            ))}
+          </div>
+          <div className="flex mt-2 space-x-2">
+            <input
+              type="text"
+              value={note}
+              onChange={e => setNote(e.target.value)}
+              onKeyDown={e => e.key === 'Enter' && submitNote()}
+              placeholder="Новая заметка"
+              className="flex-1 bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-gray-200"
+            />
+            <button
+              onClick={submitNote}
+              disabled={!note.trim()}
+              className="px-3 py-1 bg-cyan-600 text-white rounded-md hover:bg-cyan-500 disabled:bg-gray-700 disabled:text-gray-500"
+            >
+              <i className="ph-bold ph-plus"></i>
+            </button>
+          </div>
+        </div>
+
+        <div>
+          <h4 className="font-semibold text-gray-400 mb-1">Журнал статусов</h4>
+          <div className="max-h-24 overflow-y-auto space-y-1">
+            {workflow.history.length === 0 && <p className="text-xs text-gray-500">Статус не менялся.</p>}
+            {[...workflow.history].reverse().map(h => (
+              <div key={h.timestamp} className="text-xs flex items-center">
+                <span className="text-gray-500 mr-2">{formatDateTime(h.timestamp)}</span>
+                <span className="text-gray-400">{h.from}</span>
+                <i className="ph ph-arrow-right mx-1 text-gray-500"></i>
+                <span className={`px-1.5 rounded text-white ${STATUS_BADGE_CLASSES[h.to]}`}>{h.to}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default IncidentPanel;
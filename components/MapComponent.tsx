@@ -1,21 +1,68 @@
 
 import React, { useEffect, useRef } from 'react';
-import { PollutionData, SatellitePosition } from '../types';
+import {
+  Incident,
+  IncidentActions,
+  IncidentStatus,
+  LatLng,
+  FilterAreaDrawing,
+  MissionDrawing,
+  MissionOverlay,
+  PollutionData,
+  ReferenceLayer,
+  Satellite,
+  SensitiveZone,
+  SensitiveZoneProximity,
+} from '../types';
+import { INCIDENT_STATUSES } from '../services/incidentService';
+import { POLLUTION_COLORS, SENSITIVE_ZONE_COLORS } from '../constants';
+import { GroundTrack } from '../services/orbitService';
+import { CoverageCell } from '../services/coverageService';
+import { DriftForecast } from '../services/driftService';
+import { SeaIceCell } from '../services/seaIceService';
+import { MapView } from '../services/routeService';
+import { simplifyRing } from '../services/geometry';
 
 // The Leaflet library is loaded via a <script> tag in index.html,
 // so we declare the global `L` object to make TypeScript aware of it.
 declare const L: any;
 
 interface MapComponentProps {
-  satellitePosition: SatellitePosition;
-  pollutionData: PollutionData[];
+  satellites: Satellite[];
+  selectedSatelliteId: string;
+  onSelectSatellite: (id: string) => void;
+  incidents: Incident[];
+  incidentActions: IncidentActions;
+  referenceLayers: ReferenceLayer[];
+  groundTrack: { past: GroundTrack; future: GroundTrack } | null;
+  coverage: CoverageCell[] | null;
+  seaIce: SeaIceCell[] | null;
+  sensitiveZones: SensitiveZone[] | null;
+  zoneProximity: Map<string, SensitiveZoneProximity | null>;
+  driftForecasts: DriftForecast[];
+  driftHours: number | null;
+  missionOverlays: MissionOverlay[];
+  missionDrawing: MissionDrawing | null;
+  filterDrawing: FilterAreaDrawing | null;
+  filterArea: number[][] | null;
+  onMapClick: (point: LatLng) => void;
+  view: MapView | null;
+  onViewChange: (view: MapView) => void;
+  focusIncidentId: string | null;
 }
 
-const POLLUTION_COLORS: Record<PollutionData['type'], string> = {
-    'Химическое': '#a855f7',
-    'Нефтяное': '#ef4444',
-    'Физическое': '#f97316',
-};
+// Layers of one incident on the map, kept between renders so only changed incidents are touched.
+interface RenderedIncident {
+    polygon: any;
+    marker: any;
+    incident: Incident;
+    ring: number[][];
+    latlngsByZoom: Map<number, number[][]>;
+    // Outline currently drawn, one of `latlngsByZoom`.
+    latlngs: number[][];
+    // Content of the open popup, compared to decide whether it needs refreshing.
+    popupHtml: string;
+}
 
 // Fix: Corrected typo from PollulationData to PollutionData.
 const POLLUTION_ICONS: Record<PollutionData['type'], string> = {
@@ -24,19 +71,310 @@ const POLLUTION_ICONS: Record<PollutionData['type'], string> = {
     'Физическое': 'ph-trash',
 };
 
-const getPopupContent = (pos: SatellitePosition): string => `
+const getSatelliteIcon = (color: string, isSelected: boolean) => L.divIcon({
+    html: `
+      <div class="relative flex h-5 w-5">
+        ${isSelected ? `<span class="animate-ping absolute inline-flex h-full w-full rounded-full opacity-75" style="background-color: ${color};"></span>` : ''}
+        <span class="relative inline-flex rounded-full h-5 w-5 border-2 ${isSelected ? 'border-white' : 'border-white/50'}" style="background-color: ${color};"></span>
+      </div>`,
+    className: '',
+    iconSize: [20, 20],
+    iconAnchor: [10, 10],
+});
+
+const getPopupContent = (sat: Satellite): string => {
+    const pos = sat.position;
+    return `
     <div class="font-sans">
-        <h3 class="font-bold text-lg border-b border-gray-600 mb-2 pb-1 text-cyan-400">Спутник</h3>
+        <h3 class="font-bold text-lg border-b border-gray-600 mb-2 pb-1 text-cyan-400">Спутник ${sat.name}</h3>
+        <p><strong class="font-semibold text-gray-300">Статус:</strong> ${sat.status}</p>
         <p><strong class="font-semibold text-gray-300">Координаты:</strong> ${pos.lat.toFixed(4)}, ${pos.lng.toFixed(4)}</p>
+        ${pos.altitude !== undefined ? `<p><strong class="font-semibold text-gray-300">Высота:</strong> ${pos.altitude.toFixed(0)} км</p>` : ''}
         <p><strong class="font-semibold text-gray-300">Передача данных:</strong> ${pos.dataRate.toFixed(1)} Мбит/с</p>
     </div>`;
+};
+
+const formatDateTime = (timestamp: number) => new Date(timestamp).toLocaleString('ru-RU');
+
+// Leaflet keeps counting longitude past ±180 when the world is panned around.
+const normalizeLng = (lng: number) => ((lng + 180) % 360 + 360) % 360 - 180;
+
+// Viewports closer than this (degrees) are treated as the same when syncing with the route.
+const VIEW_TOLERANCE_DEG = 1e-3;
+
+// Heat ramp for the coverage grid: a single pass is pale, frequently revisited cells are saturated.
+const getCoverageColor = (passes: number) => {
+    if (passes >= 8) return '#1d4ed8';
+    if (passes >= 4) return '#2563eb';
+    if (passes >= 2) return '#3b82f6';
+    return '#93c5fd';
+};
+
+const formatTrend = (current: number, previous: number | undefined, digits: number, unit: string) => {
+    if (previous === undefined) return '';
+    const delta = current - previous;
+    if (Math.abs(delta) < Math.pow(10, -digits)) return '';
+    const color = delta > 0 ? 'text-red-400' : 'text-green-400';
+    return ` <span class="${color}">(${delta > 0 ? '+' : ''}${delta.toFixed(digits)}${unit})</span>`;
+};
+
+// Small spills need three decimals (0.001 км² = 0.1 ha) to be meaningful.
+const formatArea = (areaKm2: number) =>
+    areaKm2 < 10 ? `${areaKm2.toFixed(3)} км²` : `${areaKm2.toFixed(1)} км²`;
+
+const getIncidentHistoryHtml = (incident: Incident): string => {
+    const rows = incident.observations.map((o, i) => {
+        const prev = incident.observations[i - 1];
+        return `
+            <tr>
+                <td class="pr-2 text-gray-400">${formatDateTime(o.timestamp)}</td>
+                <td class="pr-2">${formatArea(o.areaKm2)}${formatTrend(o.areaKm2, prev?.areaKm2, 1, '')}</td>
+                <td>${(o.confidence * 100).toFixed(0)}%${formatTrend(o.confidence * 100, prev ? prev.confidence * 100 : undefined, 0, '')}</td>
+            </tr>`;
+    }).reverse().join('');
+    return `
+        <div class="mt-2 pt-2 border-t border-gray-600">
+            <p><strong class="font-semibold text-gray-300">Впервые:</strong> ${formatDateTime(incident.firstSeen)}</p>
+            <p><strong class="font-semibold text-gray-300">Последнее:</strong> ${formatDateTime(incident.lastSeen)}</p>
+            <p class="font-semibold text-gray-300 mt-1">Наблюдения (${incident.observations.length}):</p>
+            <div class="max-h-32 overflow-y-auto text-xs">
+                <table><tbody>${rows}</tbody></table>
+            </div>
+        </div>`;
+};
+
+const escapeHtml = (text: string) =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const getProximityHtml = (proximity: SensitiveZoneProximity | null | undefined): string => {
+    if (!proximity) return '';
+    const distance = proximity.intersects
+        ? '<span class="text-red-400 font-semibold">пересекает</span>'
+        : `${proximity.distanceKm.toFixed(1)} км`;
+    return `<p><strong class="font-semibold text-gray-300">Ближайшая зона:</strong> ${escapeHtml(proximity.zoneName)} (${proximity.category}), ${distance}</p>`;
+};
+
+// Workflow controls rendered inside the popup; their events are wired up in the `popupopen` handler.
+const getIncidentEditorHtml = (incident: Incident): string => {
+    const { workflow } = incident;
+    const options = INCIDENT_STATUSES.map(status =>
+        `<option value="${status}" ${status === workflow.status ? 'selected' : ''}>${status}</option>`
+    ).join('');
+    const lastNote = workflow.notes[workflow.notes.length - 1];
+    const inputClass = 'bg-gray-700 border border-gray-600 rounded px-1 py-0.5 text-gray-200';
+    return `
+        <div class="mt-2 pt-2 border-t border-gray-600 space-y-1 text-sm" data-incident-editor="${incident.id}">
+            <label class="flex items-center justify-between space-x-2">
+                <strong class="font-semibold text-gray-300">Статус:</strong>
+                <select data-field="status" class="${inputClass}">${options}</select>
+            </label>
+            <label class="flex items-center justify-between space-x-2">
+                <strong class="font-semibold text-gray-300">Ответственный:</strong>
+                <input data-field="assignee" type="text" value="${escapeHtml(workflow.assignee)}" placeholder="Не назначен" class="${inputClass} w-32" />
+            </label>
+            ${lastNote ? `<p class="text-xs text-gray-400">${formatDateTime(lastNote.timestamp)}: ${escapeHtml(lastNote.text)}</p>` : ''}
+            <div class="flex space-x-1">
+                <input data-field="note" type="text" placeholder="Заметка" class="${inputClass} flex-1" />
+                <button data-action="add-note" class="px-2 bg-cyan-600 text-white rounded hover:bg-cyan-500">+</button>
+            </div>
+            <button data-action="open-panel" class="text-xs text-cyan-400 hover:underline">Открыть в панели</button>
+        </div>`;
+};
+
+const bindIncidentEditor = (container: HTMLElement, actions: IncidentActions) => {
+    const editor = container.querySelector<HTMLElement>('[data-incident-editor]');
+    if (!editor) return;
+    const incidentId = editor.dataset.incidentEditor!;
+    const statusSelect = editor.querySelector<HTMLSelectElement>('[data-field="status"]');
+    const assigneeInput = editor.querySelector<HTMLInputElement>('[data-field="assignee"]');
+    const noteInput = editor.querySelector<HTMLInputElement>('[data-field="note"]');
+
+    statusSelect?.addEventListener('change', () => actions.onStatusChange(incidentId, statusSelect.value as IncidentStatus));
+    assigneeInput?.addEventListener('change', () => actions.onAssign(incidentId, assigneeInput.value));
+    const submitNote = () => {
+        if (!noteInput || !noteInput.value.trim()) return;
+        actions.onAddNote(incidentId, noteInput.value);
+        noteInput.value = '';
+    };
+    noteInput?.addEventListener('keydown', e => { if (e.key === 'Enter') submitNote(); });
+    editor.querySelector('[data-action="add-note"]')?.addEventListener('click', submitNote);
+    editor.querySelector('[data-action="open-panel"]')?.addEventListener('click', () => actions.onSelect(incidentId));
+};
+
+const getIncidentPopupHtml = (
+    incident: Incident,
+    proximity: SensitiveZoneProximity | null | undefined,
+    satelliteNames: Record<string, string>
+): string => {
+    const p = incident.latest;
+    const color = POLLUTION_COLORS[p.type] || '#ef4444';
+    const latestObservation = incident.observations[incident.observations.length - 1];
+    return `
+        <div class="font-sans">
+            <h3 class="font-bold text-lg border-b border-gray-600 mb-2 pb-1" style="color: ${color};">${p.type}</h3>
+            <p><strong class="font-semibold text-gray-300">Уверенность:</strong> ${(p.confidence * 100).toFixed(1)}%</p>
+            <p><strong class="font-semibold text-gray-300">Область:</strong> ${p.impactArea}</p>
+            <p><strong class="font-semibold text-gray-300">Опасность:</strong> ${p.hazardLevel}</p>
+            <p><strong class="font-semibold text-gray-300">Площадь:</strong> ${formatArea(latestObservation.areaKm2)}</p>
+            <p><strong class="font-semibold text-gray-300">Периметр:</strong> ${latestObservation.perimeterKm.toFixed(2)} км</p>
+            ${getProximityHtml(proximity)}
+            ${p.iceConcentration !== undefined ? `<p><strong class="font-semibold text-gray-300">Лёд:</strong> ${Math.round(p.iceConcentration * 100)}%</p>` : ''}
+            ${p.reviewReason ? `<p class="text-yellow-400 text-xs mt-1"><i class="ph-bold ph-warning"></i> ${escapeHtml(p.reviewReason)}</p>` : ''}
+            ${p.satelliteId && satelliteNames[p.satelliteId] ? `<p><strong class="font-semibold text-gray-300">Спутник:</strong> ${satelliteNames[p.satelliteId]}</p>` : ''}
+            ${p.sourceName ? `<p><strong class="font-semibold text-gray-300">Источник:</strong> ${escapeHtml(p.sourceName)}</p>` : ''}
+            ${getIncidentHistoryHtml(incident)}
+            ${getIncidentEditorHtml(incident)}
+        </div>`;
+};
+
+const getPollutionMarkerIcon = (type: PollutionData['type']) => L.divIcon({
+    html: `
+        <div class="marker-pulse relative flex items-center justify-center w-8 h-8 rounded-full" style="background-color: ${POLLUTION_COLORS[type] || '#ef4444'};">
+           <i class="ph-bold ${POLLUTION_ICONS[type] || 'ph-question'} text-white text-xl"></i>
+        </div>
+    `,
+    className: '', // Prevents leaflet from adding default styles
+    iconSize: [32, 32],
+    iconAnchor: [16, 16],
+});
+
+// Cluster badge: a ring split by the share of each pollution type around the total, with per-type counts below.
+const getClusterIcon = (cluster: any) => {
+    const counts = new Map<PollutionData['type'], number>();
+    cluster.getAllChildMarkers().forEach((marker: any) => {
+        const type: PollutionData['type'] = marker.options.pollutionType;
+        counts.set(type, (counts.get(type) ?? 0) + 1);
+    });
+    const total = cluster.getChildCount();
+    let start = 0;
+    const stops = Array.from(counts, ([type, count]) => {
+        const end = start + count / total * 100;
+        const stop = `${POLLUTION_COLORS[type]} ${start}% ${end}%`;
+        start = end;
+        return stop;
+    }).join(', ');
+    const chips = Array.from(counts, ([type, count]) =>
+        `<span style="background-color: ${POLLUTION_COLORS[type]};" title="${type}">${count}</span>`).join('');
+    const size = total < 10 ? 36 : total < 100 ? 42 : 50;
+    return L.divIcon({
+        html: `
+            <div class="pollution-cluster" style="width: ${size}px; height: ${size}px; background: conic-gradient(${stops});">
+                <span class="pollution-cluster-total">${total}</span>
+                <div class="pollution-cluster-counts">${chips}</div>
+            </div>`,
+        className: '',
+        iconSize: [size, size],
+        iconAnchor: [size / 2, size / 2],
+    });
+};
+
+// Outlines are simplified to about this many screen pixels at the current zoom; beyond the last level
+// the full outline is drawn.
+const SIMPLIFY_TOLERANCE_PX = 1.5;
+const SIMPLIFY_MAX_ZOOM = 12;
+
+const getSimplifiedLatLngs = (entry: RenderedIncident, zoom: number): number[][] => {
+    const level = Math.min(Math.round(zoom), SIMPLIFY_MAX_ZOOM + 1);
+    let latlngs = entry.latlngsByZoom.get(level);
+    if (!latlngs) {
+        // Web Mercator: one pixel covers 40075·cos(lat) / (256·2^zoom) km.
+        const kmPerPixel = 40075 * Math.cos(entry.ring[0][1] * Math.PI / 180) / (256 * Math.pow(2, level));
+        const ring = level > SIMPLIFY_MAX_ZOOM ? entry.ring : simplifyRing(entry.ring, kmPerPixel * SIMPLIFY_TOLERANCE_PX);
+        latlngs = ring.map(([lng, lat]) => [lat, lng]);
+        entry.latlngsByZoom.set(level, latlngs);
+    }
+    return latlngs;
+};
+
+// leaflet.markercluster adds and removes markers in bulk; the plain layer group fallback one at a time.
+const addMarkers = (group: any, markers: any[]) => {
+    if (markers.length === 0) return;
+    if (group.addLayers) group.addLayers(markers);
+    else markers.forEach(marker => group.addLayer(marker));
+};
+
+const removeMarkers = (group: any, markers: any[]) => {
+    if (markers.length === 0) return;
+    if (group.removeLayers) group.removeLayers(markers);
+    else markers.forEach(marker => group.removeLayer(marker));
+};
+
+const getReferencePopupContent = (layerName: string, properties: Record<string, unknown>): string => {
+    const rows = Object.entries(properties)
+        .filter(([, value]) => value !== null && typeof value !== 'object')
+        .slice(0, 8)
+        .map(([key, value]) => `<p><strong class="font-semibold text-gray-300">${escapeHtml(key)}:</strong> ${escapeHtml(String(value))}</p>`)
+        .join('');
+    return `
+    <div class="font-sans">
+        <h3 class="font-bold text-lg border-b border-gray-600 mb-2 pb-1 text-cyan-400">${escapeHtml(layerName)}</h3>
+        ${rows}
+    </div>`;
+};
 
-const MapComponent: React.FC<MapComponentProps> = ({ satellitePosition, pollutionData }) => {
+const MapComponent: React.FC<MapComponentProps> = ({
+  satellites,
+  selectedSatelliteId,
+  onSelectSatellite,
+  incidents,
+  incidentActions,
+  referenceLayers,
+  groundTrack,
+  coverage,
+  seaIce,
+  sensitiveZones,
+  zoneProximity,
+  driftForecasts,
+  driftHours,
+  missionOverlays,
+  missionDrawing,
+  filterDrawing,
+  filterArea,
+  onMapClick,
+  view,
+  onViewChange,
+  focusIncidentId,
+}) => {
   const mapContainerRef = useRef<HTMLDivElement>(null);
   const mapRef = useRef<any | null>(null);
-  const satelliteMarkerRef = useRef<any | null>(null);
+  const satelliteMarkersRef = useRef<Map<string, { marker: any; frameId: number | null; isSelected: boolean }>>(new Map());
   const pollutionLayerRef = useRef<any | null>(null);
-  const animationFrameIdRef = useRef<number | null>(null);
+  const markerClusterRef = useRef<any | null>(null);
+  const referenceLayerRef = useRef<any | null>(null);
+  const groundTrackLayerRef = useRef<any | null>(null);
+  const coverageLayerRef = useRef<any | null>(null);
+  const seaIceLayerRef = useRef<any | null>(null);
+  const driftLayerRef = useRef<any | null>(null);
+  const sensitiveZoneLayerRef = useRef<any | null>(null);
+  const missionLayerRef = useRef<any | null>(null);
+  const filterAreaLayerRef = useRef<any | null>(null);
+  const drawingLayerRef = useRef<any | null>(null);
+  // Map clicks are forwarded only while a mission shape or a filter area is being drawn.
+  const isDrawingRef = useRef(false);
+  isDrawingRef.current = missionDrawing !== null || filterDrawing !== null;
+  const onMapClickRef = useRef(onMapClick);
+  onMapClickRef.current = onMapClick;
+  const onSelectSatelliteRef = useRef(onSelectSatellite);
+  onSelectSatelliteRef.current = onSelectSatellite;
+  // Detection popups show the producing satellite's name; names are read through a ref so that
+  // satellite movement does not force the pollution layer to rebuild.
+  const satelliteNamesRef = useRef<Record<string, string>>({});
+  satelliteNamesRef.current = Object.fromEntries(satellites.map(sat => [sat.id, sat.name]));
+  // Callbacks are read through a ref so the popup handlers never call a stale closure.
+  const incidentActionsRef = useRef(incidentActions);
+  incidentActionsRef.current = incidentActions;
+  // Incident whose popup is open, so its content is refreshed when that incident changes.
+  const openIncidentIdRef = useRef<string | null>(null);
+  // Layers of every rendered incident by id, for incremental updates and for bringing a linked incident into view.
+  const incidentLayersRef = useRef<Map<string, RenderedIncident>>(new Map());
+  // Popup content is built when a popup opens and reads the current proximity through a ref.
+  const zoneProximityRef = useRef(zoneProximity);
+  zoneProximityRef.current = zoneProximity;
+  const focusedIncidentIdRef = useRef<string | null>(null);
+  // A linked viewport wins over centring on the selected satellite when the map opens.
+  const initialViewRef = useRef(view);
+  const onViewChangeRef = useRef(onViewChange);
+  onViewChangeRef.current = onViewChange;
 
   // Effect for initializing the map
   useEffect(() => {
@@ -45,8 +383,8 @@ const MapComponent: React.FC<MapComponentProps> = ({ satellitePosition, pollutio
     
     if (mapContainer && !mapRef.current && typeof L !== 'undefined') {
       const map = L.map(mapContainer, {
-        center: [80, -70],
-        zoom: 3,
+        center: view ? [view.lat, view.lng] : [80, -70],
+        zoom: view?.zoom ?? 3,
         minZoom: 2,
         zoomControl: false, 
         attributionControl: false,
@@ -58,9 +396,60 @@ const MapComponent: React.FC<MapComponentProps> = ({ satellitePosition, pollutio
       }).addTo(map);
       
       L.control.zoom({ position: 'bottomright' }).addTo(map);
+      seaIceLayerRef.current = L.layerGroup().addTo(map);
+      coverageLayerRef.current = L.layerGroup().addTo(map);
+      groundTrackLayerRef.current = L.layerGroup().addTo(map);
+      missionLayerRef.current = L.layerGroup().addTo(map);
+      sensitiveZoneLayerRef.current = L.layerGroup().addTo(map);
+      referenceLayerRef.current = L.layerGroup().addTo(map);
+      driftLayerRef.current = L.layerGroup().addTo(map);
+      filterAreaLayerRef.current = L.layerGroup().addTo(map);
       pollutionLayerRef.current = L.layerGroup().addTo(map);
+      // Markers cluster at low zoom when leaflet.markercluster has loaded; otherwise they are all drawn.
+      markerClusterRef.current = (typeof L.markerClusterGroup === 'function'
+        ? L.markerClusterGroup({
+            iconCreateFunction: getClusterIcon,
+            maxClusterRadius: 60,
+            disableClusteringAtZoom: 9,
+            showCoverageOnHover: false,
+            chunkedLoading: true,
+          })
+        : L.layerGroup()).addTo(map);
+      drawingLayerRef.current = L.layerGroup().addTo(map);
       mapRef.current = map;
 
+      map.on('click', (e: any) => {
+        if (!isDrawingRef.current) return;
+        onMapClickRef.current({ lat: e.latlng.lat, lng: e.latlng.lng });
+      });
+
+      map.on('moveend', () => {
+        const center = map.getCenter();
+        onViewChangeRef.current({ lat: center.lat, lng: normalizeLng(center.lng), zoom: map.getZoom() });
+      });
+
+      map.on('zoomend', () => {
+        const zoom = map.getZoom();
+        incidentLayersRef.current.forEach(entry => {
+          const latlngs = getSimplifiedLatLngs(entry, zoom);
+          if (latlngs === entry.latlngs) return;
+          entry.latlngs = latlngs;
+          entry.polygon.setLatLngs(latlngs);
+        });
+      });
+
+      map.on('popupopen', (e: any) => {
+        const incidentId = e.popup.options.incidentId;
+        if (!incidentId) return;
+        openIncidentIdRef.current = incidentId;
+        bindIncidentEditor(e.popup.getElement(), incidentActionsRef.current);
+      });
+      map.on('popupclose', (e: any) => {
+        if (e.popup.options.incidentId === openIncidentIdRef.current) {
+          openIncidentIdRef.current = null;
+        }
+      });
+
       resizeObserver = new ResizeObserver(() => {
         map.invalidateSize();
       });
@@ -78,123 +467,384 @@ const MapComponent: React.FC<MapComponentProps> = ({ satellitePosition, pollutio
     }
   }, []);
 
-  // Effect for creating and animating the satellite marker
+  // Effect for creating and animating one marker per satellite of the constellation
   useEffect(() => {
     const map = mapRef.current;
     if (!map) return;
+    const markers = satelliteMarkersRef.current;
 
-    if (!satelliteMarkerRef.current) {
-      map.setView([satellitePosition.lat, satellitePosition.lng]);
-      
-      const satelliteIcon = L.divIcon({
-          html: `
-            <div class="relative flex h-5 w-5">
-              <span class="animate-ping absolute inline-flex h-full w-full rounded-full bg-red-400 opacity-75"></span>
-              <span class="relative inline-flex rounded-full h-5 w-5 bg-red-500 border-2 border-white/50"></span>
-            </div>`,
-          className: '',
-          iconSize: [20, 20],
-          iconAnchor: [10, 10],
-      });
-      
-      const marker = L.marker([satellitePosition.lat, satellitePosition.lng], { 
-          icon: satelliteIcon,
-      }).addTo(map);
-      
-      marker.bindPopup(getPopupContent(satellitePosition), { className: 'map-popup' });
-        
-      satelliteMarkerRef.current = marker;
-      
-    } else {
-      satelliteMarkerRef.current.setPopupContent(getPopupContent(satellitePosition));
-      
-      if (animationFrameIdRef.current) {
-        cancelAnimationFrame(animationFrameIdRef.current);
+    markers.forEach((entry, id) => {
+      if (!satellites.some(sat => sat.id === id)) {
+        if (entry.frameId) cancelAnimationFrame(entry.frameId);
+        entry.marker.remove();
+        markers.delete(id);
       }
-  
-      const marker = satelliteMarkerRef.current;
+    });
+
+    satellites.forEach(sat => {
+      const isSelected = sat.id === selectedSatelliteId;
+      const entry = markers.get(sat.id);
+
+      if (!entry) {
+        if (isSelected && !initialViewRef.current) {
+          map.setView([sat.position.lat, sat.position.lng]);
+        }
+        const marker = L.marker([sat.position.lat, sat.position.lng], {
+            icon: getSatelliteIcon(sat.color, isSelected),
+            zIndexOffset: isSelected ? 1000 : 0,
+        }).addTo(map);
+        marker.bindPopup(getPopupContent(sat), { className: 'map-popup' });
+        marker.on('click', () => onSelectSatelliteRef.current(sat.id));
+        markers.set(sat.id, { marker, frameId: null, isSelected });
+        return;
+      }
+
+      entry.marker.setPopupContent(getPopupContent(sat));
+      if (entry.isSelected !== isSelected) {
+        entry.marker.setIcon(getSatelliteIcon(sat.color, isSelected));
+        entry.marker.setZIndexOffset(isSelected ? 1000 : 0);
+        entry.isSelected = isSelected;
+      }
+
+      if (entry.frameId) {
+        cancelAnimationFrame(entry.frameId);
+        entry.frameId = null;
+      }
+
+      const marker = entry.marker;
       const startLatLng = marker.getLatLng();
       const startPos = { lat: startLatLng.lat, lng: startLatLng.lng };
-      const targetPos = satellitePosition;
+      const targetPos = sat.position;
       const duration = 1000; // Match the simulation interval for smooth animation
       const startTime = performance.now();
-  
+
+      // An orbiting satellite can cross the antimeridian; jump instead of sweeping across the whole map.
+      if (Math.abs(targetPos.lng - startPos.lng) > 180) {
+        marker.setLatLng([targetPos.lat, targetPos.lng]);
+        return;
+      }
+
       const animate = (currentTime: number) => {
         const elapsedTime = currentTime - startTime;
         const progress = Math.min(elapsedTime / duration, 1);
-  
+
         const newLat = startPos.lat + (targetPos.lat - startPos.lat) * progress;
         const newLng = startPos.lng + (targetPos.lng - startPos.lng) * progress;
-        
+
         const newCoords: [number, number] = [newLat, newLng];
         marker.setLatLng(newCoords);
-  
-        if (progress < 1) {
-          animationFrameIdRef.current = requestAnimationFrame(animate);
-        } else {
-          animationFrameIdRef.current = null;
-        }
+
+        entry.frameId = progress < 1 ? requestAnimationFrame(animate) : null;
       };
+
+      entry.frameId = requestAnimationFrame(animate);
+    });
+  }, [satellites, selectedSatelliteId]);
   
-      animationFrameIdRef.current = requestAnimationFrame(animate);
-    }
-  }, [satellitePosition]);
-  
-  // Effect for updating the pollution data layer
+  // Effect for keeping incident polygons and markers in step with the data. Layers are keyed by incident:
+  // new incidents are added, vanished ones removed and changed ones updated in place, so a scan touches
+  // only what changed and an open popup survives unrelated updates.
   useEffect(() => {
+    const map = mapRef.current;
     const pollutionLayer = pollutionLayerRef.current;
-    if (!pollutionLayer) return;
+    const markerCluster = markerClusterRef.current;
+    if (!map || !pollutionLayer || !markerCluster) return;
+    const rendered = incidentLayersRef.current;
+    const currentIds = new Set(incidents.map(incident => incident.id));
+    const zoom = map.getZoom();
 
-    pollutionLayer.clearLayers();
+    const removedMarkers: any[] = [];
+    rendered.forEach((entry, id) => {
+        if (currentIds.has(id)) return;
+        pollutionLayer.removeLayer(entry.polygon);
+        removedMarkers.push(entry.marker);
+        rendered.delete(id);
+    });
 
-    pollutionData.forEach(p => {
+    const addedMarkers: any[] = [];
+    incidents.forEach(incident => {
+        const p = incident.latest;
         const color = POLLUTION_COLORS[p.type] || '#ef4444';
-        const iconClass = POLLUTION_ICONS[p.type] || 'ph-question';
-        
-        const leafletCoords = p.geometry.coordinates[0].map(coord => [coord[1], coord[0]]);
-
-        const polygon = L.polygon(leafletCoords, {
-            color: color,
-            fillColor: color,
-            fillOpacity: 0.5,
-            weight: 2,
-        });
+        const existing = rendered.get(incident.id);
+
+        if (!existing) {
+            const entry: RenderedIncident = {
+                polygon: null,
+                marker: null,
+                incident,
+                ring: p.geometry.coordinates[0],
+                latlngsByZoom: new Map(),
+                latlngs: [],
+                popupHtml: '',
+            };
+            entry.latlngs = getSimplifiedLatLngs(entry, zoom);
+            const popupContent = () => {
+                entry.popupHtml = getIncidentPopupHtml(entry.incident, zoneProximityRef.current.get(entry.incident.latest.id), satelliteNamesRef.current);
+                return entry.popupHtml;
+            };
+            const popupOptions = { className: 'map-popup', incidentId: incident.id };
+
+            entry.polygon = L.polygon(entry.latlngs, { color, fillColor: color, fillOpacity: 0.5, weight: 2 })
+                .bindTooltip(p.type, { className: 'map-tooltip', sticky: true })
+                .bindPopup(popupContent, popupOptions)
+                .on('click', () => incidentActionsRef.current.onSelect(incident.id))
+                .addTo(pollutionLayer);
+            entry.marker = L.marker(L.latLngBounds(entry.ring.map(([lng, lat]) => [lat, lng])).getCenter(), {
+                icon: getPollutionMarkerIcon(p.type),
+                pollutionType: p.type,
+            })
+                .bindPopup(popupContent, popupOptions)
+                .on('click', () => incidentActionsRef.current.onSelect(incident.id));
+            addedMarkers.push(entry.marker);
+            rendered.set(incident.id, entry);
+            return;
+        }
 
-        polygon.bindTooltip(p.type, {
-            className: 'map-tooltip',
-            sticky: true,
+        const previous = existing.incident.latest;
+        existing.incident = incident;
+        if (previous !== p) {
+            // A new observation moves the outline and the marker; a markercluster marker is re-added to move it.
+            existing.ring = p.geometry.coordinates[0];
+            existing.latlngsByZoom.clear();
+            existing.latlngs = getSimplifiedLatLngs(existing, zoom);
+            existing.polygon.setLatLngs(existing.latlngs);
+            removedMarkers.push(existing.marker);
+            existing.marker.setLatLng(L.latLngBounds(existing.ring.map(([lng, lat]) => [lat, lng])).getCenter());
+            if (previous.type !== p.type) {
+                existing.polygon.setStyle({ color, fillColor: color });
+                existing.polygon.setTooltipContent(p.type);
+                existing.marker.options.pollutionType = p.type;
+                existing.marker.setIcon(getPollutionMarkerIcon(p.type));
+            }
+            addedMarkers.push(existing.marker);
+        }
+
+        // Refresh the open popup only when what it shows has changed, so a half-typed note is kept otherwise.
+        if (incident.id === openIncidentIdRef.current) {
+            const html = getIncidentPopupHtml(incident, zoneProximity.get(p.id), satelliteNamesRef.current);
+            if (html === existing.popupHtml) return;
+            [existing.polygon, existing.marker].forEach(layer => {
+                if (!layer.isPopupOpen()) return;
+                layer.getPopup().update();
+                bindIncidentEditor(layer.getPopup().getElement(), incidentActionsRef.current);
+            });
+        }
+    });
+
+    removeMarkers(markerCluster, removedMarkers);
+    addMarkers(markerCluster, addedMarkers);
+  }, [incidents, zoneProximity]);
+
+  // Effect for following viewport changes from the route, e.g. the back button or a pasted link
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || !view) return;
+    const center = map.getCenter();
+    const isSameView = Math.abs(center.lat - view.lat) < VIEW_TOLERANCE_DEG &&
+        Math.abs(normalizeLng(center.lng) - view.lng) < VIEW_TOLERANCE_DEG &&
+        map.getZoom() === view.zoom;
+    if (!isSameView) {
+        map.setView([view.lat, view.lng], view.zoom);
+    }
+  }, [view]);
+
+  // Effect for bringing the selected incident into view and opening its popup once it is rendered
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!focusIncidentId) {
+        focusedIncidentIdRef.current = null;
+        return;
+    }
+    if (!map || focusedIncidentIdRef.current === focusIncidentId) return;
+    const layers = incidentLayersRef.current.get(focusIncidentId);
+    if (!layers) return;
+    focusedIncidentIdRef.current = focusIncidentId;
+    // Selected by clicking it on the map: the popup is already open where the operator is looking.
+    if (openIncidentIdRef.current === focusIncidentId) return;
+
+    const bounds = layers.polygon.getBounds();
+    if (map.getBounds().contains(bounds)) {
+        layers.polygon.openPopup();
+    } else {
+        // The marker may be inside a cluster; the polygon is always on the map.
+        map.once('moveend', () => layers.polygon.openPopup());
+        map.flyToBounds(bounds, { maxZoom: 8 });
+    }
+  }, [focusIncidentId, incidents]);
+
+  // Effect for drawing the past (solid) and predicted (dashed) ground track of an orbiting satellite
+  useEffect(() => {
+    const groundTrackLayer = groundTrackLayerRef.current;
+    if (!groundTrackLayer) return;
+
+    groundTrackLayer.clearLayers();
+    if (!groundTrack) return;
+    groundTrack.past.forEach(segment => {
+        L.polyline(segment, { color: '#9ca3af', weight: 2, opacity: 0.7, interactive: false }).addTo(groundTrackLayer);
+    });
+    groundTrack.future.forEach(segment => {
+        L.polyline(segment, { color: '#22d3ee', weight: 2, opacity: 0.8, dashArray: '6 6', interactive: false }).addTo(groundTrackLayer);
+    });
+  }, [groundTrack]);
+
+  // Effect for drawing imported reference geometry beneath the detections
+  useEffect(() => {
+    const referenceLayer = referenceLayerRef.current;
+    if (!referenceLayer) return;
+
+    referenceLayer.clearLayers();
+    referenceLayers.forEach(layer => {
+        L.geoJSON({ type: 'FeatureCollection', features: layer.features.map(f => ({ type: 'Feature', ...f })) }, {
+            style: { color: '#22d3ee', weight: 2, dashArray: '6 4', fillOpacity: 0.1 },
+            pointToLayer: (_feature: any, latlng: any) => L.circleMarker(latlng, {
+                radius: 5, color: '#22d3ee', fillColor: '#22d3ee', fillOpacity: 0.6,
+            }),
+            onEachFeature: (feature: any, leafletLayer: any) => {
+                leafletLayer.bindPopup(getReferencePopupContent(layer.name, feature.properties ?? {}), { className: 'map-popup' });
+            },
+        }).addTo(referenceLayer);
+    });
+  }, [referenceLayers]);
+
+  // Effect for drawing the scan coverage grid beneath everything else
+  useEffect(() => {
+    const coverageLayer = coverageLayerRef.current;
+    if (!coverageLayer) return;
+
+    coverageLayer.clearLayers();
+    coverage?.forEach(cell => {
+        L.rectangle(cell.bounds, {
+            color: getCoverageColor(cell.passes), weight: 0, fillOpacity: 0.35,
+        })
+            .bindTooltip(`${cell.region}<br>Проходов: ${cell.passes}<br>Последний: ${formatDateTime(cell.lastSeen)}`)
+            .addTo(coverageLayer);
+    });
+  }, [coverage]);
+
+  // Effect for drawing the sea-ice concentration overlay, the lowest layer: denser ice is more opaque
+  useEffect(() => {
+    const seaIceLayer = seaIceLayerRef.current;
+    if (!seaIceLayer) return;
+
+    seaIceLayer.clearLayers();
+    seaIce?.forEach(cell => {
+        L.rectangle(cell.bounds, {
+            color: '#e0f2fe', weight: 0, fillOpacity: 0.15 + 0.45 * cell.concentration, interactive: false,
+        }).addTo(seaIceLayer);
+    });
+  }, [seaIce]);
+
+  // Effect for drawing the sensitive-zones layer: areas as outlines, sites as markers, coloured by category
+  useEffect(() => {
+    const zoneLayer = sensitiveZoneLayerRef.current;
+    if (!zoneLayer) return;
+
+    zoneLayer.clearLayers();
+    sensitiveZones?.forEach(zone => {
+        const color = SENSITIVE_ZONE_COLORS[zone.category];
+        const layer = zone.geometry.type === 'Point'
+            ? L.circleMarker([zone.geometry.coordinates[1], zone.geometry.coordinates[0]], {
+                radius: 5, color, fillColor: color, fillOpacity: 0.8, weight: 1,
+            })
+            : L.polygon(zone.geometry.coordinates.map(ring => ring.map(([lng, lat]) => [lat, lng])), {
+                color, weight: 1.5, fillOpacity: 0.08,
+            });
+        layer.bindTooltip(`${escapeHtml(zone.name)}<br>${zone.category}`, { className: 'map-tooltip', sticky: true }).addTo(zoneLayer);
+    });
+  }, [sensitiveZones]);
+
+  // Effect for drawing forecast slick outlines: earlier horizons faint, the selected one emphasised
+  useEffect(() => {
+    const driftLayer = driftLayerRef.current;
+    if (!driftLayer) return;
+
+    driftLayer.clearLayers();
+    if (driftHours === null) return;
+    const color = POLLUTION_COLORS['Нефтяное'];
+    driftForecasts
+        .filter(forecast => forecast.hours <= driftHours)
+        .forEach(forecast => {
+            const isSelected = forecast.hours === driftHours;
+            L.polygon(forecast.ring.map(([lng, lat]) => [lat, lng]), {
+                color,
+                weight: isSelected ? 2 : 1,
+                opacity: isSelected ? 0.9 : 0.4,
+                dashArray: '6 4',
+                fillOpacity: isSelected ? 0.15 : 0,
+            })
+                .bindTooltip(`Прогноз дрейфа: +${forecast.hours} ч`, { className: 'map-tooltip', sticky: true })
+                .addTo(driftLayer);
         });
+  }, [driftForecasts, driftHours]);
 
-        const popupHtml = `
-            <div class="font-sans">
-                <h3 class="font-bold text-lg border-b border-gray-600 mb-2 pb-1" style="color: ${color};">${p.type}</h3>
-                <p><strong class="font-semibold text-gray-300">Уверенность:</strong> ${(p.confidence * 100).toFixed(1)}%</p>
-                <p><strong class="font-semibold text-gray-300">Область:</strong> ${p.impactArea}</p>
-                <p><strong class="font-semibold text-gray-300">Опасность:</strong> ${p.hazardLevel}</p>
-            </div>`;
-        polygon.bindPopup(popupHtml, { className: 'map-popup' });
-        
-        polygon.addTo(pollutionLayer);
-        
-        // --- New Marker Logic ---
-        const center = polygon.getBounds().getCenter();
-        
-        const markerIcon = L.divIcon({
-            html: `
-                <div class="marker-pulse relative flex items-center justify-center w-8 h-8 rounded-full" style="background-color: ${color};">
-                   <i class="ph-bold ${iconClass} text-white text-xl"></i>
-                </div>
-            `,
-            className: '', // Prevents leaflet from adding default styles
-            iconSize: [32, 32],
-            iconAnchor: [16, 16],
+  // Effect for drawing mission routes and priority areas (assigned plans in the satellite's color, the draft in white)
+  useEffect(() => {
+    const missionLayer = missionLayerRef.current;
+    if (!missionLayer) return;
+
+    missionLayer.clearLayers();
+    missionOverlays.forEach(overlay => {
+        const dashArray = overlay.isDraft ? '4 6' : '10 6';
+        overlay.priorityAreas.forEach(ring => {
+            L.polygon(ring.map(([lng, lat]) => [lat, lng]), {
+                color: overlay.color, weight: 2, dashArray, fillColor: '#f59e0b', fillOpacity: 0.12, interactive: false,
+            }).addTo(missionLayer);
+        });
+        if (overlay.waypoints.length < 2) return;
+        L.polyline(overlay.waypoints.map(p => [p.lat, p.lng]), {
+            color: overlay.color, weight: 2, opacity: 0.9, dashArray, interactive: false,
+        }).addTo(missionLayer);
+        overlay.waypoints.forEach(p => {
+            L.circleMarker([p.lat, p.lng], {
+                radius: 4, color: overlay.color, fillColor: overlay.color, fillOpacity: 1, interactive: false,
+            }).addTo(missionLayer);
         });
+    });
+  }, [missionOverlays]);
+
+  // Effect for outlining the area the detections are filtered by
+  useEffect(() => {
+    const filterAreaLayer = filterAreaLayerRef.current;
+    if (!filterAreaLayer) return;
+
+    filterAreaLayer.clearLayers();
+    if (!filterArea) return;
+    L.polygon(filterArea.map(([lng, lat]) => [lat, lng]), {
+        color: '#22d3ee', weight: 2, dashArray: '8 6', fillOpacity: 0.05, interactive: false,
+    }).addTo(filterAreaLayer);
+  }, [filterArea]);
+
+  // Effect for previewing the shape being drawn (mission shapes in amber, filter areas in cyan)
+  // and switching the map into drawing mode
+  useEffect(() => {
+    const map = mapRef.current;
+    const drawingLayer = drawingLayerRef.current;
+    if (!map || !drawingLayer) return;
 
-        const marker = L.marker(center, { icon: markerIcon });
-        marker.bindPopup(popupHtml, { className: 'map-popup' });
-        marker.addTo(pollutionLayer);
+    drawingLayer.clearLayers();
+    const isDrawing = missionDrawing !== null || filterDrawing !== null;
+    map.getContainer().style.cursor = isDrawing ? 'crosshair' : '';
+    if (isDrawing) {
+        map.doubleClickZoom.disable();
+    } else {
+        map.doubleClickZoom.enable();
+        return;
+    }
+
+    const color = filterDrawing ? '#22d3ee' : '#fbbf24';
+    const points = filterDrawing?.points ?? missionDrawing?.points ?? [];
+    const isArea = filterDrawing !== null || missionDrawing?.mode === 'area';
+    const latlngs = points.map(p => [p.lat, p.lng]);
+    const style = { color, weight: 2, dashArray: '4 4', interactive: false };
+    if (isArea && latlngs.length >= 3) {
+        L.polygon(latlngs, { ...style, fillOpacity: 0.15 }).addTo(drawingLayer);
+    } else if (latlngs.length >= 2) {
+        L.polyline(latlngs, style).addTo(drawingLayer);
+    }
+    latlngs.forEach(latlng => {
+        L.circleMarker(latlng, { radius: 5, color, fillColor: color, fillOpacity: 1, interactive: false }).addTo(drawingLayer);
     });
-  }, [pollutionData]);
+  }, [missionDrawing, filterDrawing]);
 
   return <div ref={mapContainerRef} className="h-full w-full" />;
 };
@@ -0,0 +1,149 @@
+import React, { useState } from 'react';
+import { Mission, MissionDrawing, MissionDrawingMode, MissionPlannerActions, Satellite } from '../types';
+import { isMissionValid } from '../services/missionService';
+
+interface MissionPlannerPanelProps {
+  missions: Mission[];
+  selectedSatellite: Satellite;
+  drawing: MissionDrawing | null;
+  draft: Pick<Mission, 'waypoints' | 'priorityAreas'>;
+  actions: MissionPlannerActions;
+}
+
+const DRAWING_HINTS: Record<MissionDrawingMode, { label: string; minPoints: number }> = {
+  route: { label: 'маршрута', minPoints: 2 },
+  area: { label: 'зоны интереса', minPoints: 3 },
+};
+
+const MissionPlannerPanel: React.FC<MissionPlannerPanelProps> = ({
+  missions,
+  selectedSatellite,
+  drawing,
+  draft,
+  actions,
+}) => {
+  const {
+    onStartDrawing,
+    onFinishDrawing,
+    onCancelDrawing,
+    onDiscardDraft,
+    onSaveMission,
+    onAssignMission,
+    onUnassignMission,
+    onDeleteMission,
+  } = actions;
+  const [name, setName] = useState('');
+  const hasDraft = draft.waypoints.length > 0 || draft.priorityAreas.length > 0;
+  const canSave = isMissionValid(draft) && name.trim().length > 0;
+
+  const save = () => {
+    onSaveMission(name);
+    setName('');
+  };
+
+  return (
+    <div className="flex-shrink-0 bg-gray-900/50 p-3 rounded-md border border-gray-700">
+      <h3 className="font-semibold mb-2">ПЛАН МИССИИ</h3>
+      {drawing ? (
+        <div className="space-y-2 text-sm">
+          <p className="text-gray-400">
+            Рисование {DRAWING_HINTS[drawing.mode].label}: щёлкайте по карте. Точек: {drawing.points.length}
+          </p>
+          <div className="grid grid-cols-2 gap-2">
+            <button
+              onClick={onFinishDrawing}
+              disabled={drawing.points.length < DRAWING_HINTS[drawing.mode].minPoints}
+              className="px-3 py-1.5 text-sm bg-cyan-600 text-white font-semibold rounded-md hover:bg-cyan-500 disabled:bg-gray-800 disabled:text-gray-500 disabled:cursor-not-allowed transition-colors"
+            >
+              Готово
+            </button>
+            <button
+              onClick={onCancelDrawing}
+              className="px-3 py-1.5 text-sm bg-gray-700 text-white font-semibold rounded-md hover:bg-gray-600 transition-colors"
+            >
+              Отмена
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="grid grid-cols-2 gap-2">
+          <button
+            onClick={() => onStartDrawing('route')}
+            className="px-3 py-1.5 text-sm bg-gray-700 text-white font-semibold rounded-md hover:bg-gray-600 transition-colors"
+          >
+            {draft.waypoints.length > 0 ? 'Перерисовать маршрут' : 'Маршрут'}
+          </button>
+          <button
+            onClick={() => onStartDrawing('area')}
+            className="px-3 py-1.5 text-sm bg-gray-700 text-white font-semibold rounded-md hover:bg-gray-600 transition-colors"
+          >
+            + Зона интереса
+          </button>
+        </div>
+      )}
+      {hasDraft && !drawing && (
+        <div className="mt-2 space-y-2 text-sm">
+          <p className="text-gray-400">
+            Черновик: точек маршрута {draft.waypoints.length}, зон интереса {draft.priorityAreas.length}
+          </p>
+          <input
+            value={name}
+            onChange={e => setName(e.target.value)}
+            placeholder="Название миссии"
+            className="w-full bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-sm text-gray-200"
+          />
+          <div className="grid grid-cols-2 gap-2">
+            <button
+              onClick={save}
+              disabled={!canSave}
+              className="px-3 py-1.5 text-sm bg-cyan-600 text-white font-semibold rounded-md hover:bg-cyan-500 disabled:bg-gray-800 disabled:text-gray-500 disabled:cursor-not-allowed transition-colors"
+            >
+              Сохранить
+            </button>
+            <button
+              onClick={onDiscardDraft}
+              className="px-3 py-1.5 text-sm bg-gray-700 text-white font-semibold rounded-md hover:bg-gray-600 transition-colors"
+            >
+              Очистить
+            </button>
+          </div>
+        </div>
+      )}
+      {missions.length > 0 && (
+        <ul className="mt-3 space-y-1 text-sm">
+          {missions.map(mission => {
+            const isAssigned = selectedSatellite.missionId === mission.id;
+            return (
+              <li key={mission.id} className="flex items-center justify-between bg-gray-800/60 rounded px-2 py-1">
+                <div className="min-w-0">
+                  <p className={`truncate ${isAssigned ? 'text-cyan-400 font-semibold' : ''}`}>{mission.name}</p>
+                  <p className="text-xs text-gray-500">
+                    Точек: {mission.waypoints.length}, зон: {mission.priorityAreas.length}
+                  </p>
+                </div>
+                <div className="flex space-x-1 flex-shrink-0">
+                  <button
+                    onClick={() => isAssigned ? onUnassignMission() : onAssignMission(mission.id)}
+                    className={`px-2 py-0.5 rounded text-xs ${isAssigned ? 'bg-cyan-600 text-white' : 'bg-gray-700 hover:bg-gray-600'}`}
+                    title={isAssigned ? 'Снять миссию со спутника' : `Назначить спутнику ${selectedSatellite.name}`}
+                  >
+                    {isAssigned ? 'Снять' : 'Назначить'}
+                  </button>
+                  <button
+                    onClick={() => onDeleteMission(mission.id)}
+                    className="px-2 py-0.5 rounded text-xs bg-gray-700 hover:bg-red-700"
+                    title="Удалить миссию"
+                  >
+                    <i className="ph ph-trash"></i>
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default MissionPlannerPanel;
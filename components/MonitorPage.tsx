@@ -1,14 +1,158 @@
 
 import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
-import { analyzeImage, imageToBase64 } from '../services/geminiService';
+import {
+  createDetectionProvider,
+  DetectionProviderId,
+  DETECTION_PROVIDER_LABELS,
+  getDefaultLocalModelUrl,
+  getDefaultProviderId,
+} from '../services/detectionProvider';
 import MapComponent from './MapComponent';
 import SatelliteStatusPanel from './SatelliteStatusPanel';
 import Header from './Header';
-import { AppState, LogEntry, PollutionData, SatellitePosition, Filters, GeoJSONGeometry } from '../types';
+import {
+  Alarm,
+  AlarmActions,
+  AlertCondition,
+  AlertRule,
+  AnalysisBudget,
+  AppState,
+  BBox,
+  DetectionListActions,
+  LogEntry,
+  PollutionData,
+  QuarantinedDetection,
+  SatellitePosition,
+  ExportFormat,
+  FilterAreaActions,
+  FilterAreaDrawing,
+  FilterCategory,
+  FilterPreset,
+  FilterPresetActions,
+  Filters,
+  GeoJSONGeometry,
+  IncidentActions,
+  IncidentWorkflow,
+  ImportReport,
+  LatLng,
+  Mission,
+  MissionDrawing,
+  MissionOverlay,
+  MissionPlannerActions,
+  ReferenceLayer,
+  Satellite,
+  SensitiveZone,
+  SensitiveZoneSet,
+  SatelliteStatus,
+  TleSet,
+  WebhookDelivery,
+  WebhookEndpoint,
+} from '../types';
 import MapLegend from './MapLegend';
+import AlarmBanner from './AlarmBanner';
+import {
+  deleteAlertRule,
+  deleteMission,
+  deleteWebhook,
+  loadAlarms,
+  loadAlertRules,
+  loadAnalysisBudget,
+  loadDetections,
+  loadIncidentWorkflows,
+  loadMissions,
+  loadWebhooks,
+  saveAlarms,
+  saveAlertRule,
+  saveAnalysisBudget,
+  saveDetections,
+  saveIncidentWorkflow,
+  saveMission,
+  saveWebhook,
+} from '../services/detectionStore';
+import { buildWebhookPayload, createAlarms, deliverWebhook } from '../services/alertService';
+import { createId } from '../services/ids';
+import {
+  addIncidentNote,
+  assignIncident,
+  changeIncidentStatus,
+  createIncidentWorkflow,
+  getIncidentIdByDetection,
+  getStatusByDetection,
+  groupIntoIncidents,
+} from '../services/incidentService';
+import { applyFilters, toFilterAreaRing } from '../services/filterService';
+import { MapView } from '../services/routeService';
+import { exportDetections } from '../services/exportService';
+import { importDetectionFile } from '../services/importService';
+import { computeGroundTrack, getOrbit, GroundTrack, Orbit } from '../services/orbitService';
+import {
+  advanceSatellite,
+  buildImageryUrl,
+  computeScanBBox,
+  createDefaultConstellation,
+  getDefaultPatrol,
+  getScanSchedule,
+  resetSatellite,
+  SIMULATION_INTERVAL_MS,
+} from '../services/constellationService';
+import {
+  CoverageCell,
+  CoverageGrid,
+  recordFootprint,
+  snapshotCoverage,
+  summarizeCoverageByRegion,
+} from '../services/coverageService';
+import {
+  createSyntheticFields,
+  DriftFields,
+  DriftForecast,
+  FORECAST_HOURS,
+  forecastSlick,
+  VectorGrid,
+} from '../services/driftService';
+import {
+  BUNDLED_SENSITIVE_ZONES_NAME,
+  findNearestZone,
+  getBundledSensitiveZones,
+  hasZoneInFootprint,
+  parseSensitiveZones,
+} from '../services/sensitiveZoneService';
+import { classifyImpactArea, loadLandMask } from '../services/landMask';
+import { validateDetection, ValidatedDetection } from '../services/detectionValidation';
+import {
+  AnalysisPriority,
+  AnalysisQueueStats,
+  createAnalysisQueue,
+  DEFAULT_ANALYSIS_BUDGET,
+  EMPTY_QUEUE_STATS,
+  isAbortError,
+} from '../services/analysisQueue';
+import { AnalysisCacheStats, BYTES_PER_MB, createAnalysisCache, DEFAULT_CACHE_LIMIT_MB } from '../services/analysisCache';
+import { createSyntheticSeaIce, getSeaIceCells, SeaIceGrid, screenDetectionForIce } from '../services/seaIceService';
+import { measureDetection, summarizeArea } from '../services/measurementService';
+import { assignMission, clearMission, createMission, isInPriorityArea, toPriorityAreaRing } from '../services/missionService';
+
+
+const EMPTY_MISSION_DRAFT: Pick<Mission, 'waypoints' | 'priorityAreas'> = { waypoints: [], priorityAreas: [] };
 
 interface MonitorPageProps {
   onNavigateHome: () => void;
+  onNavigateAnalytics: () => void;
+  filters: Filters;
+  onFilterChange: (category: FilterCategory, value: string) => void;
+  onFilterUpdate: (patch: Partial<Filters>) => void;
+  onResetFilters: () => void;
+  filterPresets: FilterPreset[];
+  presetActions: FilterPresetActions;
+  mapView: MapView | null;
+  onMapViewChange: (view: MapView) => void;
+  selectedIncidentId: string | null;
+  // A linked detection selects the incident it belongs to once the history has loaded.
+  selectedDetectionId: string | null;
+  onSelectIncident: (incidentId: string | null) => void;
+  onSelectDetection: (detectionId: string) => void;
+  sensitiveZones: SensitiveZoneSet;
+  onSensitiveZonesChange: (zones: SensitiveZoneSet) => void;
 }
 
 // Helper for Russian pluralization of "зона" (zone)
@@ -28,12 +172,6 @@ const getZonePlural = (number: number): string => {
     return 'зон';
 };
 
-// === Arctic Boundaries ===
-const ARCTIC_EAST = 32.07639;  // 32° 4' 35" E
-const ARCTIC_WEST = -168.825;  // 168° 49' 30" W
-const ARCTIC_SOUTH = 66.55;    // 66° 33' N
-const ARCTIC_NORTH = 90.0;
-
 // Helper to create a small square polygon around a point
 const createSquarePolygon = (lat: number, lng: number, size = 0.1) => {
     const half = size / 2;
@@ -49,296 +187,922 @@ const createSquarePolygon = (lat: number, lng: number, size = 0.1) => {
     };
 };
 
-// === Initial Pollution Data (unchanged) ===
+// === Initial Pollution Data: seeded into the detection store on first launch ===
 const initialPollutionData: PollutionData[] = [
   // Barents Sea (Oil)
-  { type: 'Нефтяное', confidence: 0.95, geometry: createSquarePolygon(70.5, 50.1), timestamp: Date.now(), impactArea: 'Вода', hazardLevel: 'Высокий' },
-  { type: 'Нефтяное', confidence: 0.88, geometry: createSquarePolygon(71.2, 55.6), timestamp: Date.now(), impactArea: 'Вода', hazardLevel: 'Средний' },
-  { type: 'Физическое', confidence: 0.82, geometry: createSquarePolygon(69.8, 45.3), timestamp: Date.now(), impactArea: 'Вода', hazardLevel: 'Низкий' },
-  { type: 'Химическое', confidence: 0.91, geometry: createSquarePolygon(72.0, 51.5), timestamp: Date.now(), impactArea: 'Вода', hazardLevel: 'Средний' },
+  { id: 'seed-01', type: 'Нефтяное', confidence: 0.95, geometry: createSquarePolygon(70.5, 50.1), timestamp: Date.now(), impactArea: 'Вода', hazardLevel: 'Высокий', source: 'Симуляция' },
+  { id: 'seed-02', type: 'Нефтяное', confidence: 0.88, geometry: createSquarePolygon(71.2, 55.6), timestamp: Date.now(), impactArea: 'Вода', hazardLevel: 'Средний', source: 'Симуляция' },
+  { id: 'seed-03', type: 'Физическое', confidence: 0.82, geometry: createSquarePolygon(69.8, 45.3), timestamp: Date.now(), impactArea: 'Вода', hazardLevel: 'Низкий', source: 'Симуляция' },
+  { id: 'seed-04', type: 'Химическое', confidence: 0.91, geometry: createSquarePolygon(72.0, 51.5), timestamp: Date.now(), impactArea: 'Вода', hazardLevel: 'Средний', source: 'Симуляция' },
 
   // Kara Sea (Chemical/Physical)
-  { type: 'Химическое', confidence: 0.98, geometry: createSquarePolygon(75.5, 80.2), timestamp: Date.now(), impactArea: 'Вода', hazardLevel: 'Высокий' },
-  { type: 'Физическое', confidence: 0.78, geometry: createSquarePolygon(77.1, 85.9), timestamp: Date.now(), impactArea: 'Почва', hazardLevel: 'Средний' }, // Near land
-  { type: 'Нефтяное', confidence: 0.85, geometry: createSquarePolygon(76.3, 75.1), timestamp: Date.now(), impactArea: 'Вода', hazardLevel: 'Средний' },
+  { id: 'seed-05', type: 'Химическое', confidence: 0.98, geometry: createSquarePolygon(75.5, 80.2), timestamp: Date.now(), impactArea: 'Вода', hazardLevel: 'Высокий', source: 'Симуляция' },
+  { id: 'seed-06', type: 'Физическое', confidence: 0.78, geometry: createSquarePolygon(77.1, 85.9), timestamp: Date.now(), impactArea: 'Почва', hazardLevel: 'Средний', source: 'Симуляция' }, // Near land
+  { id: 'seed-07', type: 'Нефтяное', confidence: 0.85, geometry: createSquarePolygon(76.3, 75.1), timestamp: Date.now(), impactArea: 'Вода', hazardLevel: 'Средний', source: 'Симуляция' },
 
   // Laptev Sea (Physical/Chemical from rivers)
-  { type: 'Физическое', confidence: 0.92, geometry: createSquarePolygon(74.0, 128.0), timestamp: Date.now(), impactArea: 'Вода', hazardLevel: 'Средний' },
-  { type: 'Химическое', confidence: 0.84, geometry: createSquarePolygon(73.5, 130.5), timestamp: Date.now(), impactArea: 'Вода', hazardLevel: 'Низкий' },
+  { id: 'seed-08', type: 'Физическое', confidence: 0.92, geometry: createSquarePolygon(74.0, 128.0), timestamp: Date.now(), impactArea: 'Вода', hazardLevel: 'Средний', source: 'Симуляция' },
+  { id: 'seed-09', type: 'Химическое', confidence: 0.84, geometry: createSquarePolygon(73.5, 130.5), timestamp: Date.now(), impactArea: 'Вода', hazardLevel: 'Низкий', source: 'Симуляция' },
   
   // East Siberian Sea
-  { type: 'Нефтяное', confidence: 0.80, geometry: createSquarePolygon(72.5, 165.0), timestamp: Date.now(), impactArea: 'Вода', hazardLevel: 'Низкий' },
-  { type: 'Физическое', confidence: 0.88, geometry: createSquarePolygon(71.8, 175.2), timestamp: Date.now(), impactArea: 'Вода', hazardLevel: 'Средний' },
+  { id: 'seed-10', type: 'Нефтяное', confidence: 0.80, geometry: createSquarePolygon(72.5, 165.0), timestamp: Date.now(), impactArea: 'Вода', hazardLevel: 'Низкий', source: 'Симуляция' },
+  { id: 'seed-11', type: 'Физическое', confidence: 0.88, geometry: createSquarePolygon(71.8, 175.2), timestamp: Date.now(), impactArea: 'Вода', hazardLevel: 'Средний', source: 'Симуляция' },
 
   // Beaufort Sea (Canada/Alaska)
-  { type: 'Нефтяное', confidence: 0.96, geometry: createSquarePolygon(70.5, -135.0), timestamp: Date.now(), impactArea: 'Вода', hazardLevel: 'Высокий' },
-  { type: 'Нефтяное', confidence: 0.89, geometry: createSquarePolygon(71.0, -145.0), timestamp: Date.now(), impactArea: 'Вода', hazardLevel: 'Средний' },
-  { type: 'Физическое', confidence: 0.79, geometry: createSquarePolygon(69.9, -140.5), timestamp: Date.now(), impactArea: 'Почва', hazardLevel: 'Низкий' },
+  { id: 'seed-12', type: 'Нефтяное', confidence: 0.96, geometry: createSquarePolygon(70.5, -135.0), timestamp: Date.now(), impactArea: 'Вода', hazardLevel: 'Высокий', source: 'Симуляция' },
+  { id: 'seed-13', type: 'Нефтяное', confidence: 0.89, geometry: createSquarePolygon(71.0, -145.0), timestamp: Date.now(), impactArea: 'Вода', hazardLevel: 'Средний', source: 'Симуляция' },
+  { id: 'seed-14', type: 'Физическое', confidence: 0.79, geometry: createSquarePolygon(69.9, -140.5), timestamp: Date.now(), impactArea: 'Почва', hazardLevel: 'Низкий', source: 'Симуляция' },
 
   // Canadian Archipelago
-  { type: 'Физическое', confidence: 0.85, geometry: createSquarePolygon(75.0, -95.0), timestamp: Date.now(), impactArea: 'Вода', hazardLevel: 'Средний' },
-  { type: 'Химическое', confidence: 0.90, geometry: createSquarePolygon(78.0, -85.0), timestamp: Date.now(), impactArea: 'Почва', hazardLevel: 'Средний' },
+  { id: 'seed-15', type: 'Физическое', confidence: 0.85, geometry: createSquarePolygon(75.0, -95.0), timestamp: Date.now(), impactArea: 'Вода', hazardLevel: 'Средний', source: 'Симуляция' },
+  { id: 'seed-16', type: 'Химическое', confidence: 0.90, geometry: createSquarePolygon(78.0, -85.0), timestamp: Date.now(), impactArea: 'Почва', hazardLevel: 'Средний', source: 'Симуляция' },
 
   // Baffin Bay / Greenland Sea
-  { type: 'Нефтяное', confidence: 0.82, geometry: createSquarePolygon(74.0, -60.0), timestamp: Date.now(), impactArea: 'Вода', hazardLevel: 'Низкий' },
-  { type: 'Физическое', confidence: 0.91, geometry: createSquarePolygon(77.0, -15.0), timestamp: Date.now(), impactArea: 'Вода', hazardLevel: 'Средний' },
-  { type: 'Химическое', confidence: 0.87, geometry: createSquarePolygon(79.0, -5.0), timestamp: Date.now(), impactArea: 'Вода', hazardLevel: 'Средний' },
+  { id: 'seed-17', type: 'Нефтяное', confidence: 0.82, geometry: createSquarePolygon(74.0, -60.0), timestamp: Date.now(), impactArea: 'Вода', hazardLevel: 'Низкий', source: 'Симуляция' },
+  { id: 'seed-18', type: 'Физическое', confidence: 0.91, geometry: createSquarePolygon(77.0, -15.0), timestamp: Date.now(), impactArea: 'Вода', hazardLevel: 'Средний', source: 'Симуляция' },
+  { id: 'seed-19', type: 'Химическое', confidence: 0.87, geometry: createSquarePolygon(79.0, -5.0), timestamp: Date.now(), impactArea: 'Вода', hazardLevel: 'Средний', source: 'Симуляция' },
 
   // Svalbard Area
-  { type: 'Нефтяное', confidence: 0.93, geometry: createSquarePolygon(78.5, 25.0), timestamp: Date.now(), impactArea: 'Вода', hazardLevel: 'Высокий' },
-  { type: 'Физическое', confidence: 0.86, geometry: createSquarePolygon(79.5, 15.0), timestamp: Date.now(), impactArea: 'Почва', hazardLevel: 'Средний' },
-  { type: 'Химическое', confidence: 0.81, geometry: createSquarePolygon(77.0, 30.0), timestamp: Date.now(), impactArea: 'Вода', hazardLevel: 'Низкий' },
+  { id: 'seed-20', type: 'Нефтяное', confidence: 0.93, geometry: createSquarePolygon(78.5, 25.0), timestamp: Date.now(), impactArea: 'Вода', hazardLevel: 'Высокий', source: 'Симуляция' },
+  { id: 'seed-21', type: 'Физическое', confidence: 0.86, geometry: createSquarePolygon(79.5, 15.0), timestamp: Date.now(), impactArea: 'Почва', hazardLevel: 'Средний', source: 'Симуляция' },
+  { id: 'seed-22', type: 'Химическое', confidence: 0.81, geometry: createSquarePolygon(77.0, 30.0), timestamp: Date.now(), impactArea: 'Вода', hazardLevel: 'Низкий', source: 'Симуляция' },
   
   // Central Arctic
-  { type: 'Физическое', confidence: 0.75, geometry: createSquarePolygon(85.0, 90.0), timestamp: Date.now(), impactArea: 'Вода', hazardLevel: 'Низкий' },
-  { type: 'Нефтяное', confidence: 0.83, geometry: createSquarePolygon(88.0, -10.0), timestamp: Date.now(), impactArea: 'Вода', hazardLevel: 'Средний' },
+  { id: 'seed-23', type: 'Физическое', confidence: 0.75, geometry: createSquarePolygon(85.0, 90.0), timestamp: Date.now(), impactArea: 'Вода', hazardLevel: 'Низкий', source: 'Симуляция' },
+  { id: 'seed-24', type: 'Нефтяное', confidence: 0.83, geometry: createSquarePolygon(88.0, -10.0), timestamp: Date.now(), impactArea: 'Вода', hazardLevel: 'Средний', source: 'Симуляция' },
 ];
 
-// Start: 70°43'01.7"N 21°36'10.6"W
-const PATROL_START_POINT: SatellitePosition = {
-  lat: 70.7171,
-  lng: -21.6029,
-  heading: 135,
-  dataRate: 500.0,
-  stepIndex: 0
-};
-
-// End: Southeast corner (lower latitude, east side)
-const PATROL_END_POINT = {
-  lat: 70.0,
-  lng: -20.0
-};
-
-const PATROL_HEADING = 135; // Southeast
-const SIMULATION_INTERVAL_MS = 1000;
+// Ground tracks cover this many minutes behind and ahead of the satellite and are refreshed periodically.
+const GROUND_TRACK_WINDOW_MIN = 50;
+const GROUND_TRACK_REFRESH_TICKS = 30;
+// The coverage layer is re-rendered from the accumulated grid every few ticks rather than on every footprint.
+const COVERAGE_REFRESH_TICKS = 10;
+const WEBHOOK_LOG_LIMIT = 50;
+const QUARANTINE_LIMIT = 100;
 
 // === Component ===
-const MonitorPage: React.FC<MonitorPageProps> = ({ onNavigateHome }) => {
-  const [satellitePosition, setSatellitePosition] = useState<SatellitePosition>(PATROL_START_POINT);
-  const [pollutionData, setPollutionData] = useState<PollutionData[]>(initialPollutionData);
+const MonitorPage: React.FC<MonitorPageProps> = ({
+  onNavigateHome,
+  onNavigateAnalytics,
+  filters,
+  onFilterChange,
+  onFilterUpdate,
+  onResetFilters,
+  filterPresets,
+  presetActions,
+  mapView,
+  onMapViewChange,
+  selectedIncidentId: routeIncidentId,
+  selectedDetectionId,
+  onSelectIncident,
+  onSelectDetection,
+  sensitiveZones,
+  onSensitiveZonesChange: setSensitiveZones,
+}) => {
+  const [satellites, setSatellites] = useState<Satellite[]>(createDefaultConstellation);
+  const [selectedSatelliteId, setSelectedSatelliteId] = useState<string>('sat-1');
+  const [pollutionData, setPollutionData] = useState<PollutionData[]>([]);
   const [appState, setAppState] = useState<AppState>(AppState.Stopped);
   const [logs, setLogs] = useState<LogEntry[]>([]);
-  const [filters, setFilters] = useState<Filters>({ type: [], hazardLevel: [], impactArea: [], confidence: [] });
-  const [currentSatelliteImage, setCurrentSatelliteImage] = useState<string>(
-    `https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/export?bbox=-22.6,70.2,-20.6,71.2&bboxSR=4326&size=512,512&format=jpg&f=image`
-  );
+
+  const [workflows, setWorkflows] = useState<Record<string, IncidentWorkflow>>({});
+  const [referenceLayers, setReferenceLayers] = useState<ReferenceLayer[]>([]);
+  const [importReports, setImportReports] = useState<ImportReport[]>([]);
+  const [isDraggingFile, setIsDraggingFile] = useState(false);
+  const [timeScale, setTimeScale] = useState<number>(1);
+  const [groundTrack, setGroundTrack] = useState<{ past: GroundTrack; future: GroundTrack } | null>(null);
+  const [coverage, setCoverage] = useState<{ cells: CoverageCell[]; time: number }>({ cells: [], time: Date.now() });
+  const [showCoverage, setShowCoverage] = useState(false);
+  const [showSensitiveZones, setShowSensitiveZones] = useState(true);
+  const [seaIce, setSeaIce] = useState<SeaIceGrid>(createSyntheticSeaIce);
+  const [showSeaIce, setShowSeaIce] = useState(false);
+  const [driftFields, setDriftFields] = useState<DriftFields>(createSyntheticFields);
+  const [driftHours, setDriftHours] = useState<number | null>(null);
+  const [alertRules, setAlertRules] = useState<AlertRule[]>([]);
+  const [webhooks, setWebhooks] = useState<WebhookEndpoint[]>([]);
+  const [alarms, setAlarms] = useState<Alarm[]>([]);
+  const [webhookDeliveries, setWebhookDeliveries] = useState<WebhookDelivery[]>([]);
+  const [quarantine, setQuarantine] = useState<QuarantinedDetection[]>([]);
+  const [analysisBudget, setAnalysisBudget] = useState<AnalysisBudget>(DEFAULT_ANALYSIS_BUDGET);
+  const [queueStats, setQueueStats] = useState<AnalysisQueueStats>(EMPTY_QUEUE_STATS);
+  // Every provider call goes through the queue, which spends the request budget and is cancelled on stop.
+  const [analysisQueue] = useState(() => createAnalysisQueue(DEFAULT_ANALYSIS_BUDGET, setQueueStats));
+  // Aborted on stop and unmount, including the cache lookups and image downloads that precede queueing.
+  const sessionAbortRef = useRef(new AbortController());
+  const [cacheStats, setCacheStats] = useState<AnalysisCacheStats | null>(null);
+  const [cacheLimitMb, setCacheLimitMb] = useState(DEFAULT_CACHE_LIMIT_MB);
+  const [forceReanalysis, setForceReanalysis] = useState(false);
+  const [analysisCache] = useState(() => createAnalysisCache(DEFAULT_CACHE_LIMIT_MB * BYTES_PER_MB, setCacheStats));
+  const [missions, setMissions] = useState<Mission[]>([]);
+  const [missionDrawing, setMissionDrawing] = useState<MissionDrawing | null>(null);
+  const [filterDrawing, setFilterDrawing] = useState<FilterAreaDrawing | null>(null);
+  const [missionDraft, setMissionDraft] = useState<Pick<Mission, 'waypoints' | 'priorityAreas'>>(EMPTY_MISSION_DRAFT);
 
   const simulationIntervalRef = useRef<number | null>(null);
+  const workflowsRef = useRef<Record<string, IncidentWorkflow>>({});
+  // The simulation loop reads and advances the constellation through this ref; state mirrors it for rendering.
+  const satellitesRef = useRef<Satellite[]>(satellites);
+  const selectedSatelliteIdRef = useRef<string>(selectedSatelliteId);
+  const timeScaleRef = useRef<number>(1);
+  // Model time drives orbit propagation; it advances by the interval times the acceleration factor each tick.
+  const simulationTimeRef = useRef<number>(Date.now());
   const scanCounterRef = useRef<number>(0);
-  const isAnalyzingRef = useRef<boolean>(false);
-  const patrolDirectionRef = useRef<'forward' | 'backward'>('forward');
+  // Satellites whose image is currently being analyzed; each satellite runs at most one analysis at a time.
+  const analyzingSatellitesRef = useRef<Set<string>>(new Set());
+  // Every footprint is accumulated here on each tick; the rendered snapshot is refreshed periodically.
+  const coverageGridRef = useRef<CoverageGrid>(new Map());
+  // New detections are checked against the rules from inside the simulation loop, so rules and
+  // webhooks are read through refs like the other loop inputs.
+  const alertRulesRef = useRef<AlertRule[]>([]);
+  const webhooksRef = useRef<WebhookEndpoint[]>([]);
+  // Satellite detections are screened against the ice field as they arrive.
+  const seaIceRef = useRef<SeaIceGrid>(seaIce);
+  // Scenes over sensitive zones are analysed first.
+  const sensitiveZonesRef = useRef<SensitiveZone[]>(sensitiveZones.zones);
 
+  const [providerId, setProviderId] = useState<DetectionProviderId>(getDefaultProviderId);
+  const [localModelUrl, setLocalModelUrl] = useState<string>(getDefaultLocalModelUrl);
+  // The provider is read through a ref so that switching it mid-session applies to the next scan
+  // without restarting the simulation loop.
+  const detectionProvider = useMemo(
+    () => createDetectionProvider(providerId, { localModelUrl }),
+    [providerId, localModelUrl]
+  );
+  const detectionProviderRef = useRef(detectionProvider);
+  useEffect(() => {
+    detectionProviderRef.current = detectionProvider;
+  }, [detectionProvider]);
+  useEffect(() => {
+    seaIceRef.current = seaIce;
+  }, [seaIce]);
+  useEffect(() => {
+    sensitiveZonesRef.current = sensitiveZones.zones;
+  }, [sensitiveZones]);
+  useEffect(() => {
+    analysisQueue.setBudget(analysisBudget);
+  }, [analysisQueue, analysisBudget]);
+  // Read by the simulation loop: when set, cached analyses are ignored and overwritten with fresh ones.
+  const forceReanalysisRef = useRef(forceReanalysis);
+  useEffect(() => {
+    forceReanalysisRef.current = forceReanalysis;
+  }, [forceReanalysis]);
+  useEffect(() => {
+    analysisCache.setLimit(cacheLimitMb * BYTES_PER_MB);
+  }, [analysisCache, cacheLimitMb]);
+  // Leaving the monitor drops queued analyses and aborts running requests.
+  useEffect(() => () => {
+    sessionAbortRef.current.abort();
+    analysisQueue.cancelAll();
+  }, [analysisQueue]);
 
   const addLog = useCallback((message: string, type: 'info' | 'error' | 'success' = 'info') => {
     setLogs(prev => [{ timestamp: new Date(), message, type }, ...prev.slice(0, 99)]);
   }, []);
 
+  // Adds detections to the map and persists them so they survive a page reload.
+  // Records with an id that is already known replace the old version (e.g. a re-imported file).
+  const addDetections = useCallback((newData: PollutionData[]) => {
+    setPollutionData(prev => {
+      const newIds = new Set(newData.map(p => p.id));
+      return [...prev.filter(p => !newIds.has(p.id)), ...newData];
+    });
+    saveDetections(newData).catch(err => {
+      console.error('Не удалось сохранить обнаружения:', err);
+      addLog('Ошибка: не удалось сохранить обнаружения в локальное хранилище.', 'error');
+    });
+  }, [addLog]);
+
+  // Load the detection history on startup; the seed data is stored only on the very first launch.
+  useEffect(() => {
+    let cancelled = false;
+    loadDetections()
+      .then(async stored => {
+        if (stored.length === 0) {
+          await saveDetections(initialPollutionData);
+          stored = initialPollutionData;
+        }
+        if (cancelled) return;
+        // Keep anything detected while the store was loading.
+        setPollutionData(prev => {
+          const storedIds = new Set(stored.map(p => p.id));
+          return [...stored, ...prev.filter(p => !storedIds.has(p.id))];
+        });
+        addLog(`Загружено обнаружений из истории: ${stored.length}.`);
+      })
+      .catch(err => {
+        console.error('Не удалось загрузить историю обнаружений:', err);
+        if (cancelled) return;
+        setPollutionData(prev => [...initialPollutionData, ...prev]);
+        addLog('Ошибка: история обнаружений недоступна, показаны демонстрационные данные.', 'error');
+      });
+    return () => { cancelled = true; };
+  }, [addLog]);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadIncidentWorkflows()
+      .then(stored => {
+        if (cancelled) return;
+        workflowsRef.current = { ...stored, ...workflowsRef.current };
+        setWorkflows(workflowsRef.current);
+      })
+      .catch(err => console.error('Не удалось загрузить статусы инцидентов:', err));
+    return () => { cancelled = true; };
+  }, []);
+
+  // The stored budget does not override one the operator changed while it was being read.
+  const budgetChangedRef = useRef(false);
+  useEffect(() => {
+    let cancelled = false;
+    loadAnalysisBudget()
+      .then(stored => {
+        if (stored && !cancelled && !budgetChangedRef.current) setAnalysisBudget(stored);
+      })
+      .catch(err => console.error('Не удалось загрузить лимиты запросов анализа:', err));
+    return () => { cancelled = true; };
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadMissions()
+      .then(stored => {
+        if (!cancelled) setMissions(stored);
+      })
+      .catch(err => console.error('Не удалось загрузить планы миссий:', err));
+    return () => { cancelled = true; };
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([loadAlertRules(), loadWebhooks(), loadAlarms()])
+      .then(([storedRules, storedWebhooks, storedAlarms]) => {
+        if (cancelled) return;
+        alertRulesRef.current = storedRules;
+        webhooksRef.current = storedWebhooks;
+        setAlertRules(storedRules);
+        setWebhooks(storedWebhooks);
+        setAlarms(prev => [...prev, ...storedAlarms]);
+      })
+      .catch(err => console.error('Не удалось загрузить правила тревог:', err));
+    return () => { cancelled = true; };
+  }, []);
+
+  const updateAlertRules = useCallback((update: (rules: AlertRule[]) => AlertRule[]) => {
+    alertRulesRef.current = update(alertRulesRef.current);
+    setAlertRules(alertRulesRef.current);
+  }, []);
+
+  const updateWebhooks = useCallback((update: (webhooks: WebhookEndpoint[]) => WebhookEndpoint[]) => {
+    webhooksRef.current = update(webhooksRef.current);
+    setWebhooks(webhooksRef.current);
+  }, []);
+
+  const persistFailed = useCallback((what: string) => (err: unknown) => {
+    console.error(`Не удалось сохранить ${what}:`, err);
+    addLog(`Ошибка: не удалось сохранить ${what}.`, 'error');
+  }, [addLog]);
+
+  const handleAddRule = useCallback((name: string, conditions: AlertCondition[]) => {
+    const rule: AlertRule = { id: createId('rule'), name, enabled: true, conditions, createdAt: Date.now() };
+    updateAlertRules(prev => [...prev, rule]);
+    saveAlertRule(rule).catch(persistFailed('правило тревоги'));
+  }, [updateAlertRules, persistFailed]);
+
+  const handleToggleRule = useCallback((id: string) => {
+    updateAlertRules(prev => prev.map(rule => rule.id === id ? { ...rule, enabled: !rule.enabled } : rule));
+    const rule = alertRulesRef.current.find(r => r.id === id);
+    if (rule) saveAlertRule(rule).catch(persistFailed('правило тревоги'));
+  }, [updateAlertRules, persistFailed]);
+
+  const handleDeleteRule = useCallback((id: string) => {
+    updateAlertRules(prev => prev.filter(rule => rule.id !== id));
+    deleteAlertRule(id).catch(err => console.error('Не удалось удалить правило тревоги:', err));
+  }, [updateAlertRules]);
+
+  const handleAddWebhook = useCallback((url: string) => {
+    const webhook: WebhookEndpoint = { id: createId('webhook'), url, enabled: true };
+    updateWebhooks(prev => [...prev, webhook]);
+    saveWebhook(webhook).catch(persistFailed('webhook'));
+  }, [updateWebhooks, persistFailed]);
+
+  const handleToggleWebhook = useCallback((id: string) => {
+    updateWebhooks(prev => prev.map(w => w.id === id ? { ...w, enabled: !w.enabled } : w));
+    const webhook = webhooksRef.current.find(w => w.id === id);
+    if (webhook) saveWebhook(webhook).catch(persistFailed('webhook'));
+  }, [updateWebhooks, persistFailed]);
+
+  const handleDeleteWebhook = useCallback((id: string) => {
+    updateWebhooks(prev => prev.filter(w => w.id !== id));
+    deleteWebhook(id).catch(err => console.error('Не удалось удалить webhook:', err));
+  }, [updateWebhooks]);
+
+  // Evaluates the rules for freshly detected pollution, raises alarms and notifies the webhooks.
+  const raiseAlarms = useCallback((detections: PollutionData[]) => {
+    const raised = createAlarms(alertRulesRef.current, detections, sensitiveZonesRef.current);
+    if (raised.length === 0) return;
+    setAlarms(prev => [...raised, ...prev]);
+    saveAlarms(raised).catch(persistFailed('тревоги'));
+
+    raised.forEach(alarm => {
+      addLog(`ТРЕВОГА «${alarm.ruleName}»: ${alarm.detectionType}, ${alarm.reasons.join('; ')}.`, 'error');
+      const payload = buildWebhookPayload(alarm, detections.find(p => p.id === alarm.detectionId));
+      webhooksRef.current
+        .filter(webhook => webhook.enabled)
+        .forEach(webhook => {
+          deliverWebhook(webhook.url, alarm.id, payload, delivery => {
+            setWebhookDeliveries(prev => [delivery, ...prev.slice(0, WEBHOOK_LOG_LIMIT - 1)]);
+          }).then(delivered => {
+            if (!delivered) addLog(`Webhook ${webhook.url}: доставка тревоги не удалась.`, 'error');
+          });
+        });
+    });
+  }, [addLog, persistFailed]);
+
+  const alarmActions = useMemo<AlarmActions>(() => {
+    const acknowledge = (predicate: (alarm: Alarm) => boolean) => {
+      const now = Date.now();
+      const acknowledged = alarms.filter(a => a.acknowledgedAt === null && predicate(a)).map(a => ({ ...a, acknowledgedAt: now }));
+      if (acknowledged.length === 0) return;
+      const byId = new Map(acknowledged.map(a => [a.id, a]));
+      setAlarms(prev => prev.map(a => byId.get(a.id) ?? a));
+      saveAlarms(acknowledged).catch(persistFailed('тревоги'));
+    };
+    return {
+      onAcknowledge: id => acknowledge(alarm => alarm.id === id),
+      onAcknowledgeAll: () => acknowledge(() => true),
+    };
+  }, [alarms, persistFailed]);
+
+  const activeAlarms = useMemo(() => alarms.filter(alarm => alarm.acknowledgedAt === null), [alarms]);
+
+  // Applies an edit to an incident's workflow and persists the result.
+  const updateIncidentWorkflow = useCallback((incidentId: string, update: (w: IncidentWorkflow) => IncidentWorkflow) => {
+    const current = workflowsRef.current[incidentId] ?? createIncidentWorkflow(incidentId);
+    const next = update(current);
+    if (next === current) return;
+    workflowsRef.current = { ...workflowsRef.current, [incidentId]: next };
+    setWorkflows(workflowsRef.current);
+    saveIncidentWorkflow(next).catch(err => {
+      console.error('Не удалось сохранить инцидент:', err);
+      addLog('Ошибка: не удалось сохранить изменения инцидента.', 'error');
+    });
+  }, [addLog]);
+
+  const incidentActions = useMemo<IncidentActions>(() => ({
+    onSelect: onSelectIncident,
+    onStatusChange: (incidentId, status) => {
+      updateIncidentWorkflow(incidentId, w => changeIncidentStatus(w, status));
+      addLog(`Статус инцидента изменён: «${status}».`);
+    },
+    onAssign: (incidentId, assignee) => updateIncidentWorkflow(incidentId, w => assignIncident(w, assignee)),
+    onAddNote: (incidentId, text) => updateIncidentWorkflow(incidentId, w => addIncidentNote(w, text)),
+  }), [updateIncidentWorkflow, addLog, onSelectIncident]);
+
+  const buildGroundTrack = useCallback((o: Orbit, time: number) => {
+    const windowMs = GROUND_TRACK_WINDOW_MIN * 60000;
+    return {
+      past: computeGroundTrack(o, new Date(time - windowMs), new Date(time)),
+      future: computeGroundTrack(o, new Date(time), new Date(time + windowMs)),
+    };
+  }, []);
+
+  const updateSatellite = useCallback((id: string, update: (sat: Satellite) => Satellite) => {
+    satellitesRef.current = satellitesRef.current.map(sat => sat.id === id ? update(sat) : sat);
+    setSatellites(satellitesRef.current);
+  }, []);
+
+  const setSatelliteStatus = useCallback((id: string, status: SatelliteStatus) => {
+    updateSatellite(id, sat => sat.status === status ? sat : { ...sat, status });
+  }, [updateSatellite]);
+
+  const selectedSatellite = useMemo(
+    () => satellites.find(sat => sat.id === selectedSatelliteId) ?? satellites[0],
+    [satellites, selectedSatelliteId]
+  );
+
+  const handleSelectSatellite = useCallback((id: string) => {
+    selectedSatelliteIdRef.current = id;
+    setSelectedSatelliteId(id);
+    const sat = satellitesRef.current.find(s => s.id === id);
+    setGroundTrack(sat?.tle ? buildGroundTrack(getOrbit(sat.tle), simulationTimeRef.current) : null);
+  }, [buildGroundTrack]);
+
+  // Assigns (or clears) the TLE of the selected satellite.
+  const handleOrbitChange = useCallback((next: Orbit | null) => {
+    const id = selectedSatelliteIdRef.current;
+    const tle: TleSet | null = next ? next.tle : null;
+    updateSatellite(id, sat => {
+      const updated = { ...sat, tle };
+      return tle ? advanceSatellite(updated, simulationTimeRef.current) : resetSatellite(updated, simulationTimeRef.current);
+    });
+    const name = satellitesRef.current.find(sat => sat.id === id)?.name;
+    if (next) {
+      setGroundTrack(buildGroundTrack(next, simulationTimeRef.current));
+      addLog(`${name}: орбита загружена из TLE (${next.tle.name}).`, 'success');
+    } else {
+      setGroundTrack(null);
+      addLog(`${name}: орбита сброшена, спутник возвращается к патрульному маршруту.`);
+    }
+  }, [addLog, buildGroundTrack, updateSatellite]);
+
+  const handleTimeScaleChange = useCallback((scale: number) => {
+    timeScaleRef.current = scale;
+    setTimeScale(scale);
+  }, []);
+
+  const seaIceCells = useMemo(() => getSeaIceCells(seaIce), [seaIce]);
+  const seaIceFlaggedCount = useMemo(
+    () => pollutionData.filter(p => p.reviewReason).length,
+    [pollutionData]
+  );
+
+  const coverageByRegion = useMemo(
+    () => summarizeCoverageByRegion(coverage.cells, coverage.time),
+    [coverage]
+  );
+
+  const handleMapClick = useCallback((point: LatLng) => {
+    if (filterDrawing) {
+      const next = { ...filterDrawing, points: [...filterDrawing.points, point] };
+      // A rectangle is complete once its second corner is placed.
+      if (next.shape === 'rectangle' && next.points.length === 2) {
+        onFilterUpdate({ area: toFilterAreaRing(next) });
+        setFilterDrawing(null);
+      } else {
+        setFilterDrawing(next);
+      }
+      return;
+    }
+    setMissionDrawing(prev => prev ? { ...prev, points: [...prev.points, point] } : prev);
+  }, [filterDrawing, onFilterUpdate]);
+
+  // Only one shape is drawn at a time, so starting a filter area cancels a mission drawing and vice versa.
+  const filterAreaActions = useMemo<FilterAreaActions>(() => ({
+    onStartDrawing: shape => {
+      setMissionDrawing(null);
+      setFilterDrawing({ shape, points: [] });
+    },
+    onFinishDrawing: () => {
+      if (!filterDrawing || filterDrawing.points.length < 3) return;
+      onFilterUpdate({ area: toFilterAreaRing(filterDrawing) });
+      setFilterDrawing(null);
+    },
+    onCancelDrawing: () => setFilterDrawing(null),
+  }), [filterDrawing, onFilterUpdate]);
+
+  // Returns a satellite to its default patrol, restarting it from the first waypoint.
+  const releaseSatellite = useCallback((sat: Satellite) =>
+    resetSatellite(clearMission(sat, getDefaultPatrol(sat.id) ?? sat.patrol), simulationTimeRef.current), []);
+
+  const missionActions = useMemo<MissionPlannerActions>(() => ({
+    onStartDrawing: mode => {
+      setFilterDrawing(null);
+      setMissionDrawing({ mode, points: [] });
+    },
+    onFinishDrawing: () => {
+      if (!missionDrawing) return;
+      const { mode, points } = missionDrawing;
+      setMissionDraft(prev => mode === 'route'
+        ? { ...prev, waypoints: points }
+        : { ...prev, priorityAreas: [...prev.priorityAreas, toPriorityAreaRing(points)] });
+      setMissionDrawing(null);
+    },
+    onCancelDrawing: () => setMissionDrawing(null),
+    onDiscardDraft: () => setMissionDraft(EMPTY_MISSION_DRAFT),
+    onSaveMission: name => {
+      const mission = createMission(name, missionDraft.waypoints, missionDraft.priorityAreas);
+      setMissions(prev => [...prev, mission]);
+      setMissionDraft(EMPTY_MISSION_DRAFT);
+      saveMission(mission)
+        .then(() => addLog(`Миссия «${mission.name}» сохранена.`, 'success'))
+        .catch(err => {
+          console.error('Не удалось сохранить миссию:', err);
+          addLog('Ошибка: не удалось сохранить миссию.', 'error');
+        });
+    },
+    onAssignMission: id => {
+      const mission = missions.find(m => m.id === id);
+      if (!mission) return;
+      const satelliteId = selectedSatelliteIdRef.current;
+      const hasRoute = mission.waypoints.length >= 2;
+      updateSatellite(satelliteId, sat => {
+        const assigned = assignMission(sat, mission);
+        return hasRoute ? resetSatellite(assigned, simulationTimeRef.current) : assigned;
+      });
+      if (hasRoute) setGroundTrack(null);
+      const name = satellitesRef.current.find(sat => sat.id === satelliteId)?.name;
+      addLog(`${name}: назначена миссия «${mission.name}».`, 'success');
+    },
+    onUnassignMission: () => {
+      const satelliteId = selectedSatelliteIdRef.current;
+      updateSatellite(satelliteId, releaseSatellite);
+      const name = satellitesRef.current.find(sat => sat.id === satelliteId)?.name;
+      addLog(`${name}: миссия снята, спутник возвращается к патрульному маршруту.`);
+    },
+    onDeleteMission: id => {
+      satellitesRef.current
+        .filter(sat => sat.missionId === id)
+        .forEach(sat => updateSatellite(sat.id, releaseSatellite));
+      setMissions(prev => prev.filter(m => m.id !== id));
+      deleteMission(id).catch(err => console.error('Не удалось удалить миссию:', err));
+    },
+  }), [missionDrawing, missionDraft, missions, updateSatellite, releaseSatellite, addLog]);
+
+  // Overlays only depend on which mission each satellite flies, not on its position,
+  // so they are keyed by the assignments to avoid redrawing on every tick.
+  const missionAssignmentKey = satellites.map(sat => `${sat.id}:${sat.missionId ?? ''}`).join('|');
+  const missionOverlays = useMemo<MissionOverlay[]>(() => {
+    const overlays: MissionOverlay[] = satellitesRef.current.flatMap(sat => {
+      const mission = missions.find(m => m.id === sat.missionId);
+      return mission ? [{ id: `${sat.id}-${mission.id}`, color: sat.color, waypoints: mission.waypoints, priorityAreas: mission.priorityAreas }] : [];
+    });
+    if (missionDraft.waypoints.length > 0 || missionDraft.priorityAreas.length > 0) {
+      overlays.push({ id: 'draft', color: '#f8fafc', ...missionDraft, isDraft: true });
+    }
+    return overlays;
+  }, [missionAssignmentKey, missions, missionDraft]);
+
   const startSimulation = useCallback(() => {
+    sessionAbortRef.current = new AbortController();
     scanCounterRef.current = 0;
-    patrolDirectionRef.current = 'forward'; // Reset direction to forward
-    setSatellitePosition(PATROL_START_POINT); // Reset satellite to start point
+    simulationTimeRef.current = Date.now();
+    analyzingSatellitesRef.current.clear();
+    coverageGridRef.current.clear();
+    setCoverage({ cells: [], time: simulationTimeRef.current });
+    satellitesRef.current = satellitesRef.current.map(sat => resetSatellite(sat, simulationTimeRef.current));
+    setSatellites(satellitesRef.current);
+    const selected = satellitesRef.current.find(sat => sat.id === selectedSatelliteIdRef.current);
+    setGroundTrack(selected?.tle ? buildGroundTrack(getOrbit(selected.tle), simulationTimeRef.current) : null);
     setAppState(AppState.Idle);
-  }, []);
+  }, [buildGroundTrack]);
 
   const stopSimulation = useCallback(() => {
     setAppState(AppState.Stopped);
-    isAnalyzingRef.current = false;
+    sessionAbortRef.current.abort();
+    analysisQueue.cancelAll();
+    analyzingSatellitesRef.current.clear();
+  }, [analysisQueue]);
+
+  const handleClearCache = useCallback(() => {
+    analysisCache.clear().then(() => addLog('Кэш снимков и результатов анализа очищен.'));
+  }, [analysisCache, addLog]);
+
+  const handleBudgetChange = useCallback((budget: AnalysisBudget) => {
+    const next = {
+      requestsPerMinute: Math.max(1, Math.round(budget.requestsPerMinute) || 1),
+      requestsPerDay: Math.max(1, Math.round(budget.requestsPerDay) || 1),
+    };
+    budgetChangedRef.current = true;
+    setAnalysisBudget(next);
+    saveAnalysisBudget(next).catch(err => console.error('Не удалось сохранить лимиты запросов анализа:', err));
   }, []);
 
-  const handleFilterChange = useCallback((category: keyof Filters, value: string) => {
-    setFilters(prev => {
-      const updated = { ...prev };
-      const toggle = <T extends string>(arr: T[], val: T) =>
-        arr.includes(val) ? arr.filter(v => v !== val) : [...arr, val];
-
-      switch (category) {
-        case 'type': updated.type = toggle(updated.type, value as any); break;
-        case 'hazardLevel': updated.hazardLevel = toggle(updated.hazardLevel, value as any); break;
-        case 'impactArea': updated.impactArea = toggle(updated.impactArea, value as any); break;
-        case 'confidence': updated.confidence = toggle(updated.confidence, value as any); break;
+  const handleProviderChange = useCallback((id: DetectionProviderId) => {
+    setProviderId(id);
+    addLog(`Источник анализа: ${DETECTION_PROVIDER_LABELS[id]}.`);
+  }, [addLog]);
+
+  // Incidents are built from the full history so their ids stay stable regardless of the active filters;
+  // the map shows every incident that has at least one observation passing the filters.
+  const incidents = useMemo(() => groupIntoIncidents(pollutionData, workflows), [pollutionData, workflows]);
+
+  const incidentStatusByDetection = useMemo(() => getStatusByDetection(incidents), [incidents]);
+
+  const incidentIdByDetection = useMemo(() => getIncidentIdByDetection(incidents), [incidents]);
+
+  const selectedIncidentId = useMemo(
+    () => routeIncidentId ?? (selectedDetectionId ? incidentIdByDetection.get(selectedDetectionId) : null) ?? null,
+    [incidentIdByDetection, routeIncidentId, selectedDetectionId]
+  );
+
+  const selectedIncident = useMemo(
+    () => incidents.find(incident => incident.id === selectedIncidentId) ?? null,
+    [incidents, selectedIncidentId]
+  );
+
+  const detectionMeasures = useMemo(
+    () => new Map(pollutionData.map(p => [p.id, measureDetection(p)])),
+    [pollutionData]
+  );
+
+  const zoneProximity = useMemo(
+    () => new Map(pollutionData.map(p => [p.id, findNearestZone(p, sensitiveZones.zones)])),
+    [pollutionData, sensitiveZones]
+  );
+
+  const filteredPollutionData = useMemo(
+    () => applyFilters(pollutionData, filters, {
+      statusByDetection: incidentStatusByDetection,
+      measures: detectionMeasures,
+      proximity: zoneProximity,
+    }),
+    [pollutionData, filters, incidentStatusByDetection, detectionMeasures, zoneProximity]
+  );
+
+  // A detection picked from the list is highlighted alone; an incident picked on the map highlights all its observations.
+  const highlightedDetectionIds = useMemo(() => {
+    if (selectedDetectionId && !routeIncidentId) return new Set([selectedDetectionId]);
+    return new Set(selectedIncident?.observations.map(o => o.detectionId) ?? []);
+  }, [selectedDetectionId, routeIncidentId, selectedIncident]);
+
+  const areaSummary = useMemo(() => ({
+    byType: summarizeArea(filteredPollutionData, detectionMeasures, p => p.type),
+    bySea: summarizeArea(filteredPollutionData, detectionMeasures, (_p, m) => m.sea),
+  }), [filteredPollutionData, detectionMeasures]);
+
+  const visibleIncidents = useMemo(() => {
+    if (filteredPollutionData === pollutionData) return incidents;
+    const visibleIds = new Set(filteredPollutionData.map(p => p.id));
+    return incidents.filter(incident => incident.observations.some(o => visibleIds.has(o.detectionId)));
+  }, [incidents, filteredPollutionData, pollutionData]);
+
+  // Drift is forecast from the latest outline of every visible oil incident, for all horizons at once,
+  // so switching the time selector does not recompute the advection.
+  const isDriftEnabled = driftHours !== null;
+  const driftForecasts = useMemo<DriftForecast[]>(() => {
+    if (!isDriftEnabled) return [];
+    return visibleIncidents
+      .filter(incident => incident.type === 'Нефтяное')
+      .flatMap(incident => forecastSlick(incident.latest.geometry.coordinates[0] ?? [], driftFields, FORECAST_HOURS)
+        .map(forecast => ({ incidentId: incident.id, ...forecast })));
+  }, [visibleIncidents, driftFields, isDriftEnabled]);
+
+  const handleSensitiveZonesLoad = useCallback(async (file: File) => {
+    try {
+      const zones = parseSensitiveZones(await file.text(), file.name);
+      setSensitiveZones({ name: file.name, zones });
+      addLog(`Загружен слой чувствительных зон ${file.name}: ${zones.length} объектов.`, 'success');
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : 'Неизвестная ошибка';
+      addLog(`Ошибка загрузки чувствительных зон: ${msg}`, 'error');
+    }
+  }, [addLog, setSensitiveZones]);
+
+  const handleDriftFieldLoad = useCallback((grid: VectorGrid) => {
+    setDriftFields(prev => ({ ...prev, [grid.kind]: grid }));
+    addLog(`Загружено поле ${grid.kind === 'wind' ? 'ветра' : 'течения'}: ${grid.name} (${grid.nLat}×${grid.nLng}).`, 'success');
+  }, [addLog]);
+
+  // `selectedBy` is null for detections checked by hand in the list.
+  const exportData = useCallback((format: ExportFormat, data: PollutionData[], selectedBy: Filters | null) => {
+    try {
+      const { description } = exportDetections(format, data, selectedBy);
+      addLog(`Экспортировано обнаружений: ${data.length} (${format.toUpperCase()}, ${description}).`, 'success');
+    } catch (err) {
+      console.error('Ошибка экспорта:', err);
+      addLog('Ошибка: не удалось выполнить экспорт.', 'error');
+    }
+  }, [addLog]);
+
+  const handleExport = useCallback((format: ExportFormat) => {
+    exportData(format, filteredPollutionData, filters);
+  }, [exportData, filteredPollutionData, filters]);
+
+  const detectionListActions = useMemo<DetectionListActions>(() => ({
+    onSelect: onSelectDetection,
+    onExport: (detectionIds, format) => {
+      const ids = new Set(detectionIds);
+      exportData(format, filteredPollutionData.filter(p => ids.has(p.id)), null);
+    },
+    // Several checked detections may belong to one incident; each incident changes status once.
+    onStatusChange: (detectionIds, status) => {
+      const incidentIds = new Set(detectionIds.flatMap(id => incidentIdByDetection.get(id) ?? []));
+      incidentIds.forEach(incidentId => updateIncidentWorkflow(incidentId, w => changeIncidentStatus(w, status)));
+      addLog(`Статус «${status}» установлен для инцидентов: ${incidentIds.size}.`);
+    },
+  }), [onSelectDetection, exportData, filteredPollutionData, incidentIdByDetection, updateIncidentWorkflow, addLog]);
+
+  const handleImportFiles = useCallback(async (files: File[]) => {
+    for (const file of files) {
+      try {
+        const { detections, referenceLayer, report } = await importDetectionFile(file);
+        addDetections(detections.map(d => screenDetectionForIce(d, seaIceRef.current)));
+        if (referenceLayer) {
+          setReferenceLayers(prev => [...prev, referenceLayer]);
+        }
+        setImportReports(prev => [report, ...prev]);
+        addLog(
+          `Импорт ${file.name}: загружено ${report.imported}, справочных ${report.referenceFeatures}, отклонено ${report.rejected.length}.`,
+          report.rejected.length > 0 ? 'error' : 'success'
+        );
+      } catch (err) {
+        const msg = err instanceof Error ? err.message : 'Неизвестная ошибка';
+        addLog(`Ошибка импорта: ${msg}`, 'error');
       }
-      return updated;
-    });
-  }, []);
+    }
+  }, [addDetections, addLog]);
 
-  const resetFilters = useCallback(() => {
-    setFilters({ type: [], hazardLevel: [], impactArea: [], confidence: [] });
-  }, []);
+  const handleMapDrop = useCallback((e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDraggingFile(false);
+    handleImportFiles(Array.from(e.dataTransfer.files));
+  }, [handleImportFiles]);
 
-  const getConfidenceLevel = (value: number): 'Низкая' | 'Средняя' | 'Высокая' => {
-    if (value < 0.75) return 'Низкая';
-    if (value <= 0.9) return 'Средняя';
-    return 'Высокая';
-  };
-
-  const filteredPollutionData = useMemo(() => {
-    // FIX: Added an Array.isArray check to prevent a runtime error if a filter value is not an array.
-    const active = Object.values(filters).some(arr => Array.isArray(arr) && arr.length > 0);
-    if (!active) return pollutionData;
-    return pollutionData.filter(p => {
-      const type = filters.type.length === 0 || filters.type.includes(p.type);
-      const hazard = filters.hazardLevel.length === 0 || filters.hazardLevel.includes(p.hazardLevel);
-      const area = filters.impactArea.length === 0 || filters.impactArea.includes(p.impactArea);
-      const conf = filters.confidence.length === 0 || filters.confidence.includes(getConfidenceLevel(p.confidence));
-      return type && hazard && area && conf;
+  // Reflects the constellation in the global state indicator without resurrecting a stopped simulation.
+  const refreshAppState = useCallback(() => {
+    setAppState(prev => {
+      if (prev === AppState.Stopped) return prev;
+      return analyzingSatellitesRef.current.size > 0 ? AppState.Analyzing : AppState.Idle;
     });
-  }, [pollutionData, filters]);
+  }, []);
+
+  const analyzePosition = useCallback(async (
+    satellite: Satellite,
+    pos: SatellitePosition,
+    imageUrl: string,
+    bbox: BBox,
+    priority: AnalysisPriority,
+    isSimulatedEvent: boolean
+  ) => {
+    setSatelliteStatus(satellite.id, isSimulatedEvent ? 'Анализ' : 'В очереди');
+    refreshAppState();
 
-  const analyzePosition = useCallback(async (pos: SatellitePosition, imageUrl: string, scanCount: number) => {
     // At 5 seconds, trigger a simulated major detection
-    if (scanCount === 5) {
-        setAppState(AppState.Analyzing);
+    if (isSimulatedEvent) {
         const simulatedDetection: PollutionData = {
+            id: createId('det'),
             type: 'Нефтяное',
             confidence: 0.98,
             geometry: createSquarePolygon(pos.lat + 0.1, pos.lng - 0.1, 0.25), // Place it near the satellite
             timestamp: Date.now(),
             impactArea: 'Вода',
-            hazardLevel: 'Высокий'
+            hazardLevel: 'Высокий',
+            source: 'Симуляция',
+            satelliteId: satellite.id,
         };
+        const screenedDetection = screenDetectionForIce(simulatedDetection, seaIceRef.current);
 
-        setPollutionData(prev => [...prev, simulatedDetection]);
-        addLog('Обнаружено новое загрязнение! Метка добавлена на карту.', 'success');
+        addDetections([screenedDetection]);
+        raiseAlarms([screenedDetection]);
+        addLog(`${satellite.name}: обнаружено новое загрязнение! Метка добавлена на карту.`, 'success');
         
-        setAppState(AppState.Idle);
         return; // Important: skip real API call for this simulated event
     }
 
-    setAppState(AppState.Analyzing);
-    addLog('AI обрабатывает последний спутниковый снимок...');
+    const provider = detectionProviderRef.current;
+    // Every await below may outlast a stop; results of a stopped session are dropped, not added.
+    const { signal } = sessionAbortRef.current;
     try {
-      const base64 = await imageToBase64(imageUrl);
-      const detections: Partial<PollutionData>[] = await analyzeImage(base64);
+      // A scene whose pixels were already analysed by the same model and prompt is answered from the cache
+      // without spending the request budget.
+      const loaded = provider.cacheVersion !== null ? await analysisCache.loadImage(imageUrl, signal) : null;
+      const cached = loaded?.hash && !forceReanalysisRef.current ? await analysisCache.readAnalysis(loaded.hash, provider) : null;
+      signal.throwIfAborted();
+      if (cached) {
+        addLog(`${satellite.name}: снимок уже анализировался (${provider.label}), результат взят из кэша.`);
+      }
+      const output: unknown = cached ?? await analysisQueue.enqueue({
+        key: satellite.id,
+        priority,
+        metered: provider.metered,
+        run: signal => {
+          setSatelliteStatus(satellite.id, 'Анализ');
+          addLog(`${satellite.name}: AI обрабатывает последний спутниковый снимок (${provider.label})...`);
+          return provider.analyze({ imageUrl, image: loaded?.image, position: pos, bbox, signal });
+        },
+      });
+      signal.throwIfAborted();
 
-      if (!Array.isArray(detections)) {
+      if (!Array.isArray(output)) {
         addLog('Ошибка: API вернуло неожиданный формат данных.', 'error');
         return;
       }
+      if (!cached && loaded?.hash) {
+        analysisCache.writeAnalysis(loaded.hash, provider, output);
+      }
+      const detections = provider.georeference(output, bbox);
 
       if (detections.length > 0) {
-        // Filter detections to ensure they have a valid geometry that can be rendered, preventing crashes.
-        const validDetections = detections.filter(p =>
-          p && p.geometry && Array.isArray(p.geometry.coordinates) && p.geometry.coordinates.length > 0
-        );
+        // Every detection is checked before it reaches the map; failures are quarantined with the reason
+        // rather than patched up with defaults.
+        const validDetections: ValidatedDetection[] = [];
+        const rejected: QuarantinedDetection[] = [];
+        detections.forEach(raw => {
+          const result = validateDetection(raw, bbox);
+          if (result.valid === true) {
+            validDetections.push(result.detection);
+          } else {
+            rejected.push({
+              id: createId('quarantine'),
+              timestamp: Date.now(),
+              satelliteId: satellite.id,
+              satelliteName: satellite.name,
+              providerLabel: provider.label,
+              reason: result.reason,
+              raw: JSON.stringify(raw, null, 2) ?? String(raw),
+            });
+          }
+        });
+
+        if (rejected.length > 0) {
+          setQuarantine(prev => [...rejected, ...prev].slice(0, QUARANTINE_LIMIT));
+          addLog(`${satellite.name}: ответ модели не прошёл проверку, в карантин отправлено обнаружений: ${rejected.length} (${rejected[0].reason}).`, 'error');
+        }
 
         if (validDetections.length > 0) {
-          const newData: PollutionData[] = validDetections.map(p => ({
-            type: p.type || 'Нефтяное',
-            confidence: p.confidence || 0.8,
-            geometry: p.geometry!, // The filter above makes this safe.
+          // The coastline mask, not the model's reading of the image, decides water, shoreline or land.
+          const landMask = await loadLandMask();
+          signal.throwIfAborted();
+          const newData: PollutionData[] = validDetections.map(p => screenDetectionForIce({
+            id: createId('det'),
+            type: p.type,
+            confidence: p.confidence,
+            geometry: p.geometry,
             timestamp: Date.now(),
-            impactArea: p.impactArea || 'Вода',
-            hazardLevel: p.hazardLevel || 'Средний',
-          }));
+            impactArea: classifyImpactArea(landMask, p.geometry.coordinates),
+            hazardLevel: p.hazardLevel,
+            source: provider.id === 'mock' ? 'Симуляция' : 'ИИ',
+            satelliteId: satellite.id,
+          }, seaIceRef.current));
+
+          const corrected = newData.filter((d, i) => validDetections[i].impactArea && validDetections[i].impactArea !== d.impactArea).length;
+          if (corrected > 0) {
+            addLog(`${satellite.name}: область воздействия исправлена по береговой линии (обнаружений: ${corrected}).`);
+          }
+
+          const inHeavyIce = newData.filter(d => d.reviewReason).length;
+          if (inHeavyIce > 0) {
+            addLog(`${satellite.name}: в сплочённом льду уверенность снижена, требуется проверка (обнаружений: ${inHeavyIce}).`, 'error');
+          }
 
-          setPollutionData(prev => [...prev, ...newData]);
+          addDetections(newData);
+          raiseAlarms(newData);
           const zones = getZonePlural(newData.length);
-          addLog(`Нейросеть обнаружила ${newData.length} ${zones} загрязнения.`, 'success');
-        } else {
-          // This branch is hit if the detections array was not empty, but all items in it had invalid geometry.
-          addLog('AI-анализ вернул данные в некорректном формате.');
+          addLog(`${satellite.name}: нейросеть обнаружила ${newData.length} ${zones} загрязнения.`, 'success');
         }
       } else {
         // This branch is hit if the detections array was empty from the start.
-        addLog('Нейросеть подтвердила: загрязнений на снимке нет.');
+        addLog(`${satellite.name}: нейросеть подтвердила, загрязнений на снимке нет.`);
       }
     } catch (err) {
+      if (isAbortError(err)) {
+        addLog(`${satellite.name}: анализ снимка отменён.`);
+        return;
+      }
       const msg = err instanceof Error ? err.message : 'Неизвестная ошибка';
-      addLog(`Ошибка анализа нейросетью: ${msg}`, 'error');
-    } finally {
-      setAppState(AppState.Idle);
+      addLog(`${satellite.name}: ошибка анализа нейросетью: ${msg}`, 'error');
     }
-  }, [addLog]);
+  }, [analysisQueue, analysisCache, addLog, addDetections, raiseAlarms, setSatelliteStatus, refreshAppState]);
 
   const runSimulationStep = useCallback(() => {
     scanCounterRef.current += 1;
+    const tick = scanCounterRef.current;
+    simulationTimeRef.current += SIMULATION_INTERVAL_MS * timeScaleRef.current;
 
-    const isSimulatedEventTime = scanCounterRef.current === 5;
-    const isRegularAnalysisTime = scanCounterRef.current > 0 && scanCounterRef.current % 90 === 0;
-    const shouldAnalyze = isSimulatedEventTime || isRegularAnalysisTime;
-
-    const shouldUpdateImage = (scanCounterRef.current - 1) % 60 === 0;
-
-    setSatellitePosition(prev => {
-      const SPEED_KPH = 700; // Реалистичная скорость (например, разведчик)
-      const INTERVAL_H = SIMULATION_INTERVAL_MS / 3600000; // 1000 мс → 1/3600 часа
-
-      // === Текущие точки: зависят от направления ===
-      const isForward = patrolDirectionRef.current === 'forward';
-      const startPoint = isForward ? PATROL_START_POINT : PATROL_END_POINT;
-      const endPoint   = isForward ? PATROL_END_POINT : PATROL_START_POINT;
-
-      // === Дельты (от старта к концу) ===
-      const dLat = endPoint.lat - startPoint.lat;
-      let dLng = endPoint.lng - startPoint.lng;
-      dLng = ((dLng + 180) % 360 + 360) % 360 - 180; // Кратчайший путь
-
-      // === Расстояние (км) ===
-      const avgLat = (startPoint.lat + endPoint.lat) / 2;
-      const cosLat = Math.cos(avgLat * Math.PI / 180);
-      const distKm = Math.hypot(dLat * 111.32, dLng * 111.32 * cosLat);
-
-      // === Шагов на участок ===
-      const totalSteps = Math.ceil(distKm / (SPEED_KPH * INTERVAL_H));
-
-      // === Шаг ===
-      let step = (prev.stepIndex ?? 0) + 1;
-
-      // === Переключение направления ===
-      if (step >= totalSteps) {
-        const newDir = isForward ? 'backward' : 'forward';
-        patrolDirectionRef.current = newDir;
-        step = 0;
-        // Intentionally not logging direction change to keep log focused on analysis.
-      }
-
-      // === Прогресс (0..1) ===
-      const progress = step / totalSteps;
-
-      // === Координаты: линейная интерполяция от start → end ===
-      const lat = startPoint.lat + dLat * progress;
-      let lng = startPoint.lng + dLng * progress;
-      lng = ((lng + 180) % 360 + 360) % 360 - 180; // Нормализация
-
-      // === Курс: 135° вперёд, 315° назад ===
-      const heading = isForward ? PATROL_HEADING : (PATROL_HEADING + 180) % 360;
-
-      const dataRate = 500 + (Math.random() - 0.5) * 50;
-      const pos: SatellitePosition = { lat, lng, heading, dataRate, stepIndex: step };
+    const scans: { satellite: Satellite; url: string; bbox: BBox; priority: AnalysisPriority; isSimulatedEvent: boolean }[] = [];
+    satellitesRef.current = satellitesRef.current.map((prev, index) => {
+      const sat = advanceSatellite(prev, simulationTimeRef.current);
+      const isAnalyzing = analyzingSatellitesRef.current.has(sat.id);
 
       // === BBOX (35 км) ===
-      const SCAN_KM = 35;
-      const KM_PER_DEG_LAT = 111.32;
-      const latSpan = SCAN_KM / KM_PER_DEG_LAT;
-      const lngSpan = SCAN_KM / (KM_PER_DEG_LAT * Math.cos(lat * Math.PI / 180));
-
-      const minLng = Math.max(ARCTIC_WEST, lng - lngSpan / 2);
-      const maxLng = Math.min(ARCTIC_EAST, lng + lngSpan / 2);
-      const minLat = Math.max(ARCTIC_SOUTH, lat - latSpan / 2);
-      // FIX: Corrected a typo where `maxLat` was used in its own declaration. Replaced with `latSpan`.
-      const maxLat = Math.min(ARCTIC_NORTH, lat + latSpan / 2);
-
-      const bbox = [minLng, minLat, maxLng, maxLat].join(',');
-      const url = `https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/export?bbox=${bbox}&bboxSR=4326&size=512,512&format=jpg&f=image`;
-      
-      if (shouldUpdateImage) {
-        setCurrentSatelliteImage(url);
+      const bbox = computeScanBBox(sat.position.lat, sat.position.lng);
+      if (!bbox) {
+        // The sub-satellite point is outside the monitored Arctic sector: nothing to image.
+        return { ...sat, status: isAnalyzing ? 'Анализ' : 'Вне зоны' };
       }
+      const url = buildImageryUrl(bbox);
+      recordFootprint(coverageGridRef.current, bbox, simulationTimeRef.current, tick);
 
-      // Intentionally not logging satellite position to keep log focused on analysis.
+      const schedule = getScanSchedule(sat, tick);
+      // The scripted demo detection is produced by the lead satellite only.
+      const isSimulatedEvent = index === 0 && tick === 5;
+      const currentImage = schedule.shouldUpdateImage ? url : sat.currentImage;
 
       // === Анализ ===
-      if (shouldAnalyze && !isAnalyzingRef.current) {
-        setAppState(AppState.Scanning);
-        isAnalyzingRef.current = true;
-        analyzePosition(pos, url, scanCounterRef.current).finally(() => { isAnalyzingRef.current = false; });
-      } else if (!isAnalyzingRef.current) {
-        setAppState(AppState.Idle);
+      if ((schedule.shouldAnalyze || isSimulatedEvent) && !isAnalyzing) {
+        const scanned = { ...sat, currentImage, status: 'Съёмка' as const };
+        // Mission priority areas and scenes over sensitive zones jump the analysis queue.
+        const priority = isInPriorityArea(sat) || hasZoneInFootprint(sensitiveZonesRef.current, bbox) ? 'high' : 'normal';
+        scans.push({ satellite: scanned, url, bbox, priority, isSimulatedEvent });
+        return scanned;
       }
+      if (!isAnalyzing) return { ...sat, currentImage, status: 'Ожидание' };
+      return { ...sat, currentImage, status: analysisQueue.isRunning(sat.id) ? 'Анализ' : prev.status };
+    });
+    setSatellites(satellitesRef.current);
 
-      return pos;
+    const selected = satellitesRef.current.find(sat => sat.id === selectedSatelliteIdRef.current);
+    if (selected?.tle && tick % GROUND_TRACK_REFRESH_TICKS === 0) {
+      setGroundTrack(buildGroundTrack(getOrbit(selected.tle), simulationTimeRef.current));
+    }
+    if (tick % COVERAGE_REFRESH_TICKS === 0) {
+      setCoverage({ cells: snapshotCoverage(coverageGridRef.current), time: simulationTimeRef.current });
+    }
+
+    scans.forEach(({ satellite, url, bbox, priority, isSimulatedEvent }) => {
+      analyzingSatellitesRef.current.add(satellite.id);
+      analyzePosition(satellite, satellite.position, url, bbox, priority, isSimulatedEvent).finally(() => {
+        analyzingSatellitesRef.current.delete(satellite.id);
+        setSatelliteStatus(satellite.id, 'Ожидание');
+        refreshAppState();
+      });
     });
-  }, [analyzePosition]);
+    setAppState(prev => {
+      if (prev === AppState.Stopped) return prev;
+      if (analyzingSatellitesRef.current.size > 0) return AppState.Analyzing;
+      return scans.length > 0 ? AppState.Scanning : AppState.Idle;
+    });
+  }, [analysisQueue, analyzePosition, buildGroundTrack, setSatelliteStatus, refreshAppState]);
 
   // === Simulation Loop ===
   useEffect(() => {
@@ -369,24 +1133,142 @@ const MonitorPage: React.FC<MonitorPageProps> = ({ onNavigateHome }) => {
 
   return (
     <div className="bg-gray-900 text-gray-200 h-screen w-screen flex flex-col font-sans overflow-hidden">
-      <Header onNavigateHome={onNavigateHome} />
+      <Header onNavigateHome={onNavigateHome} onNavigateAnalytics={onNavigateAnalytics} />
       <div className="flex-1 flex flex-col md:flex-row overflow-y-auto md:overflow-hidden">
-        <div className="h-[50vh] flex-shrink-0 md:flex-1 md:h-auto relative">
-          <MapComponent satellitePosition={satellitePosition} pollutionData={filteredPollutionData} />
+        <div
+          className="h-[50vh] flex-shrink-0 md:flex-1 md:h-auto relative"
+          onDragOver={e => {
+            if (!e.dataTransfer.types.includes('Files')) return;
+            e.preventDefault();
+            setIsDraggingFile(true);
+          }}
+          onDragLeave={e => {
+            if (!e.currentTarget.contains(e.relatedTarget as Node)) setIsDraggingFile(false);
+          }}
+          onDrop={handleMapDrop}
+        >
+          <MapComponent
+            satellites={satellites}
+            selectedSatelliteId={selectedSatellite.id}
+            onSelectSatellite={handleSelectSatellite}
+            incidents={visibleIncidents}
+            incidentActions={incidentActions}
+            referenceLayers={referenceLayers}
+            groundTrack={groundTrack}
+            coverage={showCoverage ? coverage.cells : null}
+            seaIce={showSeaIce ? seaIceCells : null}
+            sensitiveZones={showSensitiveZones ? sensitiveZones.zones : null}
+            zoneProximity={zoneProximity}
+            driftForecasts={driftForecasts}
+            driftHours={driftHours}
+            missionOverlays={missionOverlays}
+            missionDrawing={missionDrawing}
+            filterDrawing={filterDrawing}
+            filterArea={filters.area}
+            onMapClick={handleMapClick}
+            view={mapView}
+            onViewChange={onMapViewChange}
+            focusIncidentId={selectedIncidentId}
+          />
+          {isDraggingFile && (
+            <div className="absolute inset-0 z-[1100] bg-cyan-900/40 border-4 border-dashed border-cyan-400 flex items-center justify-center pointer-events-none">
+              <span className="text-xl font-bold text-white">Отпустите файл GeoJSON или KML для импорта</span>
+            </div>
+          )}
           <div className="absolute bottom-2 md:bottom-10 left-2 z-[1000]">
             <MapLegend />
           </div>
+          <div className="absolute top-2 left-1/2 -translate-x-1/2 z-[1000]">
+            <AlarmBanner alarms={activeAlarms} actions={alarmActions} />
+          </div>
         </div>
         <SatelliteStatusPanel
           appState={appState}
-          satellitePosition={satellitePosition}
+          satellites={satellites}
+          selectedSatellite={selectedSatellite}
+          onSelectSatellite={handleSelectSatellite}
           logs={logs}
           onStart={startSimulation}
           onStop={stopSimulation}
           filters={filters}
-          onFilterChange={handleFilterChange}
-          onResetFilters={resetFilters}
-          currentSatelliteImage={currentSatelliteImage}
+          onFilterChange={onFilterChange}
+          onFilterUpdate={onFilterUpdate}
+          onResetFilters={onResetFilters}
+          filterPresets={filterPresets}
+          presetActions={presetActions}
+          filterAreaDrawing={filterDrawing}
+          filterAreaActions={filterAreaActions}
+          providerId={providerId}
+          localModelUrl={localModelUrl}
+          onProviderChange={handleProviderChange}
+          onLocalModelUrlChange={setLocalModelUrl}
+          selectedIncident={selectedIncident}
+          incidentActions={incidentActions}
+          onCloseIncident={() => onSelectIncident(null)}
+          detections={filteredPollutionData}
+          detectionMeasures={detectionMeasures}
+          statusByDetection={incidentStatusByDetection}
+          highlightedDetectionIds={highlightedDetectionIds}
+          detectionListActions={detectionListActions}
+          exportCount={filteredPollutionData.length}
+          onExport={handleExport}
+          importReports={importReports}
+          referenceLayers={referenceLayers}
+          onImportFiles={handleImportFiles}
+          onRemoveReferenceLayer={id => setReferenceLayers(prev => prev.filter(layer => layer.id !== id))}
+          onClearImportReports={() => setImportReports([])}
+          orbit={selectedSatellite.tle ? getOrbit(selectedSatellite.tle) : null}
+          timeScale={timeScale}
+          onOrbitChange={handleOrbitChange}
+          onTimeScaleChange={handleTimeScaleChange}
+          sensitiveZonesName={sensitiveZones.name}
+          sensitiveZones={sensitiveZones.zones}
+          showSensitiveZones={showSensitiveZones}
+          onToggleShowSensitiveZones={() => setShowSensitiveZones(prev => !prev)}
+          onLoadSensitiveZones={handleSensitiveZonesLoad}
+          onResetSensitiveZones={() => setSensitiveZones({ name: BUNDLED_SENSITIVE_ZONES_NAME, zones: getBundledSensitiveZones() })}
+          seaIceGrid={seaIce}
+          seaIceFlaggedCount={seaIceFlaggedCount}
+          showSeaIce={showSeaIce}
+          onToggleShowSeaIce={() => setShowSeaIce(prev => !prev)}
+          onSeaIceLoad={setSeaIce}
+          onResetSeaIce={() => setSeaIce(createSyntheticSeaIce())}
+          alertRules={alertRules}
+          webhooks={webhooks}
+          webhookDeliveries={webhookDeliveries}
+          quarantine={quarantine}
+          isProviderMetered={detectionProvider.metered}
+          analysisBudget={analysisBudget}
+          queueStats={queueStats}
+          onBudgetChange={handleBudgetChange}
+          cacheStats={cacheStats}
+          cacheLimitMb={cacheLimitMb}
+          forceReanalysis={forceReanalysis}
+          onCacheLimitChange={mb => setCacheLimitMb(Math.max(1, Math.round(mb) || 1))}
+          onForceReanalysisChange={setForceReanalysis}
+          onClearCache={handleClearCache}
+          onClearQuarantine={() => setQuarantine([])}
+          onAddRule={handleAddRule}
+          onToggleRule={handleToggleRule}
+          onDeleteRule={handleDeleteRule}
+          onAddWebhook={handleAddWebhook}
+          onToggleWebhook={handleToggleWebhook}
+          onDeleteWebhook={handleDeleteWebhook}
+          areaSummary={areaSummary}
+          driftFields={driftFields}
+          driftHours={driftHours}
+          driftSlickCount={new Set(driftForecasts.map(f => f.incidentId)).size}
+          onDriftHoursChange={setDriftHours}
+          onDriftFieldLoad={handleDriftFieldLoad}
+          onResetDriftFields={() => setDriftFields(createSyntheticFields())}
+          coverageCellCount={coverage.cells.length}
+          coverageByRegion={coverageByRegion}
+          showCoverage={showCoverage}
+          onToggleShowCoverage={() => setShowCoverage(prev => !prev)}
+          missions={missions}
+          missionDrawing={missionDrawing}
+          missionDraft={missionDraft}
+          missionActions={missionActions}
         />
       </div>
     </div>
@@ -0,0 +1,104 @@
+import React, { useRef, useState } from 'react';
+import { createOrbit, getOrbitalPeriodMinutes, Orbit, parseTle } from '../services/orbitService';
+
+const TIME_SCALES = [1, 10, 60];
+
+interface OrbitPanelProps {
+  orbit: Orbit | null;
+  timeScale: number;
+  onOrbitChange: (orbit: Orbit | null) => void;
+  onTimeScaleChange: (scale: number) => void;
+}
+
+const OrbitPanel: React.FC<OrbitPanelProps> = ({ orbit, timeScale, onOrbitChange, onTimeScaleChange }) => {
+  const [tleText, setTleText] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const applyTle = (text: string) => {
+    try {
+      onOrbitChange(createOrbit(parseTle(text)));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const loadFile = async (file: File | undefined) => {
+    if (!file) return;
+    const text = await file.text();
+    setTleText(text);
+    applyTle(text);
+  };
+
+  return (
+    <div className="flex-shrink-0 bg-gray-900/50 p-3 rounded-md border border-gray-700">
+      <h3 className="font-semibold mb-2">ОРБИТА (TLE)</h3>
+      {orbit ? (
+        <div className="text-sm space-y-1">
+          <p><strong>Спутник:</strong> {orbit.tle.name}</p>
+          <p><strong>Период:</strong> {getOrbitalPeriodMinutes(orbit).toFixed(1)} мин</p>
+          <button
+            onClick={() => onOrbitChange(null)}
+            className="w-full mt-1 px-3 py-1.5 text-sm bg-gray-700 text-white font-semibold rounded-md hover:bg-gray-600 transition-colors"
+          >
+            Вернуться к патрулю
+          </button>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          <textarea
+            value={tleText}
+            onChange={e => setTleText(e.target.value)}
+            rows={3}
+            spellCheck={false}
+            placeholder={'Название\n1 NNNNNU ...\n2 NNNNN ...'}
+            className="w-full bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-xs font-mono text-gray-200"
+          />
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".tle,.txt"
+            className="hidden"
+            onChange={e => {
+              loadFile(e.target.files?.[0]);
+              e.target.value = '';
+            }}
+          />
+          <div className="grid grid-cols-2 gap-2">
+            <button
+              onClick={() => applyTle(tleText)}
+              disabled={!tleText.trim()}
+              className="px-3 py-1.5 text-sm bg-cyan-600 text-white font-semibold rounded-md hover:bg-cyan-500 disabled:bg-gray-800 disabled:text-gray-500 disabled:cursor-not-allowed transition-colors"
+            >
+              Применить
+            </button>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="px-3 py-1.5 text-sm bg-gray-700 text-white font-semibold rounded-md hover:bg-gray-600 transition-colors"
+            >
+              Из файла
+            </button>
+          </div>
+          {error && <p className="text-xs text-red-400">{error}</p>}
+        </div>
+      )}
+      <div className="flex items-center justify-between mt-2 text-sm text-gray-400">
+        <span>Ускорение времени</span>
+        <div className="flex space-x-1">
+          {TIME_SCALES.map(scale => (
+            <button
+              key={scale}
+              onClick={() => onTimeScaleChange(scale)}
+              className={`px-2 py-0.5 rounded ${timeScale === scale ? 'bg-cyan-600 text-white' : 'bg-gray-700 hover:bg-gray-600'}`}
+            >
+              ×{scale}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default OrbitPanel;
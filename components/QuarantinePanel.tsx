@@ -0,0 +1,49 @@
+import React from 'react';
+import { QuarantinedDetection } from '../types';
+
+interface QuarantinePanelProps {
+  items: QuarantinedDetection[];
+  onClear: () => void;
+}
+
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleTimeString('ru-RU');
+
+const QuarantinePanel: React.FC<QuarantinePanelProps> = ({ items, onClear }) => (
+  <div className="flex-shrink-0 bg-gray-900/50 p-3 rounded-md border border-gray-700">
+    <div className="flex items-center justify-between mb-2">
+      <h3 className="font-semibold flex items-center">
+        КАРАНТИН ОБНАРУЖЕНИЙ
+        {items.length > 0 && (
+          <span className="ml-2 bg-yellow-500 text-gray-900 text-xs font-bold rounded-full px-1.5 h-5 flex items-center justify-center">
+            {items.length}
+          </span>
+        )}
+      </h3>
+      <button
+        onClick={onClear}
+        disabled={items.length === 0}
+        className="px-2 py-0.5 text-xs bg-gray-700 text-white rounded hover:bg-gray-600 disabled:bg-gray-800 disabled:text-gray-500 disabled:cursor-not-allowed transition-colors"
+      >
+        Очистить
+      </button>
+    </div>
+    {items.length === 0 ? (
+      <p className="text-xs text-gray-500">Все ответы модели прошли проверку.</p>
+    ) : (
+      <ul className="max-h-48 overflow-y-auto space-y-1.5 text-xs">
+        {items.map(item => (
+          <li key={item.id} className="border-l-2 border-yellow-500 pl-2">
+            <p className="text-yellow-300">{item.reason}</p>
+            <p className="text-gray-400">{formatTime(item.timestamp)} · {item.satelliteName} · {item.providerLabel}</p>
+            <details className="text-gray-500">
+              <summary className="cursor-pointer hover:text-gray-300">Ответ модели</summary>
+              <pre className="whitespace-pre-wrap break-all font-mono text-gray-400 max-h-24 overflow-y-auto">{item.raw}</pre>
+            </details>
+          </li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
+
+export default QuarantinePanel;
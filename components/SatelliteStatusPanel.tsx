@@ -1,17 +1,147 @@
 import React, { useRef, useEffect } from 'react';
-import { AppState, LogEntry, SatellitePosition, Filters } from '../types';
+import {
+  AlertCondition,
+  AlertRule,
+  AnalysisBudget,
+  AppState,
+  DetectionListActions,
+  ExportFormat,
+  LogEntry,
+  Satellite,
+  SatelliteStatus,
+  FilterAreaActions,
+  FilterAreaDrawing,
+  FilterCategory,
+  FilterPreset,
+  FilterPresetActions,
+  Filters,
+  Incident,
+  IncidentActions,
+  IncidentStatus,
+  ImportReport,
+  Mission,
+  MissionDrawing,
+  MissionPlannerActions,
+  PollutionData,
+  QuarantinedDetection,
+  ReferenceLayer,
+  SensitiveZone,
+  WebhookDelivery,
+  WebhookEndpoint,
+} from '../types';
 import FilterPanel from './FilterPanel';
+import DetectionListPanel from './DetectionListPanel';
+import DetectionProviderPanel from './DetectionProviderPanel';
+import QuarantinePanel from './QuarantinePanel';
+import AnalysisQueuePanel from './AnalysisQueuePanel';
+import AnalysisCachePanel from './AnalysisCachePanel';
+import IncidentPanel from './IncidentPanel';
+import ExportPanel from './ExportPanel';
+import ImportPanel from './ImportPanel';
+import OrbitPanel from './OrbitPanel';
+import MissionPlannerPanel from './MissionPlannerPanel';
+import CoveragePanel from './CoveragePanel';
+import AreaSummaryPanel from './AreaSummaryPanel';
+import DriftPanel from './DriftPanel';
+import AlertRulesPanel from './AlertRulesPanel';
+import SensitiveZonesPanel from './SensitiveZonesPanel';
+import SeaIcePanel from './SeaIcePanel';
+import { Orbit } from '../services/orbitService';
+import { RegionCoverage } from '../services/coverageService';
+import { AreaSummaryRow, DetectionMeasures } from '../services/measurementService';
+import { DriftFields, VectorGrid } from '../services/driftService';
+import { SeaIceGrid } from '../services/seaIceService';
+import { DetectionProviderId } from '../services/detectionProvider';
+import { AnalysisQueueStats } from '../services/analysisQueue';
+import { AnalysisCacheStats } from '../services/analysisCache';
 
 interface SatelliteStatusPanelProps {
   appState: AppState;
-  satellitePosition: SatellitePosition;
+  satellites: Satellite[];
+  selectedSatellite: Satellite;
+  onSelectSatellite: (id: string) => void;
   logs: LogEntry[];
   onStart: () => void;
   onStop: () => void;
   filters: Filters;
-  onFilterChange: (category: keyof Filters, value: string) => void;
+  onFilterChange: (category: FilterCategory, value: string) => void;
+  onFilterUpdate: (patch: Partial<Filters>) => void;
   onResetFilters: () => void;
-  currentSatelliteImage: string;
+  filterPresets: FilterPreset[];
+  presetActions: FilterPresetActions;
+  filterAreaDrawing: FilterAreaDrawing | null;
+  filterAreaActions: FilterAreaActions;
+  providerId: DetectionProviderId;
+  localModelUrl: string;
+  onProviderChange: (id: DetectionProviderId) => void;
+  onLocalModelUrlChange: (url: string) => void;
+  selectedIncident: Incident | null;
+  incidentActions: IncidentActions;
+  onCloseIncident: () => void;
+  detections: PollutionData[];
+  detectionMeasures: Map<string, DetectionMeasures>;
+  statusByDetection: Map<string, IncidentStatus>;
+  highlightedDetectionIds: Set<string>;
+  detectionListActions: DetectionListActions;
+  exportCount: number;
+  onExport: (format: ExportFormat) => void;
+  importReports: ImportReport[];
+  referenceLayers: ReferenceLayer[];
+  onImportFiles: (files: File[]) => void;
+  onRemoveReferenceLayer: (id: string) => void;
+  onClearImportReports: () => void;
+  orbit: Orbit | null;
+  timeScale: number;
+  onOrbitChange: (orbit: Orbit | null) => void;
+  onTimeScaleChange: (scale: number) => void;
+  sensitiveZonesName: string;
+  sensitiveZones: SensitiveZone[];
+  showSensitiveZones: boolean;
+  onToggleShowSensitiveZones: () => void;
+  onLoadSensitiveZones: (file: File) => void;
+  onResetSensitiveZones: () => void;
+  seaIceGrid: SeaIceGrid;
+  seaIceFlaggedCount: number;
+  showSeaIce: boolean;
+  onToggleShowSeaIce: () => void;
+  onSeaIceLoad: (grid: SeaIceGrid) => void;
+  onResetSeaIce: () => void;
+  alertRules: AlertRule[];
+  webhooks: WebhookEndpoint[];
+  webhookDeliveries: WebhookDelivery[];
+  quarantine: QuarantinedDetection[];
+  isProviderMetered: boolean;
+  analysisBudget: AnalysisBudget;
+  queueStats: AnalysisQueueStats;
+  onBudgetChange: (budget: AnalysisBudget) => void;
+  cacheStats: AnalysisCacheStats | null;
+  cacheLimitMb: number;
+  forceReanalysis: boolean;
+  onCacheLimitChange: (mb: number) => void;
+  onForceReanalysisChange: (force: boolean) => void;
+  onClearCache: () => void;
+  onClearQuarantine: () => void;
+  onAddRule: (name: string, conditions: AlertCondition[]) => void;
+  onToggleRule: (id: string) => void;
+  onDeleteRule: (id: string) => void;
+  onAddWebhook: (url: string) => void;
+  onToggleWebhook: (id: string) => void;
+  onDeleteWebhook: (id: string) => void;
+  areaSummary: { byType: AreaSummaryRow[]; bySea: AreaSummaryRow[] };
+  driftFields: DriftFields;
+  driftHours: number | null;
+  driftSlickCount: number;
+  onDriftHoursChange: (hours: number | null) => void;
+  onDriftFieldLoad: (grid: VectorGrid) => void;
+  onResetDriftFields: () => void;
+  coverageCellCount: number;
+  coverageByRegion: RegionCoverage[];
+  showCoverage: boolean;
+  onToggleShowCoverage: () => void;
+  missions: Mission[];
+  missionDrawing: MissionDrawing | null;
+  missionDraft: Pick<Mission, 'waypoints' | 'priorityAreas'>;
+  missionActions: MissionPlannerActions;
 }
 
 const StateIndicator: React.FC<{ state: AppState }> = ({ state }) => {
@@ -39,16 +169,101 @@ const StateIndicator: React.FC<{ state: AppState }> = ({ state }) => {
     );
 }
 
+const SATELLITE_STATUS_COLORS: Record<SatelliteStatus, string> = {
+    'Ожидание': 'bg-blue-500',
+    'Съёмка': 'bg-yellow-500 animate-pulse',
+    'В очереди': 'bg-orange-500',
+    'Анализ': 'bg-purple-500 animate-pulse',
+    'Вне зоны': 'bg-gray-500',
+};
+
 const SatelliteStatusPanel: React.FC<SatelliteStatusPanelProps> = ({
   appState,
-  satellitePosition,
+  satellites,
+  selectedSatellite,
+  onSelectSatellite,
   logs,
   onStart,
   onStop,
   filters,
   onFilterChange,
+  onFilterUpdate,
   onResetFilters,
-  currentSatelliteImage,
+  filterPresets,
+  presetActions,
+  filterAreaDrawing,
+  filterAreaActions,
+  providerId,
+  localModelUrl,
+  onProviderChange,
+  onLocalModelUrlChange,
+  selectedIncident,
+  incidentActions,
+  onCloseIncident,
+  detections,
+  detectionMeasures,
+  statusByDetection,
+  highlightedDetectionIds,
+  detectionListActions,
+  exportCount,
+  onExport,
+  importReports,
+  referenceLayers,
+  onImportFiles,
+  onRemoveReferenceLayer,
+  onClearImportReports,
+  orbit,
+  timeScale,
+  onOrbitChange,
+  onTimeScaleChange,
+  sensitiveZonesName,
+  sensitiveZones,
+  showSensitiveZones,
+  onToggleShowSensitiveZones,
+  onLoadSensitiveZones,
+  onResetSensitiveZones,
+  seaIceGrid,
+  seaIceFlaggedCount,
+  showSeaIce,
+  onToggleShowSeaIce,
+  onSeaIceLoad,
+  onResetSeaIce,
+  alertRules,
+  webhooks,
+  webhookDeliveries,
+  quarantine,
+  isProviderMetered,
+  analysisBudget,
+  queueStats,
+  onBudgetChange,
+  cacheStats,
+  cacheLimitMb,
+  forceReanalysis,
+  onCacheLimitChange,
+  onForceReanalysisChange,
+  onClearCache,
+  onClearQuarantine,
+  onAddRule,
+  onToggleRule,
+  onDeleteRule,
+  onAddWebhook,
+  onToggleWebhook,
+  onDeleteWebhook,
+  areaSummary,
+  driftFields,
+  driftHours,
+  driftSlickCount,
+  onDriftHoursChange,
+  onDriftFieldLoad,
+  onResetDriftFields,
+  coverageCellCount,
+  coverageByRegion,
+  showCoverage,
+  onToggleShowCoverage,
+  missions,
+  missionDrawing,
+  missionDraft,
+  missionActions,
 }) => {
   const logContainerRef = useRef<HTMLDivElement>(null);
 
@@ -59,6 +274,7 @@ const SatelliteStatusPanel: React.FC<SatelliteStatusPanelProps> = ({
   }, [logs]);
 
   const isRunning = appState !== AppState.Stopped;
+  const satellitePosition = selectedSatellite.position;
 
   return (
     <aside className="w-full md:w-96 bg-gray-800/70 backdrop-blur-md border-l border-gray-700 flex flex-col p-4 space-y-4 md:h-full overflow-y-auto">
@@ -85,21 +301,163 @@ const SatelliteStatusPanel: React.FC<SatelliteStatusPanelProps> = ({
         </div>
       </div>
 
+      {selectedIncident && (
+        <IncidentPanel incident={selectedIncident} actions={incidentActions} onClose={onCloseIncident} />
+      )}
+
+      {/* Constellation */}
+      <div className="flex-shrink-0 bg-gray-900/50 p-3 rounded-md border border-gray-700">
+        <h3 className="font-semibold mb-2">СОЗВЕЗДИЕ</h3>
+        <div className="space-y-1">
+          {satellites.map(sat => (
+            <button
+              key={sat.id}
+              onClick={() => onSelectSatellite(sat.id)}
+              className={`w-full flex items-center justify-between px-2 py-1 rounded text-sm transition-colors ${
+                sat.id === selectedSatellite.id ? 'bg-gray-700 text-white' : 'text-gray-300 hover:bg-gray-700/50'
+              }`}
+            >
+              <span className="flex items-center space-x-2">
+                <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: sat.color }}></span>
+                <span className="font-semibold">{sat.name}</span>
+                {sat.tle && <span className="text-xs text-cyan-400">TLE</span>}
+                {sat.missionId && <span className="text-xs text-amber-400">МИССИЯ</span>}
+              </span>
+              <span className="flex items-center space-x-1 text-xs text-gray-400">
+                <span className={`w-2 h-2 rounded-full ${SATELLITE_STATUS_COLORS[sat.status]}`}></span>
+                <span>{isRunning ? sat.status : 'Остановлен'}</span>
+              </span>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <OrbitPanel
+        orbit={orbit}
+        timeScale={timeScale}
+        onOrbitChange={onOrbitChange}
+        onTimeScaleChange={onTimeScaleChange}
+      />
+
+      <MissionPlannerPanel
+        missions={missions}
+        selectedSatellite={selectedSatellite}
+        drawing={missionDrawing}
+        draft={missionDraft}
+        actions={missionActions}
+      />
+
+      <CoveragePanel
+        cellCount={coverageCellCount}
+        regions={coverageByRegion}
+        showOnMap={showCoverage}
+        onToggleShowOnMap={onToggleShowCoverage}
+      />
+
+      <DetectionProviderPanel
+        providerId={providerId}
+        localModelUrl={localModelUrl}
+        onProviderChange={onProviderChange}
+        onLocalModelUrlChange={onLocalModelUrlChange}
+      />
+
+      <AnalysisQueuePanel
+        stats={queueStats}
+        budget={analysisBudget}
+        metered={isProviderMetered}
+        onBudgetChange={onBudgetChange}
+      />
+
+      <AnalysisCachePanel
+        stats={cacheStats}
+        limitMb={cacheLimitMb}
+        forceReanalysis={forceReanalysis}
+        onLimitChange={onCacheLimitChange}
+        onForceReanalysisChange={onForceReanalysisChange}
+        onClear={onClearCache}
+      />
+
+      <QuarantinePanel items={quarantine} onClear={onClearQuarantine} />
+
       <FilterPanel 
         filters={filters}
         onFilterChange={onFilterChange}
+        onFilterUpdate={onFilterUpdate}
         onResetFilters={onResetFilters}
+        presets={filterPresets}
+        presetActions={presetActions}
+        areaDrawing={filterAreaDrawing}
+        areaActions={filterAreaActions}
+      />
+
+      <DetectionListPanel
+        detections={detections}
+        measures={detectionMeasures}
+        statusByDetection={statusByDetection}
+        highlightedIds={highlightedDetectionIds}
+        actions={detectionListActions}
+      />
+
+      <SensitiveZonesPanel
+        sourceName={sensitiveZonesName}
+        zones={sensitiveZones}
+        showOnMap={showSensitiveZones}
+        onToggleShowOnMap={onToggleShowSensitiveZones}
+        onLoadFile={onLoadSensitiveZones}
+        onReset={onResetSensitiveZones}
+      />
+
+      <SeaIcePanel
+        grid={seaIceGrid}
+        flaggedCount={seaIceFlaggedCount}
+        showOnMap={showSeaIce}
+        onToggleShowOnMap={onToggleShowSeaIce}
+        onGridLoad={onSeaIceLoad}
+        onReset={onResetSeaIce}
+      />
+
+      <AlertRulesPanel
+        rules={alertRules}
+        webhooks={webhooks}
+        deliveries={webhookDeliveries}
+        onAddRule={onAddRule}
+        onToggleRule={onToggleRule}
+        onDeleteRule={onDeleteRule}
+        onAddWebhook={onAddWebhook}
+        onToggleWebhook={onToggleWebhook}
+        onDeleteWebhook={onDeleteWebhook}
+      />
+
+      <AreaSummaryPanel byType={areaSummary.byType} bySea={areaSummary.bySea} />
+
+      <DriftPanel
+        fields={driftFields}
+        forecastHours={driftHours}
+        slickCount={driftSlickCount}
+        onForecastHoursChange={onDriftHoursChange}
+        onFieldLoad={onDriftFieldLoad}
+        onResetFields={onResetDriftFields}
+      />
+
+      <ExportPanel count={exportCount} onExport={onExport} />
+
+      <ImportPanel
+        reports={importReports}
+        referenceLayers={referenceLayers}
+        onImportFiles={onImportFiles}
+        onRemoveReferenceLayer={onRemoveReferenceLayer}
+        onClearReports={onClearImportReports}
       />
       
       {/* Simulated Image */}
       <div className="flex-shrink-0">
-         <h3 className="font-semibold mb-2">ПОСЛЕДНИЙ СПУТНИКОВЫЙ СНИМОК</h3>
+         <h3 className="font-semibold mb-2">ПОСЛЕДНИЙ СНИМОК: {selectedSatellite.name}</h3>
          <div className="aspect-square bg-gray-900 rounded-md overflow-hidden border-2 border-gray-700">
            <img
-             src={currentSatelliteImage}
+             src={selectedSatellite.currentImage}
              alt="Актуальный спутниковый снимок Арктики"
              className="w-full h-full object-cover"
-             key={currentSatelliteImage}
+             key={selectedSatellite.currentImage}
            />
         </div>
       </div>
@@ -109,8 +467,12 @@ const SatelliteStatusPanel: React.FC<SatelliteStatusPanelProps> = ({
         <h3 className="font-semibold mb-2">СТАТУС СИСТЕМЫ</h3>
         <div className="space-y-1 text-sm">
             <StateIndicator state={appState} />
+            <p><strong>Спутник:</strong> {selectedSatellite.name}</p>
             <p><strong>Координаты:</strong> {satellitePosition.lat.toFixed(4)}, {satellitePosition.lng.toFixed(4)}</p>
             <p><strong>Курс:</strong> {satellitePosition.heading.toFixed(0)}°</p>
+            {satellitePosition.altitude !== undefined && (
+              <p><strong>Высота:</strong> {satellitePosition.altitude.toFixed(0)} км</p>
+            )}
         </div>
       </div>
       
@@ -0,0 +1,80 @@
+import React, { useRef, useState } from 'react';
+import { HEAVY_ICE_CONCENTRATION, parseSeaIceGrid, SeaIceGrid } from '../services/seaIceService';
+
+interface SeaIcePanelProps {
+  grid: SeaIceGrid;
+  flaggedCount: number;
+  showOnMap: boolean;
+  onToggleShowOnMap: () => void;
+  onGridLoad: (grid: SeaIceGrid) => void;
+  onReset: () => void;
+}
+
+const SeaIcePanel: React.FC<SeaIcePanelProps> = ({
+  grid,
+  flaggedCount,
+  showOnMap,
+  onToggleShowOnMap,
+  onGridLoad,
+  onReset,
+}) => {
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const loadFile = async (file: File) => {
+    setError(null);
+    try {
+      onGridLoad(parseSeaIceGrid(await file.text(), file.name));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <div className="flex-shrink-0 bg-gray-900/50 p-3 rounded-md border border-gray-700">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="font-semibold">МОРСКОЙ ЛЁД</h3>
+        <label className="flex items-center space-x-1 text-xs text-gray-400 cursor-pointer">
+          <input type="checkbox" checked={showOnMap} onChange={onToggleShowOnMap} className="accent-cyan-500" />
+          <span>На карте</span>
+        </label>
+      </div>
+      <div className="text-xs text-gray-400 space-y-0.5">
+        <p><strong>Сплочённость:</strong> {grid.name}</p>
+        <p>Сетка {grid.nLat}×{grid.nLng}, шаг {grid.dLat}° × {grid.dLng}°</p>
+        <p>
+          В сплочённом льду (≥ {Math.round(HEAVY_ICE_CONCENTRATION * 100)} %) на проверке:{' '}
+          <span className={flaggedCount > 0 ? 'text-yellow-400' : ''}>{flaggedCount}</span>
+        </p>
+      </div>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".json"
+        className="hidden"
+        onChange={e => {
+          const file = e.target.files?.[0];
+          if (file) loadFile(file);
+          e.target.value = '';
+        }}
+      />
+      <div className="grid grid-cols-2 gap-2 mt-2">
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="px-3 py-1.5 text-sm bg-gray-700 text-white font-semibold rounded-md hover:bg-gray-600 transition-colors"
+        >
+          Загрузить сетку
+        </button>
+        <button
+          onClick={onReset}
+          className="px-3 py-1.5 text-sm bg-gray-700 text-white font-semibold rounded-md hover:bg-gray-600 transition-colors"
+        >
+          Синтетический
+        </button>
+      </div>
+      {error && <p className="text-xs text-red-400 mt-2">{error}</p>}
+    </div>
+  );
+};
+
+export default SeaIcePanel;
@@ -0,0 +1,75 @@
+import React, { useRef } from 'react';
+import { SensitiveZone } from '../types';
+import { SENSITIVE_ZONE_CATEGORIES } from '../services/sensitiveZoneService';
+import { SENSITIVE_ZONE_COLORS } from '../constants';
+
+interface SensitiveZonesPanelProps {
+  sourceName: string;
+  zones: SensitiveZone[];
+  showOnMap: boolean;
+  onToggleShowOnMap: () => void;
+  onLoadFile: (file: File) => void;
+  onReset: () => void;
+}
+
+const SensitiveZonesPanel: React.FC<SensitiveZonesPanelProps> = ({
+  sourceName,
+  zones,
+  showOnMap,
+  onToggleShowOnMap,
+  onLoadFile,
+  onReset,
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const counts = SENSITIVE_ZONE_CATEGORIES
+    .map(category => ({ category, count: zones.filter(zone => zone.category === category).length }))
+    .filter(({ count }) => count > 0);
+
+  return (
+    <div className="flex-shrink-0 bg-gray-900/50 p-3 rounded-md border border-gray-700">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="font-semibold">ЧУВСТВИТЕЛЬНЫЕ ЗОНЫ</h3>
+        <label className="flex items-center space-x-1 text-xs text-gray-400 cursor-pointer">
+          <input type="checkbox" checked={showOnMap} onChange={onToggleShowOnMap} className="accent-cyan-500" />
+          <span>На карте</span>
+        </label>
+      </div>
+      <p className="text-xs text-gray-400 mb-1 truncate" title={sourceName}>Источник: {sourceName}</p>
+      <ul className="text-xs text-gray-300 space-y-0.5 mb-2">
+        {counts.map(({ category, count }) => (
+          <li key={category} className="flex items-center space-x-2">
+            <span className="w-2.5 h-2.5 rounded-sm" style={{ backgroundColor: SENSITIVE_ZONE_COLORS[category] }}></span>
+            <span>{category}: {count}</span>
+          </li>
+        ))}
+      </ul>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".geojson,.json"
+        className="hidden"
+        onChange={e => {
+          const file = e.target.files?.[0];
+          if (file) onLoadFile(file);
+          e.target.value = '';
+        }}
+      />
+      <div className="grid grid-cols-2 gap-2">
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="px-3 py-1.5 text-sm bg-gray-700 text-white font-semibold rounded-md hover:bg-gray-600 transition-colors"
+        >
+          Загрузить GeoJSON
+        </button>
+        <button
+          onClick={onReset}
+          className="px-3 py-1.5 text-sm bg-gray-700 text-white font-semibold rounded-md hover:bg-gray-600 transition-colors"
+        >
+          Встроенные
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SensitiveZonesPanel;
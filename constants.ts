@@ -0,0 +1,27 @@
+import { DetectionSource, PollutionData, SensitiveZoneCategory } from './types';
+
+export const POLLUTION_COLORS: Record<PollutionData['type'], string> = {
+    'Химическое': '#a855f7',
+    'Нефтяное': '#ef4444',
+    'Физическое': '#f97316',
+};
+
+export const SENSITIVE_ZONE_COLORS: Record<SensitiveZoneCategory, string> = {
+    'Заповедник': '#22c55e',
+    'Поселение': '#facc15',
+    'Птичий базар': '#38bdf8',
+    'Рыболовный район': '#14b8a6',
+    'Прочее': '#e5e7eb',
+};
+
+export const HAZARD_COLORS: Record<PollutionData['hazardLevel'], string> = {
+    'Низкий': '#22c55e',
+    'Средний': '#eab308',
+    'Высокий': '#ef4444',
+};
+
+export const SOURCE_COLORS: Record<DetectionSource, string> = {
+    'ИИ': '#06b6d4',
+    'Симуляция': '#9ca3af',
+    'Импорт': '#3b82f6',
+};
@@ -0,0 +1,164 @@
+import { Alarm, AlertCondition, AlertRule, PollutionData, SensitiveZone, WebhookDelivery } from "../types";
+import { createId } from "./ids";
+import { measureDetection } from "./measurementService";
+import { findNearestZone } from "./sensitiveZoneService";
+
+export const WEBHOOK_MAX_ATTEMPTS = 3;
+const WEBHOOK_RETRY_BASE_MS = 2000;
+
+export const ALERT_FIELD_LABELS: Record<string, string> = {
+  type: 'Тип',
+  hazardLevel: 'Опасность',
+  impactArea: 'Область',
+  source: 'Источник',
+  confidence: 'Уверенность',
+  areaKm2: 'Площадь, км²',
+};
+
+export interface NearestSettlement {
+  name: string;
+  distanceKm: number;
+}
+
+/**
+ * Closest settlement among the sensitive zones to the detection outline.
+ */
+export const findNearestSettlement = (p: PollutionData, zones: SensitiveZone[]): NearestSettlement | null => {
+  const nearest = findNearestZone(p, zones.filter(zone => zone.category === 'Поселение'));
+  return nearest ? { name: nearest.zoneName, distanceKm: nearest.distanceKm } : null;
+};
+
+/**
+ * Name of the first protected area among the sensitive zones that the outline overlaps, or null.
+ */
+export const findProtectedArea = (p: PollutionData, zones: SensitiveZone[]): string | null => {
+  const area = zones.find(zone => zone.category === 'Заповедник' && findNearestZone(p, [zone])?.intersects);
+  return area ? area.name : null;
+};
+
+export const describeCondition = (c: AlertCondition): string => {
+  switch (c.kind) {
+    case 'equals': return `${ALERT_FIELD_LABELS[c.field]} = ${c.value}`;
+    case 'compare': return `${ALERT_FIELD_LABELS[c.field]} ${c.op} ${c.value}`;
+    case 'nearSettlement': return `ближе ${c.distanceKm} км к населённому пункту`;
+    case 'inProtectedArea': return 'в охраняемой зоне';
+  }
+};
+
+const compare = (actual: number, op: AlertCondition & { kind: 'compare' }): boolean => {
+  switch (op.op) {
+    case '>': return actual > op.value;
+    case '>=': return actual >= op.value;
+    case '<': return actual < op.value;
+    case '<=': return actual <= op.value;
+  }
+};
+
+/**
+ * Checks a detection against a rule. Returns the explanation of every matched condition,
+ * or null when any condition fails. Spatial conditions are checked against the active sensitive
+ * zones, the same set the map shows; the lookups are only done when a rule needs them.
+ */
+export const evaluateRule = (rule: AlertRule, p: PollutionData, zones: SensitiveZone[]): string[] | null => {
+  if (!rule.enabled || rule.conditions.length === 0) return null;
+  const reasons: string[] = [];
+
+  for (const c of rule.conditions) {
+    switch (c.kind) {
+      case 'equals': {
+        if ((p[c.field] ?? '') !== c.value) return null;
+        reasons.push(describeCondition(c));
+        break;
+      }
+      case 'compare': {
+        const actual = c.field === 'areaKm2' ? measureDetection(p).areaKm2 : p.confidence;
+        if (!compare(actual, c)) return null;
+        reasons.push(`${ALERT_FIELD_LABELS[c.field]}: ${actual.toFixed(c.field === 'confidence' ? 2 : 1)} ${c.op} ${c.value}`);
+        break;
+      }
+      case 'nearSettlement': {
+        const nearest = findNearestSettlement(p, zones);
+        if (!nearest || nearest.distanceKm > c.distanceKm) return null;
+        reasons.push(`${nearest.distanceKm.toFixed(1)} км до н.п. ${nearest.name}`);
+        break;
+      }
+      case 'inProtectedArea': {
+        const area = findProtectedArea(p, zones);
+        if (!area) return null;
+        reasons.push(`в охраняемой зоне: ${area}`);
+        break;
+      }
+    }
+  }
+  return reasons;
+};
+
+/**
+ * Raises one alarm per matching (rule, detection) pair.
+ */
+export const createAlarms = (rules: AlertRule[], detections: PollutionData[], zones: SensitiveZone[]): Alarm[] =>
+  detections.flatMap(p => rules.flatMap(rule => {
+    const reasons = evaluateRule(rule, p, zones);
+    if (!reasons) return [];
+    return [{
+      id: createId('alarm'),
+      ruleId: rule.id,
+      ruleName: rule.name,
+      detectionId: p.id,
+      detectionType: p.type,
+      timestamp: Date.now(),
+      reasons,
+      acknowledgedAt: null,
+    }];
+  }));
+
+export const buildWebhookPayload = (alarm: Alarm, detection: PollutionData | undefined) => ({
+  event: 'pollution.alarm',
+  alarm: {
+    id: alarm.id,
+    ruleId: alarm.ruleId,
+    ruleName: alarm.ruleName,
+    timestamp: new Date(alarm.timestamp).toISOString(),
+    reasons: alarm.reasons,
+  },
+  detection: detection && {
+    ...detection,
+    timestamp: new Date(detection.timestamp).toISOString(),
+    ...measureDetection(detection),
+  },
+});
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * POSTs an alarm payload to a webhook, retrying failed attempts with exponential backoff.
+ * Every attempt is reported through `onDelivery`. Resolves to whether the delivery succeeded.
+ */
+export const deliverWebhook = async (
+  url: string,
+  alarmId: string,
+  payload: unknown,
+  onDelivery: (delivery: WebhookDelivery) => void
+): Promise<boolean> => {
+  for (let attempt = 1; attempt <= WEBHOOK_MAX_ATTEMPTS; attempt++) {
+    const isLast = attempt === WEBHOOK_MAX_ATTEMPTS;
+    const base = { id: createId('delivery'), alarmId, url, attempt, timestamp: Date.now() };
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+      });
+      if (response.ok) {
+        onDelivery({ ...base, status: 'success', httpStatus: response.status });
+        return true;
+      }
+      onDelivery({ ...base, status: isLast ? 'failed' : 'retry', httpStatus: response.status });
+    } catch (err) {
+      const error = err instanceof Error ? err.message : String(err);
+      onDelivery({ ...base, status: isLast ? 'failed' : 'retry', error });
+    }
+    if (!isLast) await sleep(WEBHOOK_RETRY_BASE_MS * 2 ** (attempt - 1));
+  }
+  return false;
+};
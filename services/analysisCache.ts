@@ -0,0 +1,166 @@
+import { CachedImage } from "../types";
+import { isAbortError } from "./analysisQueue";
+import { DetectionProvider } from "./detectionProvider";
+import {
+  clearAnalysisCache,
+  deleteCachedImages,
+  findCachedAnalysis,
+  findCachedImage,
+  loadCachedImages,
+  saveCachedAnalysis,
+  saveCachedImage,
+} from "./detectionStore";
+import { imageToBase64 } from "./geminiService";
+
+export const DEFAULT_CACHE_LIMIT_MB = 50;
+export const BYTES_PER_MB = 1024 * 1024;
+
+export interface AnalysisCacheStats {
+  hits: number;
+  misses: number;
+  images: number;
+  bytes: number;
+  limitBytes: number;
+}
+
+export interface LoadedImage {
+  // Null when hashing is unavailable; such images are neither stored nor looked up.
+  hash: string | null;
+  image: string;
+}
+
+export interface AnalysisCache {
+  // Returns the image behind an export URL, downloading it only when no cached image came from that URL.
+  // Null when the download failed; the provider then fetches the image itself, uncached.
+  loadImage: (url: string, signal: AbortSignal) => Promise<LoadedImage | null>;
+  // Cached model output for an image; counts a hit or a miss.
+  readAnalysis: (imageHash: string, provider: DetectionProvider) => Promise<unknown[] | null>;
+  writeAnalysis: (imageHash: string, provider: DetectionProvider, detections: unknown[]) => Promise<void>;
+  setLimit: (bytes: number) => void;
+  clear: () => Promise<void>;
+  getStats: () => AnalysisCacheStats;
+}
+
+type ImageUsage = Pick<CachedImage, 'urls' | 'bytes' | 'lastUsedAt'>;
+
+const getAnalysisKey = (imageHash: string, provider: DetectionProvider): string =>
+  `${imageHash}:${provider.id}:${provider.cacheVersion}`;
+
+const decodeBase64 = (base64: string): Uint8Array => Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+
+// SubtleCrypto exists only in secure contexts (https or localhost); elsewhere nothing is cached.
+const hashBytes = async (bytes: Uint8Array): Promise<string | null> => {
+  if (!globalThis.crypto?.subtle) return null;
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * Content-addressed cache of scanned images and the model output for them. Images are keyed by the
+ * SHA-256 of their bytes, analyses by that hash plus the provider, model and prompt version, so a patrol
+ * pass over an already analysed scene costs neither a download nor a request. When the stored images
+ * outgrow the size limit, the least recently used ones are evicted together with their analyses.
+ * Storage errors are logged and treated as misses; the cache never fails an analysis.
+ */
+export const createAnalysisCache = (limitBytes: number, onChange: (stats: AnalysisCacheStats) => void): AnalysisCache => {
+  let limit = limitBytes;
+  let hits = 0;
+  let misses = 0;
+  // Size, sources and last use of every stored image, read once and then kept in step with the store.
+  const usage = new Map<string, ImageUsage>();
+
+  const getStats = (): AnalysisCacheStats => ({
+    hits,
+    misses,
+    images: usage.size,
+    bytes: Array.from(usage.values()).reduce((sum, u) => sum + u.bytes, 0),
+    limitBytes: limit,
+  });
+
+  const notify = () => onChange(getStats());
+
+  const ready = loadCachedImages()
+    .then(images => images.forEach(({ hash, urls, bytes, lastUsedAt }) => usage.set(hash, { urls, bytes, lastUsedAt })))
+    .catch(err => console.error('Не удалось прочитать кэш снимков:', err))
+    .then(notify);
+
+  const evict = async () => {
+    let total = getStats().bytes;
+    if (total <= limit) return;
+    const evicted: string[] = [];
+    const oldestFirst = Array.from(usage.entries()).sort((a, b) => a[1].lastUsedAt - b[1].lastUsedAt);
+    for (const [hash, { bytes }] of oldestFirst) {
+      if (total <= limit) break;
+      total -= bytes;
+      usage.delete(hash);
+      evicted.push(hash);
+    }
+    await deleteCachedImages(evicted).catch(err => console.error('Не удалось очистить кэш снимков:', err));
+  };
+
+  const loadImage = async (url: string, signal: AbortSignal): Promise<LoadedImage | null> => {
+    await ready;
+    const cached = await findCachedImage(url).catch(err => {
+      console.error('Не удалось прочитать кэш снимков:', err);
+      return undefined;
+    });
+    const now = Date.now();
+    if (cached) {
+      usage.set(cached.hash, { urls: cached.urls, bytes: cached.bytes, lastUsedAt: now });
+      saveCachedImage({ ...cached, lastUsedAt: now }).catch(err => console.error('Не удалось обновить кэш снимков:', err));
+      return { hash: cached.hash, image: cached.image };
+    }
+
+    let image: string;
+    try {
+      image = await imageToBase64(url, signal);
+    } catch (err) {
+      if (isAbortError(err)) throw err;
+      console.error('Не удалось загрузить снимок в кэш:', err);
+      return null;
+    }
+    const bytes = decodeBase64(image);
+    const hash = await hashBytes(bytes);
+    if (!hash) return { hash, image };
+    // Identical pixels from another URL are stored once; the new URL is added to the existing image.
+    const urls = Array.from(new Set([...(usage.get(hash)?.urls ?? []), url]));
+    usage.set(hash, { urls, bytes: bytes.length, lastUsedAt: now });
+    await saveCachedImage({ hash, urls, image, bytes: bytes.length, lastUsedAt: now })
+      .catch(err => console.error('Не удалось сохранить снимок в кэш:', err));
+    await evict();
+    notify();
+    return { hash, image };
+  };
+
+  return {
+    loadImage,
+    readAnalysis: async (imageHash, provider) => {
+      const cached = await findCachedAnalysis(getAnalysisKey(imageHash, provider)).catch(err => {
+        console.error('Не удалось прочитать кэш анализа:', err);
+        return undefined;
+      });
+      if (cached) hits += 1;
+      else misses += 1;
+      notify();
+      return cached ? cached.detections : null;
+    },
+    writeAnalysis: async (imageHash, provider, detections) => {
+      // An image evicted while it was being analysed is not coming back; its analysis is dropped too.
+      if (!usage.has(imageHash)) return;
+      await saveCachedAnalysis({ key: getAnalysisKey(imageHash, provider), imageHash, detections, createdAt: Date.now() })
+        .catch(err => console.error('Не удалось сохранить анализ в кэш:', err));
+    },
+    setLimit: bytes => {
+      limit = bytes;
+      evict().then(notify);
+    },
+    clear: async () => {
+      usage.clear();
+      hits = 0;
+      misses = 0;
+      await clearAnalysisCache().catch(err => console.error('Не удалось очистить кэш снимков:', err));
+      notify();
+    },
+    getStats,
+  };
+};
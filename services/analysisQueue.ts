@@ -0,0 +1,195 @@
+import { AnalysisBudget } from "../types";
+import { loadAnalysisRequestHistory, saveAnalysisRequestHistory } from "./detectionStore";
+
+export type AnalysisPriority = 'high' | 'normal';
+
+// Free-tier quota of gemini-2.5-flash.
+export const DEFAULT_ANALYSIS_BUDGET: AnalysisBudget = { requestsPerMinute: 10, requestsPerDay: 250 };
+
+export interface AnalysisQueueStats {
+  queued: number;
+  running: number;
+  // When the last queued job is expected to start under the budget; null when nothing is waiting.
+  readyAt: number | null;
+  usedLastMinute: number;
+  usedLastDay: number;
+}
+
+export const EMPTY_QUEUE_STATS: AnalysisQueueStats = { queued: 0, running: 0, readyAt: null, usedLastMinute: 0, usedLastDay: 0 };
+
+export interface AnalysisJob<T> {
+  // Identifies the job's owner (a satellite) for status display.
+  key: string;
+  priority: AnalysisPriority;
+  // Unmetered jobs (simulation, the in-house model) skip the budget but still wait their turn.
+  metered: boolean;
+  run: (signal: AbortSignal) => Promise<T>;
+}
+
+export interface AnalysisQueue {
+  enqueue: <T>(job: AnalysisJob<T>) => Promise<T>;
+  isRunning: (key: string) => boolean;
+  setBudget: (budget: AnalysisBudget) => void;
+  // Rejects every queued job and aborts the running ones.
+  cancelAll: () => void;
+  getStats: () => AnalysisQueueStats;
+}
+
+interface QueuedJob extends AnalysisJob<unknown> {
+  order: number;
+  attempts: number;
+  resolve: (value: unknown) => void;
+  reject: (error: unknown) => void;
+}
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+const MAX_RUNNING_JOBS = 3;
+// A quota rejection pauses metered jobs for a minute, doubling on each retry of the same job.
+const RATE_LIMIT_PAUSE_MS = MINUTE_MS;
+const MAX_RATE_LIMIT_RETRIES = 3;
+
+const PRIORITY_RANK: Record<AnalysisPriority, number> = { high: 0, normal: 1 };
+
+/** An error a provider throws when the service rejects a request for exceeding its quota. */
+export const createRateLimitError = (message: string): Error => Object.assign(new Error(message), { rateLimited: true });
+
+const isRateLimitError = (error: unknown): boolean =>
+  error instanceof Error && (error as Error & { rateLimited?: boolean }).rateLimited === true;
+
+export const isAbortError = (error: unknown): boolean =>
+  typeof error === 'object' && error !== null && (error as { name?: unknown }).name === 'AbortError';
+
+const createAbortError = (): Error => Object.assign(new Error('Анализ отменён.'), { name: 'AbortError' });
+
+/**
+ * Queue of image analyses. Jobs start in priority order, then in order of arrival, as long as the
+ * requests of the last minute and the last day stay within the budget. A quota rejection from the
+ * service puts the job back at its place and holds all metered jobs for a while instead of failing it.
+ */
+export const createAnalysisQueue = (initialBudget: AnalysisBudget, onChange: (stats: AnalysisQueueStats) => void): AnalysisQueue => {
+  let budget = initialBudget;
+  let pending: QueuedJob[] = [];
+  const running = new Map<QueuedJob, AbortController>();
+  // Start times of metered requests within the last day, oldest first. They are persisted, so a reload
+  // does not reset the daily budget; metered jobs wait until the stored history has been read.
+  let starts: number[] = [];
+  let historyLoaded = false;
+  let pausedUntil = 0;
+  let timer: number | null = null;
+  let nextOrder = 0;
+
+  // Earliest time a metered request may start given the start times so far.
+  const nextSlot = (history: number[], now: number): number => {
+    let at = Math.max(now, pausedUntil);
+    const inMinute = history.filter(t => at - t < MINUTE_MS);
+    if (inMinute.length >= budget.requestsPerMinute) {
+      at = Math.max(at, inMinute[inMinute.length - budget.requestsPerMinute] + MINUTE_MS);
+    }
+    const inDay = history.filter(t => at - t < DAY_MS);
+    if (inDay.length >= budget.requestsPerDay) {
+      at = Math.max(at, inDay[inDay.length - budget.requestsPerDay] + DAY_MS);
+    }
+    return at;
+  };
+
+  const getStats = (): AnalysisQueueStats => {
+    const now = Date.now();
+    // Plays the budget forward over the queue to see when its last job gets a slot.
+    const history = [...starts];
+    let readyAt: number | null = pending.length > 0 ? now : null;
+    pending.forEach(job => {
+      if (!job.metered) return;
+      readyAt = nextSlot(history, now);
+      history.push(readyAt);
+    });
+    return {
+      queued: pending.length,
+      running: running.size,
+      readyAt,
+      usedLastMinute: starts.filter(t => now - t < MINUTE_MS).length,
+      usedLastDay: starts.length,
+    };
+  };
+
+  const insert = (job: QueuedJob) => {
+    pending = [...pending, job].sort((a, b) => PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority] || a.order - b.order);
+  };
+
+  const start = (job: QueuedJob, now: number) => {
+    const controller = new AbortController();
+    running.set(job, controller);
+    if (job.metered) {
+      starts.push(now);
+      saveAnalysisRequestHistory(starts).catch(err => console.error('Не удалось сохранить журнал запросов анализа:', err));
+    }
+    job.run(controller.signal)
+      .then(job.resolve, error => {
+        if (isRateLimitError(error) && !controller.signal.aborted && job.attempts < MAX_RATE_LIMIT_RETRIES) {
+          pausedUntil = Math.max(pausedUntil, Date.now() + RATE_LIMIT_PAUSE_MS * 2 ** job.attempts);
+          job.attempts += 1;
+          insert(job);
+        } else {
+          job.reject(error);
+        }
+      })
+      .finally(() => {
+        running.delete(job);
+        pump();
+      });
+  };
+
+  const pump = () => {
+    if (timer !== null) {
+      window.clearTimeout(timer);
+      timer = null;
+    }
+    const now = Date.now();
+    starts = starts.filter(t => now - t < DAY_MS);
+    while (running.size < MAX_RUNNING_JOBS) {
+      const slotOpen = historyLoaded && nextSlot(starts, now) <= now;
+      const job = pending.find(j => !j.metered || slotOpen);
+      if (!job) break;
+      pending = pending.filter(j => j !== job);
+      start(job, now);
+    }
+    if (historyLoaded && running.size < MAX_RUNNING_JOBS && pending.some(j => j.metered)) {
+      timer = window.setTimeout(pump, nextSlot(starts, now) - now);
+    }
+    onChange(getStats());
+  };
+
+  loadAnalysisRequestHistory()
+    .then(stored => {
+      starts = [...stored, ...starts].sort((a, b) => a - b);
+    })
+    .catch(err => console.error('Не удалось прочитать журнал запросов анализа:', err))
+    .finally(() => {
+      historyLoaded = true;
+      pump();
+    });
+
+  return {
+    enqueue: <T>(job: AnalysisJob<T>) => new Promise<T>((resolve, reject) => {
+      insert({ ...job, order: nextOrder++, attempts: 0, resolve, reject });
+      pump();
+    }),
+    isRunning: key => Array.from(running.keys()).some(job => job.key === key),
+    setBudget: next => {
+      budget = next;
+      pump();
+    },
+    cancelAll: () => {
+      const error = createAbortError();
+      pending.forEach(job => job.reject(error));
+      pending = [];
+      running.forEach((controller, job) => {
+        controller.abort();
+        job.reject(error);
+      });
+      running.clear();
+      pump();
+    },
+    getStats,
+  };
+};
@@ -0,0 +1,110 @@
+import { PollutionData } from '../types';
+
+export type TimeBucket = 'hour' | 'day' | 'week';
+
+export const TIME_BUCKET_LABELS: Record<TimeBucket, string> = {
+  hour: 'по часам',
+  day: 'по суткам',
+  week: 'по неделям',
+};
+
+const BUCKET_MS: Record<TimeBucket, number> = {
+  hour: 3600 * 1000,
+  day: 24 * 3600 * 1000,
+  week: 7 * 24 * 3600 * 1000,
+};
+
+export interface TimeSeriesPoint {
+  start: number;
+  counts: Record<string, number>;
+  total: number;
+}
+
+export interface CountRow {
+  key: string;
+  count: number;
+}
+
+export interface HistogramBin {
+  from: number;
+  to: number;
+  count: number;
+}
+
+/** Finest bucket that keeps the series at a readable length for the given time span. */
+export const chooseTimeBucket = (spanMs: number): TimeBucket => {
+  if (spanMs <= 2 * BUCKET_MS.day) return 'hour';
+  if (spanMs <= 90 * BUCKET_MS.day) return 'day';
+  return 'week';
+};
+
+// Buckets start at local midnight (days, weeks from Monday) or on the hour.
+const bucketStart = (timestamp: number, bucket: TimeBucket): number => {
+  const date = new Date(timestamp);
+  date.setMinutes(0, 0, 0);
+  if (bucket === 'hour') return date.getTime();
+  date.setHours(0);
+  if (bucket === 'week') date.setDate(date.getDate() - ((date.getDay() + 6) % 7));
+  return date.getTime();
+};
+
+const nextBucketStart = (start: number, bucket: TimeBucket): number => {
+  const date = new Date(start);
+  if (bucket === 'hour') date.setHours(date.getHours() + 1);
+  else date.setDate(date.getDate() + (bucket === 'day' ? 1 : 7));
+  return date.getTime();
+};
+
+/**
+ * Detection counts per time bucket, split by `keyOf`. Empty buckets between the first and the last
+ * detection are kept so gaps show up in the chart.
+ */
+export const buildTimeSeries = (
+  data: PollutionData[],
+  keyOf: (p: PollutionData) => string,
+  bucket: TimeBucket
+): TimeSeriesPoint[] => {
+  if (data.length === 0) return [];
+  const byStart = new Map<number, TimeSeriesPoint>();
+  data.forEach(p => {
+    const start = bucketStart(p.timestamp, bucket);
+    const point = byStart.get(start) ?? { start, counts: {}, total: 0 };
+    const key = keyOf(p);
+    point.counts[key] = (point.counts[key] ?? 0) + 1;
+    point.total += 1;
+    byStart.set(start, point);
+  });
+
+  const starts = Array.from(byStart.keys());
+  const last = Math.max(...starts);
+  const series: TimeSeriesPoint[] = [];
+  for (let start = Math.min(...starts); start <= last; start = nextBucketStart(start, bucket)) {
+    series.push(byStart.get(start) ?? { start, counts: {}, total: 0 });
+  }
+  return series;
+};
+
+export const formatBucketLabel = (start: number, bucket: TimeBucket): string =>
+  bucket === 'hour'
+    ? new Date(start).toLocaleString('ru-RU', { day: '2-digit', month: '2-digit', hour: '2-digit', minute: '2-digit' })
+    : new Date(start).toLocaleDateString('ru-RU', { day: '2-digit', month: '2-digit', year: '2-digit' });
+
+/** Counts per key, in the order of `keys` first and any unexpected keys after them. */
+export const countBy = (data: PollutionData[], keyOf: (p: PollutionData) => string, keys: string[] = []): CountRow[] => {
+  const counts = new Map<string, number>(keys.map(key => [key, 0]));
+  data.forEach(p => {
+    const key = keyOf(p);
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  });
+  return Array.from(counts, ([key, count]) => ({ key, count }));
+};
+
+/** Histogram of detection confidence over [0, 1] in equal bins; a confidence of exactly 1 falls into the last bin. */
+export const buildConfidenceHistogram = (data: PollutionData[], binCount: number = 10): HistogramBin[] => {
+  const bins: HistogramBin[] = Array.from({ length: binCount }, (_, i) => ({ from: i / binCount, to: (i + 1) / binCount, count: 0 }));
+  data.forEach(p => {
+    const index = Math.min(binCount - 1, Math.max(0, Math.floor(p.confidence * binCount)));
+    bins[index].count += 1;
+  });
+  return bins;
+};
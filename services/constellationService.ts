@@ -0,0 +1,213 @@
+import { BBox, LatLng, PatrolRoute, Satellite, SatellitePosition } from "../types";
+import { initialBearing } from "./geometry";
+import { isInPriorityArea } from "./missionService";
+import { getOrbit, propagateOrbit } from "./orbitService";
+
+export const SIMULATION_INTERVAL_MS = 1000;
+
+// === Arctic Boundaries ===
+// Only the Arctic Circle is enforced: a longitude clamp would cut off the Russian shelf seas
+// (Barents, Kara, Laptev) that mission plans are drawn over.
+const ARCTIC_SOUTH = 66.55;    // 66° 33' N
+const ARCTIC_NORTH = 90.0;
+
+const PATROL_SPEED_KPH = 700; // Реалистичная скорость (например, разведчик)
+
+// Scan cadence while the sub-satellite point is inside a mission priority area.
+export const PRIORITY_SCAN_INTERVAL_TICKS = 15;
+
+// Scan footprint around the sub-satellite point, clamped to the Arctic Circle and the valid longitude range.
+// Returns null when the point lies outside the Arctic and there is nothing to image.
+export const computeScanBBox = (lat: number, lng: number): BBox | null => {
+    const SCAN_KM = 35;
+    const KM_PER_DEG_LAT = 111.32;
+    const latSpan = SCAN_KM / KM_PER_DEG_LAT;
+    const lngSpan = SCAN_KM / (KM_PER_DEG_LAT * Math.cos(lat * Math.PI / 180));
+
+    const minLng = Math.max(-180, lng - lngSpan / 2);
+    const maxLng = Math.min(180, lng + lngSpan / 2);
+    const minLat = Math.max(ARCTIC_SOUTH, lat - latSpan / 2);
+    const maxLat = Math.min(ARCTIC_NORTH, lat + latSpan / 2);
+
+    if (minLng >= maxLng || minLat >= maxLat) return null;
+    return [minLng, minLat, maxLng, maxLat];
+};
+
+// Scans are exported as square images in Web Mercator; georeference.ts maps model pixels back with the same frame.
+export const IMAGERY_SIZE_PX = 512;
+
+export const buildImageryUrl = (bbox: BBox) =>
+    `https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/export?bbox=${bbox.join(',')}&bboxSR=4326&imageSR=3857&size=${IMAGERY_SIZE_PX},${IMAGERY_SIZE_PX}&format=jpg&f=image`;
+
+const createPatrolSatellite = (
+    id: string,
+    name: string,
+    color: string,
+    patrol: PatrolRoute,
+    scanOffsetTicks: number
+): Satellite => {
+    const [start, next] = patrol.waypoints;
+    const position: SatellitePosition = {
+        lat: start.lat,
+        lng: start.lng,
+        heading: initialBearing(start.lat, start.lng, next.lat, next.lng),
+        dataRate: 500.0,
+        stepIndex: 0,
+    };
+    return {
+        id,
+        name,
+        color,
+        position,
+        tle: null,
+        patrol,
+        patrolDirection: 'forward',
+        legIndex: 0,
+        missionId: null,
+        priorityAreas: [],
+        scanIntervalTicks: 90,
+        scanOffsetTicks,
+        imageIntervalTicks: 60,
+        currentImage: buildImageryUrl(computeScanBBox(position.lat, position.lng)!),
+        status: 'Ожидание',
+    };
+};
+
+/**
+ * The mission's CubeSats with their default patrol routes. The first one flies the original
+ * East Greenland route; TLEs can be assigned to any of them at runtime.
+ */
+export const createDefaultConstellation = (): Satellite[] => [
+    // Start: 70°43'01.7"N 21°36'10.6"W, end: southeast corner
+    createPatrolSatellite('sat-1', 'АРКТИКА-1', '#ef4444', { waypoints: [{ lat: 70.7171, lng: -21.6029 }, { lat: 70.0, lng: -20.0 }] }, 0),
+    // Beaufort Sea shelf
+    createPatrolSatellite('sat-2', 'АРКТИКА-2', '#3b82f6', { waypoints: [{ lat: 71.2, lng: -140.0 }, { lat: 70.6, lng: -137.5 }] }, 30),
+    // Baffin Bay
+    createPatrolSatellite('sat-3', 'АРКТИКА-3', '#22c55e', { waypoints: [{ lat: 74.5, lng: -66.0 }, { lat: 73.8, lng: -63.0 }] }, 60),
+];
+
+type PatrolDirection = 'forward' | 'backward';
+
+/**
+ * The patrol a satellite flies when no mission route is assigned.
+ */
+export const getDefaultPatrol = (satelliteId: string): PatrolRoute | undefined =>
+    createDefaultConstellation().find(sat => sat.id === satelliteId)?.patrol;
+
+// Endpoints of the current leg in the direction of travel.
+const getLegEndpoints = (patrol: PatrolRoute, legIndex: number, direction: PatrolDirection): [LatLng, LatLng] => {
+    const a = patrol.waypoints[legIndex];
+    const b = patrol.waypoints[legIndex + 1];
+    return direction === 'forward' ? [a, b] : [b, a];
+};
+
+// Moves the patrol one tick along the current leg. At the end of a leg it continues with the next one,
+// and at the last waypoint it turns around and flies the route back.
+const advancePatrolPosition = (
+    prev: SatellitePosition,
+    patrol: PatrolRoute,
+    legIndex: number,
+    direction: PatrolDirection,
+    dataRate: number
+): { position: SatellitePosition; legIndex: number; direction: PatrolDirection } => {
+    const INTERVAL_H = SIMULATION_INTERVAL_MS / 3600000; // 1000 мс → 1/3600 часа
+    const lastLeg = patrol.waypoints.length - 2;
+    const currentLeg = Math.min(Math.max(legIndex, 0), lastLeg);
+
+    // === Текущие точки: зависят от участка и направления ===
+    const isForward = direction === 'forward';
+    const [startPoint, endPoint] = getLegEndpoints(patrol, currentLeg, direction);
+
+    // === Дельты (от старта к концу) ===
+    const dLat = endPoint.lat - startPoint.lat;
+    let dLng = endPoint.lng - startPoint.lng;
+    dLng = ((dLng + 180) % 360 + 360) % 360 - 180; // Кратчайший путь
+
+    // === Расстояние (км) ===
+    const avgLat = (startPoint.lat + endPoint.lat) / 2;
+    const cosLat = Math.cos(avgLat * Math.PI / 180);
+    const distKm = Math.hypot(dLat * 111.32, dLng * 111.32 * cosLat);
+
+    // === Шагов на участок ===
+    const totalSteps = Math.max(1, Math.ceil(distKm / (PATROL_SPEED_KPH * INTERVAL_H)));
+
+    // === Шаг ===
+    let step = (prev.stepIndex ?? 0) + 1;
+
+    // === Переход на следующий участок или разворот ===
+    let nextDirection = direction;
+    let nextLeg = currentLeg;
+    if (step >= totalSteps) {
+      step = 0;
+      if (isForward && currentLeg < lastLeg) {
+        nextLeg = currentLeg + 1;
+      } else if (!isForward && currentLeg > 0) {
+        nextLeg = currentLeg - 1;
+      } else {
+        nextDirection = isForward ? 'backward' : 'forward';
+      }
+    }
+
+    // === Прогресс (0..1) ===
+    const progress = step / totalSteps;
+
+    // === Координаты: линейная интерполяция от start → end ===
+    const lat = startPoint.lat + dLat * progress;
+    let lng = startPoint.lng + dLng * progress;
+    lng = ((lng + 180) % 360 + 360) % 360 - 180; // Нормализация
+
+    // === Курс: по направлению участка ===
+    const heading = initialBearing(startPoint.lat, startPoint.lng, endPoint.lat, endPoint.lng);
+
+    return { position: { lat, lng, heading, dataRate, stepIndex: step }, legIndex: nextLeg, direction: nextDirection };
+};
+
+/**
+ * Moves a satellite one tick: SGP4 propagation at the model time when it has a TLE, otherwise its patrol route.
+ * Returns the satellite unchanged if propagation fails.
+ */
+export const advanceSatellite = (satellite: Satellite, simulationTime: number): Satellite => {
+    const dataRate = 500 + (Math.random() - 0.5) * 50;
+    if (satellite.tle) {
+        const state = propagateOrbit(getOrbit(satellite.tle), new Date(simulationTime));
+        if (!state) return satellite;
+        return {
+            ...satellite,
+            position: { lat: state.lat, lng: state.lng, heading: state.heading, altitude: state.altitudeKm, dataRate },
+        };
+    }
+    const patrol = advancePatrolPosition(satellite.position, satellite.patrol, satellite.legIndex, satellite.patrolDirection, dataRate);
+    return { ...satellite, position: patrol.position, legIndex: patrol.legIndex, patrolDirection: patrol.direction };
+};
+
+/**
+ * Resets a satellite to the start of its trajectory before a new simulation run.
+ */
+export const resetSatellite = (satellite: Satellite, simulationTime: number): Satellite => {
+    if (satellite.tle) {
+        return { ...advanceSatellite(satellite, simulationTime), status: 'Ожидание' };
+    }
+    const [start, next] = satellite.patrol.waypoints;
+    return {
+        ...satellite,
+        position: { ...satellite.position, lat: start.lat, lng: start.lng, heading: initialBearing(start.lat, start.lng, next.lat, next.lng), stepIndex: 0, altitude: undefined },
+        patrolDirection: 'forward',
+        legIndex: 0,
+        status: 'Ожидание',
+    };
+};
+
+/**
+ * Decides whether a satellite images and analyses on this tick. Inside a mission priority area
+ * the analysis cadence tightens to PRIORITY_SCAN_INTERVAL_TICKS.
+ */
+export const getScanSchedule = (satellite: Satellite, tick: number) => {
+    const shifted = tick + satellite.scanOffsetTicks;
+    const scanInterval = isInPriorityArea(satellite)
+        ? Math.min(PRIORITY_SCAN_INTERVAL_TICKS, satellite.scanIntervalTicks)
+        : satellite.scanIntervalTicks;
+    return {
+        shouldAnalyze: shifted > 0 && shifted % scanInterval === 0,
+        shouldUpdateImage: (shifted - 1) % satellite.imageIntervalTicks === 0,
+    };
+};
@@ -0,0 +1,100 @@
+import { BBox } from "../types";
+import { getSeaRegion, SEA_REGION_NAMES } from "./seaRegions";
+
+// Cells are roughly 28 × 28 km at 70° N, slightly smaller than one 35 km scan footprint.
+export const COVERAGE_CELL_LAT_DEG = 0.25;
+export const COVERAGE_CELL_LNG_DEG = 0.75;
+
+export interface CoverageCell {
+  key: string;
+  /** [[south, west], [north, east]] as Leaflet expects. */
+  bounds: [[number, number], [number, number]];
+  region: string;
+  /** Number of separate passes over the cell; consecutive ticks over the same cell are one pass. */
+  passes: number;
+  lastSeen: number;
+  lastTick: number;
+  /** Longest time between the end of one pass and the start of the next. */
+  maxGapMs: number;
+}
+
+/** Coverage cells keyed by grid row and column. Mutated in place by the simulation loop. */
+export type CoverageGrid = Map<string, CoverageCell>;
+
+export interface RegionCoverage {
+  region: string;
+  cells: number;
+  passes: number;
+  lastSeen: number;
+  /** Largest revisit gap in the region, including the time since the last pass of its stalest cell. */
+  maxRevisitGapMs: number;
+}
+
+const createCell = (row: number, col: number): CoverageCell => {
+  const south = row * COVERAGE_CELL_LAT_DEG;
+  const west = col * COVERAGE_CELL_LNG_DEG;
+  const north = south + COVERAGE_CELL_LAT_DEG;
+  const east = west + COVERAGE_CELL_LNG_DEG;
+  return {
+    key: `${row}:${col}`,
+    bounds: [[south, west], [north, east]],
+    region: getSeaRegion((south + north) / 2, (west + east) / 2),
+    passes: 0,
+    lastSeen: 0,
+    lastTick: -Infinity,
+    maxGapMs: 0,
+  };
+};
+
+/**
+ * Marks every grid cell touched by a scan footprint as seen at `time`.
+ * Several satellites over the same cell on one tick count as a single pass.
+ */
+export const recordFootprint = (grid: CoverageGrid, bbox: BBox, time: number, tick: number): void => {
+  const [minLng, minLat, maxLng, maxLat] = bbox;
+  const rowFrom = Math.floor(minLat / COVERAGE_CELL_LAT_DEG);
+  const rowTo = Math.floor(maxLat / COVERAGE_CELL_LAT_DEG);
+  const colFrom = Math.floor(minLng / COVERAGE_CELL_LNG_DEG);
+  const colTo = Math.floor(maxLng / COVERAGE_CELL_LNG_DEG);
+
+  for (let row = rowFrom; row <= rowTo; row++) {
+    for (let col = colFrom; col <= colTo; col++) {
+      const key = `${row}:${col}`;
+      let cell = grid.get(key);
+      if (!cell) {
+        cell = createCell(row, col);
+        grid.set(key, cell);
+      }
+      if (cell.lastTick === tick) continue;
+      if (cell.lastTick !== tick - 1) {
+        if (cell.passes > 0) cell.maxGapMs = Math.max(cell.maxGapMs, time - cell.lastSeen);
+        cell.passes += 1;
+      }
+      cell.lastSeen = time;
+      cell.lastTick = tick;
+    }
+  }
+};
+
+/**
+ * Copies the grid into an array suitable for rendering.
+ */
+export const snapshotCoverage = (grid: CoverageGrid): CoverageCell[] =>
+  Array.from(grid.values(), cell => ({ ...cell }));
+
+/**
+ * Aggregates coverage per sea region. Regions that have never been imaged are listed with zero cells.
+ */
+export const summarizeCoverageByRegion = (cells: CoverageCell[], now: number): RegionCoverage[] => {
+  const byRegion = new Map<string, RegionCoverage>(
+    SEA_REGION_NAMES.map(region => [region, { region, cells: 0, passes: 0, lastSeen: 0, maxRevisitGapMs: 0 }])
+  );
+  cells.forEach(cell => {
+    const summary = byRegion.get(cell.region)!;
+    summary.cells += 1;
+    summary.passes += cell.passes;
+    summary.lastSeen = Math.max(summary.lastSeen, cell.lastSeen);
+    summary.maxRevisitGapMs = Math.max(summary.maxRevisitGapMs, cell.maxGapMs, now - cell.lastSeen);
+  });
+  return Array.from(byRegion.values());
+};
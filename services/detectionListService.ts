@@ -0,0 +1,60 @@
+import { PollutionData } from '../types';
+import { DetectionMeasures } from './measurementService';
+
+export type DetectionSortKey = 'time' | 'confidence' | 'hazard' | 'area';
+export type SortDirection = 'asc' | 'desc';
+
+export interface DetectionSort {
+  key: DetectionSortKey;
+  direction: SortDirection;
+}
+
+export const DEFAULT_DETECTION_SORT: DetectionSort = { key: 'time', direction: 'desc' };
+
+const HAZARD_RANK: Record<PollutionData['hazardLevel'], number> = { 'Низкий': 0, 'Средний': 1, 'Высокий': 2 };
+
+const sortValue = (p: PollutionData, key: DetectionSortKey, measures: Map<string, DetectionMeasures>): number => {
+  switch (key) {
+    case 'time': return p.timestamp;
+    case 'confidence': return p.confidence;
+    case 'hazard': return HAZARD_RANK[p.hazardLevel];
+    case 'area': return measures.get(p.id)?.areaKm2 ?? 0;
+  }
+};
+
+/** Sorted copy of the detections; ties keep the newest detection first. */
+export const sortDetections = (
+  data: PollutionData[],
+  sort: DetectionSort,
+  measures: Map<string, DetectionMeasures>
+): PollutionData[] => {
+  const sign = sort.direction === 'asc' ? 1 : -1;
+  return data
+    .map(p => ({ p, value: sortValue(p, sort.key, measures) }))
+    .sort((a, b) => sign * (a.value - b.value) || b.p.timestamp - a.p.timestamp)
+    .map(({ p }) => p);
+};
+
+/** Clicking the active column flips its direction; a new column starts with the largest values. */
+export const toggleSort = (sort: DetectionSort, key: DetectionSortKey): DetectionSort =>
+  sort.key === key ? { key, direction: sort.direction === 'asc' ? 'desc' : 'asc' } : { key, direction: 'desc' };
+
+/**
+ * Detections whose text attributes contain every word of the query, case-insensitively:
+ * id, type, hazard, impact area, source, file name, sea and review reason.
+ */
+export const searchDetections = (
+  data: PollutionData[],
+  query: string,
+  measures: Map<string, DetectionMeasures>
+): PollutionData[] => {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return data;
+  return data.filter(p => {
+    const text = [p.id, p.type, p.hazardLevel, p.impactArea, p.source, p.sourceName, measures.get(p.id)?.sea, p.reviewReason]
+      .filter(Boolean)
+      .join(' ')
+      .toLowerCase();
+    return words.every(word => text.includes(word));
+  });
+};
@@ -0,0 +1,102 @@
+import { BBox, PollutionData, SatellitePosition } from "../types";
+import { analyzeImage, GEMINI_MODEL, imageToBase64, PROMPT_VERSION } from "./geminiService";
+import { georeferenceDetections, getImageryFrame } from "./georeference";
+import { analyzeImageLocally, DEFAULT_LOCAL_MODEL_URL } from "./localModelService";
+import { generateMockPollutionData } from "./mockPollutionService";
+
+export type DetectionProviderId = 'gemini' | 'mock' | 'local';
+
+export interface DetectionRequest {
+  imageUrl: string;
+  // The image behind imageUrl as base64 JPEG, when the caller already has it from the analysis cache.
+  image?: string;
+  position: SatellitePosition;
+  // Footprint of the image, [minLng, minLat, maxLng, maxLat]; results are validated against it.
+  bbox: BBox;
+  // Aborted when the operator stops the monitor or the analysis queue is cancelled.
+  signal: AbortSignal;
+}
+
+export interface DetectionProvider {
+  id: DetectionProviderId;
+  label: string;
+  // Metered providers are paid per request and count against the analysis budget.
+  metered: boolean;
+  // Model and prompt version the output depends on; the analysis cache reuses output only under the same
+  // value. Null for providers whose output depends on more than the image pixels.
+  cacheVersion: string | null;
+  // Model output as returned, which is what the analysis cache stores.
+  analyze: (request: DetectionRequest) => Promise<Partial<PollutionData>[]>;
+  // Places model output on the map for the scanned bbox.
+  georeference: (detections: Partial<PollutionData>[], bbox: BBox) => Partial<PollutionData>[];
+}
+
+// For providers that answer in [lng, lat] already.
+const keepCoordinates = (detections: Partial<PollutionData>[]) => detections;
+
+export interface DetectionProviderOptions {
+  localModelUrl: string;
+}
+
+export const DETECTION_PROVIDER_LABELS: Record<DetectionProviderId, string> = {
+  gemini: 'Gemini (облако)',
+  mock: 'Симуляция (без API)',
+  local: 'Локальная модель (HTTP)',
+};
+
+const isProviderId = (value: unknown): value is DetectionProviderId =>
+  typeof value === 'string' && value in DETECTION_PROVIDER_LABELS;
+
+/**
+ * Default provider from build config: DETECTION_PROVIDER wins, otherwise Gemini when an API key
+ * is configured and the mock generator when it is not, so the monitor runs without a key.
+ */
+export const getDefaultProviderId = (): DetectionProviderId => {
+  const configured = process.env.DETECTION_PROVIDER;
+  if (isProviderId(configured)) {
+    return configured;
+  }
+  return process.env.API_KEY ? 'gemini' : 'mock';
+};
+
+export const getDefaultLocalModelUrl = (): string =>
+  process.env.LOCAL_MODEL_URL || DEFAULT_LOCAL_MODEL_URL;
+
+export const createDetectionProvider = (
+  id: DetectionProviderId,
+  options: DetectionProviderOptions
+): DetectionProvider => {
+  switch (id) {
+    case 'gemini':
+      return {
+        id,
+        label: DETECTION_PROVIDER_LABELS[id],
+        // Gemini outlines spills in image pixels, which are placed on the map through the scan's bbox.
+        metered: true,
+        cacheVersion: `${GEMINI_MODEL}:${PROMPT_VERSION}`,
+        analyze: async ({ imageUrl, image, signal }) =>
+          analyzeImage(image ?? await imageToBase64(imageUrl, signal), signal),
+        georeference: (detections, bbox) => georeferenceDetections(detections, getImageryFrame(bbox)),
+      };
+    case 'local':
+      return {
+        id,
+        label: DETECTION_PROVIDER_LABELS[id],
+        metered: false,
+        // The model is sent the position and bbox along with the image, so its answer is not content-addressable.
+        cacheVersion: null,
+        analyze: async ({ imageUrl, image, position, bbox, signal }) =>
+          analyzeImageLocally(image ?? await imageToBase64(imageUrl, signal), options.localModelUrl, position, bbox, signal),
+        georeference: keepCoordinates,
+      };
+    case 'mock':
+      return {
+        id,
+        label: DETECTION_PROVIDER_LABELS[id],
+        metered: false,
+        cacheVersion: null,
+        analyze: async ({ bbox }) => generateMockPollutionData(bbox),
+        georeference: keepCoordinates,
+      };
+  }
+};
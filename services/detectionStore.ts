@@ -0,0 +1,278 @@
+import { Alarm, AlertRule, AnalysisBudget, BBox, CachedAnalysis, CachedImage, FilterPreset, IncidentWorkflow, Mission, PollutionData, WebhookEndpoint } from "../types";
+
+const DB_NAME = 'arctic-pollution-monitor';
+const DB_VERSION = 7;
+const DETECTIONS_STORE = 'detections';
+const WORKFLOWS_STORE = 'incidentWorkflows';
+const MISSIONS_STORE = 'missions';
+const ALERT_RULES_STORE = 'alertRules';
+const WEBHOOKS_STORE = 'webhooks';
+const ALARMS_STORE = 'alarms';
+const FILTER_PRESETS_STORE = 'filterPresets';
+const IMAGERY_CACHE_STORE = 'imageryCache';
+const ANALYSIS_CACHE_STORE = 'analysisCache';
+const ANALYSIS_REQUESTS_STORE = 'analysisRequests';
+// The analysis queue's request history is a single record, rewritten on every metered request;
+// the operator's budget is kept beside it.
+const REQUEST_HISTORY_ID = 'history';
+const REQUEST_BUDGET_ID = 'budget';
+
+export interface DetectionQuery {
+  from?: number;
+  to?: number;
+  bbox?: BBox;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(DETECTIONS_STORE)) {
+          const store = db.createObjectStore(DETECTIONS_STORE, { keyPath: 'id' });
+          store.createIndex('timestamp', 'timestamp');
+        }
+        if (!db.objectStoreNames.contains(WORKFLOWS_STORE)) {
+          db.createObjectStore(WORKFLOWS_STORE, { keyPath: 'incidentId' });
+        }
+        if (!db.objectStoreNames.contains(IMAGERY_CACHE_STORE)) {
+          const store = db.createObjectStore(IMAGERY_CACHE_STORE, { keyPath: 'hash' });
+          store.createIndex('urls', 'urls', { multiEntry: true });
+        }
+        if (!db.objectStoreNames.contains(ANALYSIS_CACHE_STORE)) {
+          const store = db.createObjectStore(ANALYSIS_CACHE_STORE, { keyPath: 'key' });
+          store.createIndex('imageHash', 'imageHash');
+        }
+        for (const name of [MISSIONS_STORE, ALERT_RULES_STORE, WEBHOOKS_STORE, ALARMS_STORE, FILTER_PRESETS_STORE, ANALYSIS_REQUESTS_STORE]) {
+          if (!db.objectStoreNames.contains(name)) {
+            db.createObjectStore(name, { keyPath: 'id' });
+          }
+        }
+      };
+      // Another tab still has the previous version open; the upgrade waits until that tab lets go.
+      request.onblocked = () => {
+        console.warn('Обновление базы данных ожидает закрытия других вкладок приложения.');
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        // Steps aside when a newer version opened in another tab needs to upgrade; the next call reopens it.
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+const putRecords = async (storeName: string, records: unknown[]): Promise<void> => {
+  if (records.length === 0) return;
+  const db = await openDb();
+  const tx = db.transaction(storeName, 'readwrite');
+  const store = tx.objectStore(storeName);
+  records.forEach(r => store.put(r));
+  await transactionDone(tx);
+};
+
+const deleteRecord = async (storeName: string, key: IDBValidKey): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(storeName, 'readwrite');
+  tx.objectStore(storeName).delete(key);
+  await transactionDone(tx);
+};
+
+const getAllRecords = async <T>(storeName: string): Promise<T[]> => {
+  const db = await openDb();
+  const tx = db.transaction(storeName, 'readonly');
+  return requestToPromise<T[]>(tx.objectStore(storeName).getAll());
+};
+
+/**
+ * Returns the bounding box of a detection's outer ring.
+ */
+export const getDetectionBBox = (p: PollutionData): BBox => {
+  let minLng = Infinity, minLat = Infinity, maxLng = -Infinity, maxLat = -Infinity;
+  for (const [lng, lat] of p.geometry.coordinates[0] ?? []) {
+    minLng = Math.min(minLng, lng);
+    minLat = Math.min(minLat, lat);
+    maxLng = Math.max(maxLng, lng);
+    maxLat = Math.max(maxLat, lat);
+  }
+  return [minLng, minLat, maxLng, maxLat];
+};
+
+const bboxIntersects = (a: BBox, b: BBox): boolean =>
+  a[0] <= b[2] && a[2] >= b[0] && a[1] <= b[3] && a[3] >= b[1];
+
+/**
+ * Inserts or updates detections. Records are keyed by their `id`, so saving the same detection twice is safe.
+ */
+export const saveDetections = (detections: PollutionData[]): Promise<void> => putRecords(DETECTIONS_STORE, detections);
+
+/**
+ * Loads detections ordered by timestamp, optionally limited to a time range and a bounding box.
+ * The time range uses the timestamp index; the bbox test is done on the polygon extent.
+ */
+export const queryDetections = async (query: DetectionQuery = {}): Promise<PollutionData[]> => {
+  const db = await openDb();
+  const tx = db.transaction(DETECTIONS_STORE, 'readonly');
+  const index = tx.objectStore(DETECTIONS_STORE).index('timestamp');
+
+  let range: IDBKeyRange | undefined;
+  if (query.from !== undefined && query.to !== undefined) {
+    range = IDBKeyRange.bound(query.from, query.to);
+  } else if (query.from !== undefined) {
+    range = IDBKeyRange.lowerBound(query.from);
+  } else if (query.to !== undefined) {
+    range = IDBKeyRange.upperBound(query.to);
+  }
+
+  const records = await requestToPromise<PollutionData[]>(index.getAll(range));
+  const bbox = query.bbox;
+  return bbox ? records.filter(r => bboxIntersects(getDetectionBBox(r), bbox)) : records;
+};
+
+export const loadDetections = (): Promise<PollutionData[]> => queryDetections();
+
+export const saveIncidentWorkflow = (workflow: IncidentWorkflow): Promise<void> => putRecords(WORKFLOWS_STORE, [workflow]);
+
+export const loadIncidentWorkflows = async (): Promise<Record<string, IncidentWorkflow>> => {
+  const db = await openDb();
+  const tx = db.transaction(WORKFLOWS_STORE, 'readonly');
+  const records = await requestToPromise<IncidentWorkflow[]>(tx.objectStore(WORKFLOWS_STORE).getAll());
+  return Object.fromEntries(records.map(w => [w.incidentId, w]));
+};
+
+export const saveMission = (mission: Mission): Promise<void> => putRecords(MISSIONS_STORE, [mission]);
+
+export const deleteMission = (id: string): Promise<void> => deleteRecord(MISSIONS_STORE, id);
+
+/**
+ * Loads saved mission plans, oldest first.
+ */
+export const loadMissions = async (): Promise<Mission[]> => {
+  const records = await getAllRecords<Mission>(MISSIONS_STORE);
+  return records.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const saveAlertRule = (rule: AlertRule): Promise<void> => putRecords(ALERT_RULES_STORE, [rule]);
+
+export const deleteAlertRule = (id: string): Promise<void> => deleteRecord(ALERT_RULES_STORE, id);
+
+export const loadAlertRules = async (): Promise<AlertRule[]> => {
+  const records = await getAllRecords<AlertRule>(ALERT_RULES_STORE);
+  return records.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const saveWebhook = (webhook: WebhookEndpoint): Promise<void> => putRecords(WEBHOOKS_STORE, [webhook]);
+
+export const deleteWebhook = (id: string): Promise<void> => deleteRecord(WEBHOOKS_STORE, id);
+
+export const loadWebhooks = (): Promise<WebhookEndpoint[]> => getAllRecords<WebhookEndpoint>(WEBHOOKS_STORE);
+
+export const saveAlarms = (alarms: Alarm[]): Promise<void> => putRecords(ALARMS_STORE, alarms);
+
+/**
+ * Loads alarms, newest first.
+ */
+export const loadAlarms = async (): Promise<Alarm[]> => {
+  const records = await getAllRecords<Alarm>(ALARMS_STORE);
+  return records.sort((a, b) => b.timestamp - a.timestamp);
+};
+
+export const saveFilterPreset = (preset: FilterPreset): Promise<void> => putRecords(FILTER_PRESETS_STORE, [preset]);
+
+export const deleteFilterPreset = (id: string): Promise<void> => deleteRecord(FILTER_PRESETS_STORE, id);
+
+export const loadFilterPresets = async (): Promise<FilterPreset[]> => {
+  const records = await getAllRecords<FilterPreset>(FILTER_PRESETS_STORE);
+  return records.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const findCachedImage = async (url: string): Promise<CachedImage | undefined> => {
+  const db = await openDb();
+  const tx = db.transaction(IMAGERY_CACHE_STORE, 'readonly');
+  return requestToPromise<CachedImage | undefined>(tx.objectStore(IMAGERY_CACHE_STORE).index('urls').get(url));
+};
+
+export const loadCachedImages = (): Promise<CachedImage[]> => getAllRecords<CachedImage>(IMAGERY_CACHE_STORE);
+
+export const saveCachedImage = (image: CachedImage): Promise<void> => putRecords(IMAGERY_CACHE_STORE, [image]);
+
+export const findCachedAnalysis = async (key: string): Promise<CachedAnalysis | undefined> => {
+  const db = await openDb();
+  const tx = db.transaction(ANALYSIS_CACHE_STORE, 'readonly');
+  return requestToPromise<CachedAnalysis | undefined>(tx.objectStore(ANALYSIS_CACHE_STORE).get(key));
+};
+
+export const saveCachedAnalysis = (analysis: CachedAnalysis): Promise<void> => putRecords(ANALYSIS_CACHE_STORE, [analysis]);
+
+/**
+ * Removes cached images together with every analysis made of them.
+ */
+export const deleteCachedImages = async (hashes: string[]): Promise<void> => {
+  if (hashes.length === 0) return;
+  const db = await openDb();
+  const tx = db.transaction([IMAGERY_CACHE_STORE, ANALYSIS_CACHE_STORE], 'readwrite');
+  const analyses = tx.objectStore(ANALYSIS_CACHE_STORE);
+  hashes.forEach(hash => {
+    tx.objectStore(IMAGERY_CACHE_STORE).delete(hash);
+    const request = analyses.index('imageHash').getAllKeys(hash);
+    request.onsuccess = () => request.result.forEach(key => analyses.delete(key));
+  });
+  await transactionDone(tx);
+};
+
+export const clearAnalysisCache = async (): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([IMAGERY_CACHE_STORE, ANALYSIS_CACHE_STORE], 'readwrite');
+  tx.objectStore(IMAGERY_CACHE_STORE).clear();
+  tx.objectStore(ANALYSIS_CACHE_STORE).clear();
+  await transactionDone(tx);
+};
+
+/**
+ * Start times of metered analysis requests, kept so that the daily budget survives a page reload.
+ */
+export const saveAnalysisRequestHistory = (starts: number[]): Promise<void> =>
+  putRecords(ANALYSIS_REQUESTS_STORE, [{ id: REQUEST_HISTORY_ID, starts }]);
+
+export const loadAnalysisRequestHistory = async (): Promise<number[]> => {
+  const db = await openDb();
+  const tx = db.transaction(ANALYSIS_REQUESTS_STORE, 'readonly');
+  const record = await requestToPromise<{ starts: number[] } | undefined>(tx.objectStore(ANALYSIS_REQUESTS_STORE).get(REQUEST_HISTORY_ID));
+  return record?.starts ?? [];
+};
+
+export const saveAnalysisBudget = (budget: AnalysisBudget): Promise<void> =>
+  putRecords(ANALYSIS_REQUESTS_STORE, [{ id: REQUEST_BUDGET_ID, ...budget }]);
+
+// Null until the operator has changed the budget.
+export const loadAnalysisBudget = async (): Promise<AnalysisBudget | null> => {
+  const db = await openDb();
+  const tx = db.transaction(ANALYSIS_REQUESTS_STORE, 'readonly');
+  const record = await requestToPromise<AnalysisBudget | undefined>(tx.objectStore(ANALYSIS_REQUESTS_STORE).get(REQUEST_BUDGET_ID));
+  return record ? { requestsPerMinute: record.requestsPerMinute, requestsPerDay: record.requestsPerDay } : null;
+};
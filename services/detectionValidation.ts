@@ -0,0 +1,95 @@
+import { BBox, PollutionData } from "../types";
+import { FILTER_OPTIONS } from "./filterService";
+
+// Vertices may stick out of the image by this share of its width or height, for outlines traced to the edge.
+const BBOX_TOLERANCE = 0.05;
+
+/** Fields of a model detection that passed validation; the rest of PollutionData is filled in by the caller. */
+export type ValidatedDetection = Pick<PollutionData, 'type' | 'confidence' | 'hazardLevel' | 'geometry'> & {
+  // Kept only to report disagreement with the coastline mask, which decides the impact area.
+  impactArea?: PollutionData['impactArea'];
+};
+
+export type DetectionValidationResult =
+  | { valid: true; detection: ValidatedDetection }
+  | { valid: false; reason: string };
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isOneOf = <T extends string>(value: unknown, options: readonly T[]): value is T =>
+  typeof value === 'string' && (options as readonly string[]).includes(value);
+
+const isPosition = (c: unknown): c is number[] =>
+  Array.isArray(c) && c.length >= 2 && Number.isFinite(c[0]) && Number.isFinite(c[1]);
+
+const ringInside = (ring: number[][], [minLng, minLat, maxLng, maxLat]: BBox): boolean => {
+  const lngMargin = (maxLng - minLng) * BBOX_TOLERANCE;
+  const latMargin = (maxLat - minLat) * BBOX_TOLERANCE;
+  return ring.every(([lng, lat]) =>
+    lng >= minLng - lngMargin && lng <= maxLng + lngMargin && lat >= minLat - latMargin && lat <= maxLat + latMargin);
+};
+
+const validateRing = (geometry: unknown, bbox: BBox): number[][] | string => {
+  if (!isRecord(geometry) || geometry.type !== 'Polygon' || !Array.isArray(geometry.coordinates)) {
+    return 'геометрия должна быть объектом Polygon';
+  }
+  const ring = geometry.coordinates[0];
+  if (!Array.isArray(ring) || ring.length < 4) return 'контур содержит меньше трёх вершин';
+  if (!ring.every(isPosition)) return 'вершины контура должны быть парами чисел [долгота, широта]';
+  const points = ring.map(c => [c[0], c[1]]);
+  const first = points[0];
+  const last = points[points.length - 1];
+  if (first[0] !== last[0] || first[1] !== last[1]) return 'контур не замкнут: первая и последняя вершины различаются';
+  if (new Set(points.slice(1).map(p => p.join(','))).size < 3) return 'контур вырожден: меньше трёх различных вершин';
+
+  // A model answering [lat, lng] puts Arctic latitudes (66–90) into the longitude slot; the outline then
+  // misses the image but fits it once swapped, or shows a "latitude" beyond ±90.
+  const swapped = points.map(([lng, lat]) => [lat, lng]);
+  const outOfRange = points.some(([lng, lat]) => Math.abs(lng) > 180 || Math.abs(lat) > 90);
+  if (!ringInside(points, bbox)) {
+    if (ringInside(swapped, bbox)) return 'перепутаны широта и долгота';
+    if (outOfRange) return 'координаты вне допустимого диапазона';
+    return 'контур выходит за границы снимка';
+  }
+  return points;
+};
+
+/**
+ * Checks one detection from a model response: enum fields must hold values of the PollutionData unions,
+ * confidence must be a number in [0, 1], and the outline must be a closed ring of [lng, lat] pairs lying
+ * within the scanned image. Nothing is defaulted; a failing detection comes back with the reason.
+ */
+export const validateDetection = (raw: unknown, bbox: BBox): DetectionValidationResult => {
+  if (!isRecord(raw)) return { valid: false, reason: 'обнаружение не является объектом' };
+
+  if (!isOneOf(raw.type, FILTER_OPTIONS.type)) {
+    return { valid: false, reason: raw.type === undefined ? 'не указан тип загрязнения' : `неизвестный тип загрязнения «${String(raw.type)}»` };
+  }
+  if (typeof raw.confidence !== 'number' || !Number.isFinite(raw.confidence)) {
+    return { valid: false, reason: 'уверенность не указана или не является числом' };
+  }
+  if (raw.confidence < 0 || raw.confidence > 1) {
+    return { valid: false, reason: `уверенность ${raw.confidence} вне диапазона 0–1` };
+  }
+  if (!isOneOf(raw.hazardLevel, FILTER_OPTIONS.hazardLevel)) {
+    return { valid: false, reason: raw.hazardLevel === undefined ? 'не указан уровень опасности' : `неизвестный уровень опасности «${String(raw.hazardLevel)}»` };
+  }
+  if (raw.impactArea !== undefined && !isOneOf(raw.impactArea, FILTER_OPTIONS.impactArea)) {
+    return { valid: false, reason: `неизвестная область воздействия «${String(raw.impactArea)}»` };
+  }
+
+  const ring = validateRing(raw.geometry, bbox);
+  if (typeof ring === 'string') return { valid: false, reason: ring };
+
+  return {
+    valid: true,
+    detection: {
+      type: raw.type,
+      confidence: raw.confidence,
+      hazardLevel: raw.hazardLevel,
+      impactArea: raw.impactArea as PollutionData['impactArea'] | undefined,
+      geometry: { type: 'Polygon', coordinates: [ring] },
+    },
+  };
+};
@@ -0,0 +1,165 @@
+import { ringCentroid } from "./geometry";
+import { GridGeometry, isFiniteNumber, readGridFile } from "./gridReader";
+
+// Forecast horizons offered in the time selector, in hours after the latest observation.
+export const FORECAST_HOURS = [6, 12, 24];
+
+// Surface oil moves with the current plus about 3 % of the 10 m wind.
+const WIND_DRIFT_FACTOR = 0.03;
+// Horizontal diffusivity used for the spreading of the slick, m²/s.
+const SPREADING_DIFFUSIVITY = 10;
+const INTEGRATION_STEP_S = 1800;
+const METERS_PER_DEG_LAT = 111320;
+
+export type VectorGridKind = 'wind' | 'current';
+
+/**
+ * Regular lat/lng grid of eastward (u) and northward (v) velocities in m/s.
+ */
+export interface VectorGrid extends GridGeometry {
+  kind: VectorGridKind;
+  name: string;
+  u: number[];
+  v: number[];
+}
+
+export interface DriftFields {
+  wind: VectorGrid;
+  current: VectorGrid;
+}
+
+export interface DriftForecast {
+  incidentId: string;
+  hours: number;
+  /** Forecast outline as a closed [lng, lat] ring. */
+  ring: number[][];
+}
+
+/**
+ * Parses a gridded wind or current field from JSON. Throws an Error with a user-facing message
+ * when the file does not describe a complete grid.
+ */
+export const parseVectorGrid = (text: string, fileName: string): VectorGrid => {
+  const { kind, geometry, readNodeValues } = readGridFile<VectorGridKind>(text, fileName, ['wind', 'current']);
+  return {
+    kind,
+    name: fileName,
+    ...geometry,
+    u: readNodeValues('u', isFiniteNumber, 'чисел'),
+    v: readNodeValues('v', isFiniteNumber, 'чисел'),
+  };
+};
+
+const buildGrid = (kind: VectorGridKind, name: string, velocity: (lat: number, lng: number) => [number, number]): VectorGrid => {
+  const grid: VectorGrid = { kind, name, lat0: 60, lng0: -180, dLat: 1, dLng: 2, nLat: 31, nLng: 181, u: [], v: [] };
+  for (let row = 0; row < grid.nLat; row++) {
+    for (let col = 0; col < grid.nLng; col++) {
+      const [u, v] = velocity(grid.lat0 + row * grid.dLat, grid.lng0 + col * grid.dLng);
+      grid.u.push(u);
+      grid.v.push(v);
+    }
+  }
+  return grid;
+};
+
+/**
+ * Synthetic polar easterlies with a weaker southerly component, ~6–8 m/s. For testing only.
+ */
+export const createSyntheticWind = (): VectorGrid =>
+  buildGrid('wind', 'Синтетический ветер', (lat, lng) => {
+    const phase = lng * Math.PI / 180;
+    return [-6 + 2 * Math.sin(phase * 2), 2 * Math.cos(phase) * Math.cos((lat - 60) * Math.PI / 60)];
+  });
+
+/**
+ * Synthetic surface currents: a clockwise Beaufort-like gyre west of 100° W and a transpolar drift
+ * towards Fram Strait elsewhere, ~0.1–0.3 m/s. For testing only.
+ */
+export const createSyntheticCurrent = (): VectorGrid =>
+  buildGrid('current', 'Синтетическое течение', (lat, lng) => {
+    if (lng < -100 && lat < 80) {
+      const dLat = lat - 74;
+      const dLng = (lng + 145) * Math.cos(74 * Math.PI / 180);
+      return [0.03 * dLat, -0.03 * dLng];
+    }
+    // Flow from the Siberian shelf across the pole towards 0° E.
+    const phase = lng * Math.PI / 180;
+    return [-0.15 * Math.sin(phase), -0.15 * Math.cos(phase)];
+  });
+
+export const createSyntheticFields = (): DriftFields => ({
+  wind: createSyntheticWind(),
+  current: createSyntheticCurrent(),
+});
+
+/**
+ * Bilinear interpolation of a grid at a point. Points outside the grid have zero velocity;
+ * global grids wrap around in longitude.
+ */
+export const sampleGrid = (grid: VectorGrid, lat: number, lng: number): [number, number] => {
+  const isGlobal = grid.nLng * grid.dLng >= 360;
+  let x = (lng - grid.lng0) / grid.dLng;
+  if (isGlobal) x = ((x % grid.nLng) + grid.nLng) % grid.nLng;
+  const y = (lat - grid.lat0) / grid.dLat;
+  if (y < 0 || y > grid.nLat - 1 || x < 0 || (!isGlobal && x > grid.nLng - 1)) return [0, 0];
+
+  const row = Math.min(Math.floor(y), grid.nLat - 2);
+  const col = Math.floor(x);
+  const nextCol = isGlobal ? (col + 1) % grid.nLng : Math.min(col + 1, grid.nLng - 1);
+  const fy = y - row;
+  const fx = x - col;
+  const at = (values: number[], r: number, c: number) => values[r * grid.nLng + c];
+  const interpolate = (values: number[]) =>
+    at(values, row, col) * (1 - fx) * (1 - fy) + at(values, row, nextCol) * fx * (1 - fy) +
+    at(values, row + 1, col) * (1 - fx) * fy + at(values, row + 1, nextCol) * fx * fy;
+  return [interpolate(grid.u), interpolate(grid.v)];
+};
+
+const moveByMeters = ([lng, lat]: number[], east: number, north: number): number[] => {
+  const nextLat = Math.max(-89.9, Math.min(89.9, lat + north / METERS_PER_DEG_LAT));
+  let nextLng = lng + east / (METERS_PER_DEG_LAT * Math.cos(nextLat * Math.PI / 180));
+  nextLng = ((nextLng + 180) % 360 + 360) % 360 - 180;
+  return [nextLng, nextLat];
+};
+
+/**
+ * Forecasts the outline of an oil slick at the requested horizons. Each vertex is advected by the
+ * local current plus the wind drift (so the slick can shear and stretch), and the outline is pushed
+ * away from its centroid by the diffusive spreading distance sqrt(4·K·t).
+ */
+export const forecastSlick = (ring: number[][], fields: DriftFields, hours: number[]): { hours: number; ring: number[][] }[] => {
+  const open = ring.length > 1 && ring[0][0] === ring[ring.length - 1][0] && ring[0][1] === ring[ring.length - 1][1]
+    ? ring.slice(0, -1)
+    : ring;
+  const sorted = [...hours].sort((a, b) => a - b);
+  const results: { hours: number; ring: number[][] }[] = [];
+
+  let vertices = open.map(p => [...p]);
+  let elapsedS = 0;
+  for (const horizon of sorted) {
+    const targetS = horizon * 3600;
+    while (elapsedS < targetS) {
+      const dt = Math.min(INTEGRATION_STEP_S, targetS - elapsedS);
+      vertices = vertices.map(p => {
+        const [cu, cv] = sampleGrid(fields.current, p[1], p[0]);
+        const [wu, wv] = sampleGrid(fields.wind, p[1], p[0]);
+        return moveByMeters(p, (cu + WIND_DRIFT_FACTOR * wu) * dt, (cv + WIND_DRIFT_FACTOR * wv) * dt);
+      });
+      elapsedS += dt;
+    }
+
+    const spreadM = Math.sqrt(4 * SPREADING_DIFFUSIVITY * targetS);
+    const [cLng, cLat] = ringCentroid(vertices);
+    const cosLat = Math.cos(cLat * Math.PI / 180);
+    const spread = vertices.map(p => {
+      let dLng = p[0] - cLng;
+      dLng = ((dLng + 180) % 360 + 360) % 360 - 180;
+      const east = dLng * METERS_PER_DEG_LAT * cosLat;
+      const north = (p[1] - cLat) * METERS_PER_DEG_LAT;
+      const distance = Math.hypot(east, north) || 1;
+      return moveByMeters(p, east / distance * spreadM, north / distance * spreadM);
+    });
+    results.push({ hours: horizon, ring: [...spread, spread[0]] });
+  }
+  return results;
+};
@@ -0,0 +1,196 @@
+import { ExportFormat, FilterCategory, Filters, PollutionData } from "../types";
+import { POLLUTION_COLORS } from "../constants";
+import { polygonGeodesicAreaKm2, polygonPerimeterKm, ringCentroid } from "./geometry";
+
+export interface ExportMetadata {
+  exportedAt: string;
+  count: number;
+  // How the exported detections were chosen: by the active filters or checked by hand in the list.
+  selection: 'filters' | 'manual';
+  // Null for a manual selection, which does not follow the filters.
+  filters: Filters | null;
+  description: string;
+}
+
+const MANUAL_SELECTION_DESCRIPTION = 'выбраны вручную в списке обнаружений';
+
+const FILTER_LABELS: Record<FilterCategory, string> = {
+  type: 'Тип',
+  hazardLevel: 'Опасность',
+  impactArea: 'Область',
+  status: 'Статус',
+  size: 'Размер',
+  proximity: 'Близость к зонам',
+};
+
+const FILE_EXTENSIONS: Record<ExportFormat, string> = { geojson: 'geojson', kml: 'kml', csv: 'csv' };
+const MIME_TYPES: Record<ExportFormat, string> = {
+  geojson: 'application/geo+json',
+  kml: 'application/vnd.google-earth.kml+xml',
+  csv: 'text/csv',
+};
+
+// How long the object URL of a download stays valid after the click.
+const DOWNLOAD_URL_LIFETIME_MS = 10 * 1000;
+
+const formatFilterTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString('ru-RU', { day: '2-digit', month: '2-digit', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+export const describeFilters = (filters: Filters): string => {
+  const parts = (Object.keys(FILTER_LABELS) as FilterCategory[])
+    .filter(key => filters[key].length > 0)
+    .map(key => `${FILTER_LABELS[key]}: ${filters[key].join(', ')}`);
+  if (filters.timeFrom !== null || filters.timeTo !== null) {
+    const from = filters.timeFrom !== null ? `с ${formatFilterTime(filters.timeFrom)}` : '';
+    const to = filters.timeTo !== null ? `по ${formatFilterTime(filters.timeTo)}` : '';
+    parts.push(`Период: ${[from, to].filter(Boolean).join(' ')}`);
+  }
+  if (filters.confidenceMin > 0 || filters.confidenceMax < 1) {
+    parts.push(`Уверенность: ${Math.round(filters.confidenceMin * 100)}–${Math.round(filters.confidenceMax * 100)}%`);
+  }
+  if (filters.minAreaKm2 > 0) parts.push(`Площадь от ${filters.minAreaKm2} км²`);
+  if (filters.area) parts.push(`Область на карте (вершин: ${filters.area.length - 1})`);
+  return parts.length > 0 ? parts.join('; ') : 'без фильтров';
+};
+
+const getAttributes = (p: PollutionData) => {
+  const ring = p.geometry.coordinates[0] ?? [];
+  const [centroidLng, centroidLat] = ringCentroid(ring);
+  return {
+    id: p.id,
+    type: p.type,
+    confidence: p.confidence,
+    hazardLevel: p.hazardLevel,
+    impactArea: p.impactArea,
+    timestamp: new Date(p.timestamp).toISOString(),
+    centroidLat,
+    centroidLng,
+    areaKm2: polygonGeodesicAreaKm2(p.geometry.coordinates),
+    perimeterKm: polygonPerimeterKm(p.geometry.coordinates),
+    source: p.source ?? '',
+    sourceName: p.sourceName ?? '',
+    satelliteId: p.satelliteId ?? '',
+    iceConcentration: p.iceConcentration ?? null,
+    reviewReason: p.reviewReason ?? '',
+  };
+};
+
+export const toGeoJSON = (data: PollutionData[], metadata: ExportMetadata): string =>
+  JSON.stringify({
+    type: 'FeatureCollection',
+    metadata,
+    features: data.map(p => ({
+      type: 'Feature',
+      id: p.id,
+      geometry: p.geometry,
+      properties: getAttributes(p),
+    })),
+  }, null, 2);
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// KML colours are aabbggrr.
+const toKmlColor = (hex: string, alpha: string) => {
+  const [r, g, b] = [hex.slice(1, 3), hex.slice(3, 5), hex.slice(5, 7)];
+  return `${alpha}${b}${g}${r}`;
+};
+
+const kmlStyleId = (type: PollutionData['type']) => `pollution-${Object.keys(POLLUTION_COLORS).indexOf(type)}`;
+
+export const toKML = (data: PollutionData[], metadata: ExportMetadata): string => {
+  const styles = (Object.keys(POLLUTION_COLORS) as PollutionData['type'][]).map(type => `
+    <Style id="${kmlStyleId(type)}">
+      <LineStyle><color>${toKmlColor(POLLUTION_COLORS[type], 'ff')}</color><width>2</width></LineStyle>
+      <PolyStyle><color>${toKmlColor(POLLUTION_COLORS[type], '80')}</color></PolyStyle>
+    </Style>`).join('');
+
+  const placemarks = data.map(p => {
+    const attributes = getAttributes(p);
+    const extendedData = Object.entries(attributes)
+      .map(([name, value]) => `<Data name="${name}"><value>${escapeXml(String(value ?? ''))}</value></Data>`)
+      .join('');
+    const coordinates = (p.geometry.coordinates[0] ?? []).map(([lng, lat]) => `${lng},${lat},0`).join(' ');
+    return `
+    <Placemark id="${escapeXml(p.id)}">
+      <name>${escapeXml(p.type)}</name>
+      <styleUrl>#${kmlStyleId(p.type)}</styleUrl>
+      <ExtendedData>${extendedData}</ExtendedData>
+      <Polygon><outerBoundaryIs><LinearRing><coordinates>${coordinates}</coordinates></LinearRing></outerBoundaryIs></Polygon>
+    </Placemark>`;
+  }).join('');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2">
+  <Document>
+    <name>Обнаружения загрязнений (${metadata.count})</name>
+    <description>${escapeXml(`Экспорт ${metadata.exportedAt}. ${metadata.selection === 'filters' ? 'Фильтры' : 'Отбор'}: ${metadata.description}`)}</description>
+    <ExtendedData>
+      <Data name="exportedAt"><value>${metadata.exportedAt}</value></Data>
+      <Data name="count"><value>${metadata.count}</value></Data>
+      <Data name="selection"><value>${metadata.selection}</value></Data>${metadata.filters ? `
+      <Data name="filters"><value>${escapeXml(JSON.stringify(metadata.filters))}</value></Data>` : ''}
+    </ExtendedData>${styles}${placemarks}
+  </Document>
+</kml>
+`;
+};
+
+const escapeCsv = (value: string | number) => {
+  const text = String(value);
+  return /[",\n;]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCSV = (data: PollutionData[], metadata: ExportMetadata): string => {
+  const header = ['id', 'type', 'confidence', 'hazardLevel', 'impactArea', 'timestamp', 'centroidLat', 'centroidLng', 'areaKm2', 'perimeterKm', 'source', 'sourceName', 'satelliteId', 'iceConcentration', 'reviewReason'];
+  const rows = data.map(p => {
+    const a = getAttributes(p);
+    return [a.id, a.type, a.confidence.toFixed(3), a.hazardLevel, a.impactArea, a.timestamp,
+      a.centroidLat.toFixed(5), a.centroidLng.toFixed(5), a.areaKm2.toFixed(3), a.perimeterKm.toFixed(3), a.source, a.sourceName, a.satelliteId,
+      a.iceConcentration === null ? '' : a.iceConcentration.toFixed(2), a.reviewReason]
+      .map(escapeCsv).join(',');
+  });
+  // Metadata precedes the header as one quoted field per line, so readers do not split the filter
+  // description at its commas and semicolons; skip these lines when loading the table.
+  const comments = [
+    `# exportedAt: ${metadata.exportedAt}`,
+    `# count: ${metadata.count}`,
+    `# selection: ${metadata.selection}`,
+    `# ${metadata.selection === 'filters' ? 'filters' : 'description'}: ${metadata.description}`,
+  ].map(line => `"${line.replace(/"/g, '""')}"`);
+  return [...comments, header.join(','), ...rows].join('\n') + '\n';
+};
+
+const SERIALIZERS: Record<ExportFormat, (data: PollutionData[], metadata: ExportMetadata) => string> = {
+  geojson: toGeoJSON,
+  kml: toKML,
+  csv: toCSV,
+};
+
+/**
+ * Serializes detections in the requested format and triggers a browser download. `filters` are the
+ * filters the detections were selected by, or null when they were checked by hand in the list.
+ * Returns the metadata written into the file.
+ */
+export const exportDetections = (format: ExportFormat, data: PollutionData[], filters: Filters | null): ExportMetadata => {
+  const metadata: ExportMetadata = {
+    exportedAt: new Date().toISOString(),
+    count: data.length,
+    selection: filters ? 'filters' : 'manual',
+    filters,
+    description: filters ? describeFilters(filters) : MANUAL_SELECTION_DESCRIPTION,
+  };
+  // CSV gets a BOM so spreadsheet apps read Cyrillic correctly.
+  const content = (format === 'csv' ? '\uFEFF' : '') + SERIALIZERS[format](data, metadata);
+  const blob = new Blob([content], { type: `${MIME_TYPES[format]};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `arctic-pollution-${metadata.exportedAt.replace(/[:.]/g, '-')}.${FILE_EXTENSIONS[format]}`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoking right after the click cancels the download in some browsers (Safari, older Firefox).
+  setTimeout(() => URL.revokeObjectURL(url), DOWNLOAD_URL_LIFETIME_MS);
+  return metadata;
+};
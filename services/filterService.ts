@@ -0,0 +1,111 @@
+import { FilterAreaDrawing, FilterCategory, Filters, IncidentStatus, PollutionData, SensitiveZoneProximity } from '../types';
+import { ringsIntersect } from './geometry';
+import { INCIDENT_STATUSES } from './incidentService';
+import { DetectionMeasures, getSpillSize, SPILL_SIZES } from './measurementService';
+import { getProximityClass, PROXIMITY_CLASSES } from './sensitiveZoneService';
+
+/** Every value each filter category can take, in display order. */
+export const FILTER_OPTIONS: { [K in FilterCategory]: Filters[K] } = {
+  type: ['Химическое', 'Нефтяное', 'Физическое'],
+  hazardLevel: ['Низкий', 'Средний', 'Высокий'],
+  impactArea: ['Вода', 'Побережье', 'Почва'],
+  status: INCIDENT_STATUSES,
+  size: SPILL_SIZES,
+  proximity: PROXIMITY_CLASSES,
+};
+
+export const FILTER_CATEGORIES = Object.keys(FILTER_OPTIONS) as FilterCategory[];
+
+export const EMPTY_FILTERS: Filters = {
+  type: [],
+  hazardLevel: [],
+  impactArea: [],
+  status: [],
+  size: [],
+  proximity: [],
+  timeFrom: null,
+  timeTo: null,
+  area: null,
+  confidenceMin: 0,
+  confidenceMax: 1,
+  minAreaKm2: 0,
+};
+
+/**
+ * Derived per-detection attributes some filters depend on. Pages compute them once per data set and
+ * share them with their other views.
+ */
+export interface FilterContext {
+  statusByDetection: Map<string, IncidentStatus>;
+  measures: Map<string, DetectionMeasures>;
+  proximity: Map<string, SensitiveZoneProximity | null>;
+}
+
+/** Adds the value to the filter category, or removes it when it is already selected. */
+export const toggleFilter = (filters: Filters, category: FilterCategory, value: string): Filters => {
+  const values: string[] = filters[category];
+  const next = values.includes(value) ? values.filter(v => v !== value) : [...values, value];
+  return { ...filters, [category]: next };
+};
+
+/** Number of active constraints: each checked value plus each set range, area and threshold. */
+export const countActiveFilters = (filters: Filters): number =>
+  FILTER_CATEGORIES.reduce((sum, key) => sum + filters[key].length, 0)
+  + (filters.timeFrom !== null || filters.timeTo !== null ? 1 : 0)
+  + (filters.area ? 1 : 0)
+  + (filters.confidenceMin > 0 || filters.confidenceMax < 1 ? 1 : 0)
+  + (filters.minAreaKm2 > 0 ? 1 : 0);
+
+export const hasActiveFilters = (filters: Filters): boolean => countActiveFilters(filters) > 0;
+
+/** Fills fields missing from filters stored by an older version with their defaults. */
+export const normalizeFilters = (filters: Partial<Filters>): Filters => ({ ...EMPTY_FILTERS, ...filters });
+
+// Clicks on a wrapped copy of the world report longitudes outside ±180; detections never do.
+// The whole shape is shifted by one offset so an area drawn across the antimeridian keeps its extent.
+const worldOffset = (lng: number): number => Math.round(lng / 360) * 360;
+
+/**
+ * Closes a finished area drawing into a [lng, lat] ring: two opposite corners for a rectangle,
+ * the clicked vertices for a polygon.
+ */
+export const toFilterAreaRing = ({ shape, points }: FilterAreaDrawing): number[][] => {
+  const ring = shape === 'rectangle' && points.length >= 2
+    ? [[points[0].lng, points[0].lat], [points[1].lng, points[0].lat], [points[1].lng, points[1].lat], [points[0].lng, points[1].lat]]
+    : points.map(p => [p.lng, p.lat]);
+  const offset = ring.length > 0 ? worldOffset(ring[0][0]) : 0;
+  const shifted = ring.map(([lng, lat]) => [lng - offset, lat]);
+  return [...shifted, shifted[0]];
+};
+
+// An area reaching past ±180 is also tested shifted by a full turn, where the detections on the far side are.
+const areaWorldCopies = (area: number[][]): number[][][] => {
+  const lngs = area.map(([lng]) => lng);
+  const copies = [area];
+  if (Math.max(...lngs) > 180) copies.push(area.map(([lng, lat]) => [lng - 360, lat]));
+  if (Math.min(...lngs) < -180) copies.push(area.map(([lng, lat]) => [lng + 360, lat]));
+  return copies;
+};
+
+/**
+ * Detections passing every active filter category; values within a category are alternatives.
+ * Returns the input array itself when no filter is active.
+ */
+export const applyFilters = (data: PollutionData[], filters: Filters, context: FilterContext): PollutionData[] => {
+  if (!hasActiveFilters(filters)) return data;
+  const areaCopies = filters.area ? areaWorldCopies(filters.area) : [];
+  return data.filter(p => {
+    const type = filters.type.length === 0 || filters.type.includes(p.type);
+    const hazard = filters.hazardLevel.length === 0 || filters.hazardLevel.includes(p.hazardLevel);
+    const impact = filters.impactArea.length === 0 || filters.impactArea.includes(p.impactArea);
+    const status = filters.status.length === 0 || filters.status.includes(context.statusByDetection.get(p.id) ?? 'Новый');
+    const areaKm2 = context.measures.get(p.id)?.areaKm2 ?? 0;
+    const size = filters.size.length === 0 || filters.size.includes(getSpillSize(areaKm2));
+    const proximity = filters.proximity.length === 0 || filters.proximity.includes(getProximityClass(context.proximity.get(p.id)));
+    const time = (filters.timeFrom === null || p.timestamp >= filters.timeFrom) && (filters.timeTo === null || p.timestamp <= filters.timeTo);
+    const conf = p.confidence >= filters.confidenceMin && p.confidence <= filters.confidenceMax;
+    const minArea = areaKm2 >= filters.minAreaKm2;
+    const drawn = !filters.area || areaCopies.some(area => ringsIntersect(p.geometry.coordinates[0] ?? [], area));
+    return type && hazard && impact && status && size && proximity && time && conf && minArea && drawn;
+  });
+};
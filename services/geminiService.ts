@@ -1,5 +1,7 @@
 import { GoogleGenAI, Type } from "@google/genai";
 import { PollutionData } from "../types";
+import { createRateLimitError, isAbortError } from "./analysisQueue";
+import { IMAGERY_SIZE_PX } from "./constellationService";
 
 // Lazy initialization for the GoogleGenAI instance to prevent module-level errors on startup.
 // The instance is created only on the first API call.
@@ -12,8 +14,16 @@ const getAi = () => {
     return ai;
 };
 
-export const imageToBase64 = async (imageUrl: string): Promise<string> => {
-  const response = await fetch(imageUrl);
+export const GEMINI_MODEL = "gemini-2.5-flash";
+// Part of the analysis cache key: bump it whenever the prompt or the response schema changes, so that
+// images are analysed afresh instead of reusing answers to the old prompt.
+export const PROMPT_VERSION = 2;
+
+export const imageToBase64 = async (imageUrl: string, signal?: AbortSignal): Promise<string> => {
+  const response = await fetch(imageUrl, { signal });
+  if (!response.ok) {
+    throw new Error(`Снимок недоступен: сервер вернул ошибку ${response.status}.`);
+  }
   const blob = await response.blob();
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
@@ -23,128 +33,117 @@ export const imageToBase64 = async (imageUrl: string): Promise<string> => {
   });
 };
 
-export const analyzeImage = async (base64Image: string): Promise<Partial<PollutionData>[]> => {
-  const model = "gemini-2.5-flash";
+/**
+ * Asks Gemini for pollution outlines in pixel coordinates of the image. The model cannot know where a
+ * frame lies on Earth, so geographic coordinates are left to georeferenceDetections.
+ */
+export const analyzeImage = async (base64Image: string, signal?: AbortSignal): Promise<Partial<PollutionData>[]> => {
   const prompt = `
     Вы — экспертная система анализа спутниковых изображений для мониторинга окружающей среды в Арктике.
     Проанализируйте это изображение на наличие любых потенциальных разливов загрязняющих веществ, таких как нефтяные пятна или химические шлейфы.
     Для каждого обнаружения определите:
     1.  'type': Тип загрязнения (например, 'Нефтяное', 'Химическое').
     2.  'confidence': Ваша уверенность в обнаружении (от 0.0 до 1.0).
-    3.  'geometry': GeoJSON полигон, очерчивающий область.
-    4.  'impactArea': Область воздействия, определите по изображению, находится ли загрязнение на 'Вода' или 'Почва'.
+    3.  'geometry': Полигон, очерчивающий область, в пикселях изображения размером ${IMAGERY_SIZE_PX}×${IMAGERY_SIZE_PX}: каждая вершина — [x, y], где x — столбец слева направо (0–${IMAGERY_SIZE_PX}), y — строка сверху вниз (0–${IMAGERY_SIZE_PX}). Первая и последняя вершины должны совпадать.
+    4.  'impactArea': Область воздействия, определите по изображению, находится ли загрязнение на 'Вода', 'Побережье' (у самой береговой линии) или 'Почва'.
     5.  'hazardLevel': Уровень опасности ('Низкий', 'Средний', 'Высокий'), оцененный по размеру и виду загрязнения.
     Если разливов нет, верните пустой массив.
   `;
 
-  const MAX_RETRIES = 3;
-  for (let attempt = 0; attempt < MAX_RETRIES; attempt++) {
-    try {
-      const gemini = getAi();
-      const response = await gemini.models.generateContent({
-        model,
-        contents: {
-          parts: [
-            { text: prompt },
-            {
-              inlineData: {
-                mimeType: 'image/jpeg',
-                data: base64Image
-              }
+  try {
+    const gemini = getAi();
+    const response = await gemini.models.generateContent({
+      model: GEMINI_MODEL,
+      contents: {
+        parts: [
+          { text: prompt },
+          {
+            inlineData: {
+              mimeType: 'image/jpeg',
+              data: base64Image
             }
-          ]
-        },
-        config: {
-          responseMimeType: "application/json",
-          responseSchema: {
-            type: Type.OBJECT,
-            properties: {
-              detections: {
-                type: Type.ARRAY,
-                description: "Массив обнаруженных зон загрязнения.",
-                items: {
-                  type: Type.OBJECT,
-                  properties: {
-                    type: {
-                      type: Type.STRING,
-                      description: "Тип загрязнения (например, 'Нефтяное', 'Химическое', 'Физическое')."
-                    },
-                    confidence: {
-                      type: Type.NUMBER,
-                      description: "Оценка уверенности от 0.0 до 1.0."
-                    },
-                    geometry: {
-                      type: Type.OBJECT,
-                      description: "Объект GeoJSON Polygon, представляющий границу разлива. Координаты должны быть [долгота, широта].",
-                      properties: {
-                          type: { type: Type.STRING, description: "Должно быть 'Polygon'."},
-                          coordinates: { 
-                              type: Type.ARRAY, 
-                              items: { 
-                                  type: Type.ARRAY, 
-                                  items: { 
-                                      type: Type.ARRAY, 
-                                      items: { type: Type.NUMBER }
-                                  } 
-                              } 
-                          }
-                      },
-                      required: ["type", "coordinates"]
-                    },
-                    impactArea: {
-                        type: Type.STRING,
-                        description: "Область воздействия ('Вода' или 'Почва')."
+          }
+        ]
+      },
+      config: {
+        abortSignal: signal,
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            detections: {
+              type: Type.ARRAY,
+              description: "Массив обнаруженных зон загрязнения.",
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  type: {
+                    type: Type.STRING,
+                    description: "Тип загрязнения (например, 'Нефтяное', 'Химическое', 'Физическое')."
+                  },
+                  confidence: {
+                    type: Type.NUMBER,
+                    description: "Оценка уверенности от 0.0 до 1.0."
+                  },
+                  geometry: {
+                    type: Type.OBJECT,
+                    description: "Объект Polygon, представляющий границу разлива. Координаты вершин — пиксели изображения [x, y] от левого верхнего угла.",
+                    properties: {
+                        type: { type: Type.STRING, description: "Должно быть 'Polygon'."},
+                        coordinates: { 
+                            type: Type.ARRAY, 
+                            items: { 
+                                type: Type.ARRAY, 
+                                items: { 
+                                    type: Type.ARRAY, 
+                                    items: { type: Type.NUMBER }
+                                } 
+                            } 
+                        }
                     },
-                    hazardLevel: {
-                        type: Type.STRING,
-                        description: "Уровень опасности ('Низкий', 'Средний' или 'Высокий')."
-                    }
+                    required: ["type", "coordinates"]
+                  },
+                  impactArea: {
+                      type: Type.STRING,
+                      description: "Область воздействия ('Вода', 'Побережье' или 'Почва')."
                   },
-                  required: ["type", "confidence", "geometry", "impactArea", "hazardLevel"]
-                }
+                  hazardLevel: {
+                      type: Type.STRING,
+                      description: "Уровень опасности ('Низкий', 'Средний' или 'Высокий')."
+                  }
+                },
+                required: ["type", "confidence", "geometry", "impactArea", "hazardLevel"]
               }
-            },
-            required: ["detections"]
-          }
+            }
+          },
+          required: ["detections"]
         }
-      });
-
-      let jsonText = response.text.trim();
-      
-      // Robustly extract JSON from potential markdown code block
-      const jsonMatch = jsonText.match(/```(json)?\s*([\s\S]*?)\s*```/);
-      if (jsonMatch && jsonMatch[2]) {
-        jsonText = jsonMatch[2];
-      }
-      
-      const result = JSON.parse(jsonText);
-      
-      if (result.detections && Array.isArray(result.detections)) {
-          return result.detections;
       }
-      return [];
+    });
 
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      
-      // Check for rate limit error (429)
-      if (errorMessage.includes('429') || errorMessage.includes('RESOURCE_EXHAUSTED')) {
-        if (attempt === MAX_RETRIES - 1) {
-          console.error(`Ошибка Gemini API: Не удалось выполнить запрос после ${MAX_RETRIES} попыток из-за превышения лимита.`, error);
-          throw new Error("Достигнут лимит запросов к API. Пожалуйста, подождите несколько минут перед повторным запуском мониторинга.");
-        }
-        // Increased exponential backoff with jitter: ~60s, ~120s, ~240s
-        const delay = Math.pow(2, attempt) * 60000 + Math.random() * 5000;
-        console.warn(`Превышен лимит запросов Gemini API. Повторная попытка через ${Math.round(delay / 1000)} сек... (Попытка ${attempt + 1}/${MAX_RETRIES})`);
-        await new Promise(resolve => setTimeout(resolve, delay));
-      } else {
-        // Not a retriable error
-        console.error("Ошибка при анализе изображения с помощью Gemini:", error);
-        throw new Error("Не удалось получить анализ от Gemini API.");
-      }
+    let jsonText = response.text.trim();
+    
+    // Robustly extract JSON from potential markdown code block
+    const jsonMatch = jsonText.match(/```(json)?\s*([\s\S]*?)\s*```/);
+    if (jsonMatch && jsonMatch[2]) {
+      jsonText = jsonMatch[2];
+    }
+    
+    const result = JSON.parse(jsonText);
+    
+    if (result.detections && Array.isArray(result.detections)) {
+        return result.detections;
     }
+    return [];
+  } catch (error) {
+    // Cancellation and quota rejections are handled by the analysis queue.
+    if (isAbortError(error)) throw error;
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    if (errorMessage.includes('429') || errorMessage.includes('RESOURCE_EXHAUSTED')) {
+      console.warn("Превышен лимит запросов Gemini API.", error);
+      throw createRateLimitError("Достигнут лимит запросов к API. Пожалуйста, подождите несколько минут перед повторным запуском мониторинга.");
+    }
+    console.error("Ошибка при анализе изображения с помощью Gemini:", error);
+    throw new Error("Не удалось получить анализ от Gemini API.");
   }
-  
-  // Fallback error, should not be reached if the loop logic is correct
-  throw new Error("Не удалось завершить анализ изображения после нескольких попыток.");
-};
\ No newline at end of file
+};
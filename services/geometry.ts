@@ -0,0 +1,287 @@
+// Geometry helpers for GeoJSON rings. Coordinates are [lng, lat] in degrees.
+
+const EARTH_RADIUS_KM = 6371.0088;
+
+// WGS84 ellipsoid.
+const WGS84_A_KM = 6378.137;
+const WGS84_F = 1 / 298.257223563;
+const WGS84_B_KM = WGS84_A_KM * (1 - WGS84_F);
+const WGS84_E2 = WGS84_F * (2 - WGS84_F);
+const WGS84_E = Math.sqrt(WGS84_E2);
+
+const toRad = (deg: number) => deg * Math.PI / 180;
+const toDeg = (rad: number) => rad * 180 / Math.PI;
+
+/**
+ * Проверяет, находится ли точка внутри полигона, используя алгоритм трассировки лучей.
+ * @param point - Точка для проверки в формате [lng, lat].
+ * @param polygon - Массив точек, представляющих вершины полигона.
+ * @returns True, если точка внутри полигона, иначе false.
+ */
+export const isPointInPolygon = (point: [number, number], polygon: number[][]): boolean => {
+    const [x, y] = point; // x - долгота, y - широта
+    let isInside = false;
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+        const [xi, yi] = polygon[i];
+        const [xj, yj] = polygon[j];
+
+        const intersect = ((yi > y) !== (yj > y)) &&
+            (x < (xj - xi) * (y - yi) / (yj - yi) + xi);
+
+        if (intersect) {
+            isInside = !isInside;
+        }
+    }
+    return isInside;
+};
+
+/**
+ * Great-circle distance between two [lng, lat] points in kilometres.
+ */
+export const haversineKm = (a: number[], b: number[]): number => {
+    const dLat = toRad(b[1] - a[1]);
+    const dLng = toRad(b[0] - a[0]);
+    const h = Math.sin(dLat / 2) ** 2 +
+        Math.cos(toRad(a[1])) * Math.cos(toRad(b[1])) * Math.sin(dLng / 2) ** 2;
+    return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
+};
+
+/**
+ * Initial great-circle bearing from the first point to the second, in degrees clockwise from north.
+ */
+export const initialBearing = (lat1: number, lng1: number, lat2: number, lng2: number): number => {
+    const φ1 = toRad(lat1);
+    const φ2 = toRad(lat2);
+    const Δλ = toRad(lng2 - lng1);
+    const y = Math.sin(Δλ) * Math.cos(φ2);
+    const x = Math.cos(φ1) * Math.sin(φ2) - Math.sin(φ1) * Math.cos(φ2) * Math.cos(Δλ);
+    return (toDeg(Math.atan2(y, x)) + 360) % 360;
+};
+
+/**
+ * Vertex average of a ring, ignoring the closing vertex. Good enough for the small polygons we detect.
+ */
+export const ringCentroid = (ring: number[][]): [number, number] => {
+    const isClosed = ring.length > 1 &&
+        ring[0][0] === ring[ring.length - 1][0] && ring[0][1] === ring[ring.length - 1][1];
+    const points = isClosed ? ring.slice(0, -1) : ring;
+    if (points.length === 0) return [0, 0];
+    const sum = points.reduce((acc, [lng, lat]) => [acc[0] + lng, acc[1] + lat], [0, 0]);
+    return [sum[0] / points.length, sum[1] / points.length];
+};
+
+// q(φ) from Snyder's authalic latitude formulas; q at the pole normalises it.
+const authalicQ = (sinPhi: number): number =>
+    (1 - WGS84_E2) * (sinPhi / (1 - WGS84_E2 * sinPhi * sinPhi)
+        - Math.log((1 - WGS84_E * sinPhi) / (1 + WGS84_E * sinPhi)) / (2 * WGS84_E));
+const AUTHALIC_Q_POLE = authalicQ(1);
+const AUTHALIC_RADIUS_KM = WGS84_A_KM * Math.sqrt(AUTHALIC_Q_POLE / 2);
+
+const toAuthalicLatitude = (latDeg: number): number =>
+    Math.asin(Math.max(-1, Math.min(1, authalicQ(Math.sin(toRad(latDeg))) / AUTHALIC_Q_POLE)));
+
+/**
+ * Area of a ring on the WGS84 ellipsoid in km². Latitudes are mapped onto the equal-area (authalic)
+ * sphere, where the exact spherical excess of the ring is computed, so the result stays accurate
+ * near the pole where planar and simple spherical formulas drift.
+ */
+export const ringGeodesicAreaKm2 = (ring: number[][]): number => {
+    let excess = 0;
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+        const [lng1, lat1] = ring[j];
+        const [lng2, lat2] = ring[i];
+        let dLng = lng2 - lng1;
+        dLng = ((dLng + 180) % 360 + 360) % 360 - 180;
+        const t1 = Math.tan(toAuthalicLatitude(lat1) / 2);
+        const t2 = Math.tan(toAuthalicLatitude(lat2) / 2);
+        excess += 2 * Math.atan2(Math.tan(toRad(dLng) / 2) * (t1 + t2), 1 + t1 * t2);
+    }
+    return Math.abs(excess) * AUTHALIC_RADIUS_KM * AUTHALIC_RADIUS_KM;
+};
+
+/**
+ * Ellipsoidal area of a GeoJSON polygon in km²: the outer ring minus its holes.
+ */
+export const polygonGeodesicAreaKm2 = (coordinates: number[][][]): number => {
+    const [outer = [], ...holes] = coordinates;
+    const area = holes.reduce((sum, hole) => sum - ringGeodesicAreaKm2(hole), ringGeodesicAreaKm2(outer));
+    return Math.max(0, area);
+};
+
+/**
+ * Geodesic distance between two [lng, lat] points on the WGS84 ellipsoid in kilometres (Vincenty's inverse
+ * formula). Falls back to the great-circle distance for the nearly antipodal points where it does not converge.
+ */
+export const geodesicDistanceKm = (a: number[], b: number[]): number => {
+    const L = toRad(b[0] - a[0]);
+    const U1 = Math.atan((1 - WGS84_F) * Math.tan(toRad(a[1])));
+    const U2 = Math.atan((1 - WGS84_F) * Math.tan(toRad(b[1])));
+    const sinU1 = Math.sin(U1), cosU1 = Math.cos(U1);
+    const sinU2 = Math.sin(U2), cosU2 = Math.cos(U2);
+
+    let λ = L;
+    for (let iteration = 0; iteration < 100; iteration++) {
+        const sinλ = Math.sin(λ), cosλ = Math.cos(λ);
+        const sinσ = Math.hypot(cosU2 * sinλ, cosU1 * sinU2 - sinU1 * cosU2 * cosλ);
+        if (sinσ === 0) return 0; // coincident points
+        const cosσ = sinU1 * sinU2 + cosU1 * cosU2 * cosλ;
+        const σ = Math.atan2(sinσ, cosσ);
+        const sinα = cosU1 * cosU2 * sinλ / sinσ;
+        const cos2α = 1 - sinα * sinα;
+        const cos2σm = cos2α === 0 ? 0 : cosσ - 2 * sinU1 * sinU2 / cos2α; // equatorial line
+        const C = WGS84_F / 16 * cos2α * (4 + WGS84_F * (4 - 3 * cos2α));
+        const λPrev = λ;
+        λ = L + (1 - C) * WGS84_F * sinα * (σ + C * sinσ * (cos2σm + C * cosσ * (-1 + 2 * cos2σm * cos2σm)));
+        if (Math.abs(λ - λPrev) < 1e-12) {
+            const u2 = cos2α * (WGS84_A_KM ** 2 - WGS84_B_KM ** 2) / (WGS84_B_KM ** 2);
+            const A = 1 + u2 / 16384 * (4096 + u2 * (-768 + u2 * (320 - 175 * u2)));
+            const B = u2 / 1024 * (256 + u2 * (-128 + u2 * (74 - 47 * u2)));
+            const Δσ = B * sinσ * (cos2σm + B / 4 * (cosσ * (-1 + 2 * cos2σm * cos2σm)
+                - B / 6 * cos2σm * (-3 + 4 * sinσ * sinσ) * (-3 + 4 * cos2σm * cos2σm)));
+            return WGS84_B_KM * A * (σ - Δσ);
+        }
+    }
+    return haversineKm(a, b);
+};
+
+/**
+ * Geodesic length of a polygon's outer ring in kilometres.
+ */
+export const polygonPerimeterKm = (coordinates: number[][][]): number => {
+    const ring = coordinates[0] ?? [];
+    let total = 0;
+    for (let i = 1; i < ring.length; i++) {
+        total += geodesicDistanceKm(ring[i - 1], ring[i]);
+    }
+    const first = ring[0];
+    const last = ring[ring.length - 1];
+    if (ring.length > 2 && (first[0] !== last[0] || first[1] !== last[1])) {
+        total += geodesicDistanceKm(last, first);
+    }
+    return total;
+};
+
+/**
+ * Shortest distance in km from a point to the edges of a ring, measured in a local equirectangular
+ * projection centred on the point. Accurate for the tens-of-kilometres distances we screen for.
+ */
+export const pointToRingDistanceKm = (point: number[], ring: number[][]): number => {
+    const kmPerDegLat = Math.PI * EARTH_RADIUS_KM / 180;
+    const kmPerDegLng = kmPerDegLat * Math.cos(toRad(point[1]));
+    const project = ([lng, lat]: number[]) => {
+        const dLng = ((lng - point[0] + 180) % 360 + 360) % 360 - 180;
+        return [dLng * kmPerDegLng, (lat - point[1]) * kmPerDegLat];
+    };
+    let best = Infinity;
+    for (let i = 1; i < ring.length; i++) {
+        const [ax, ay] = project(ring[i - 1]);
+        const [bx, by] = project(ring[i]);
+        const dx = bx - ax;
+        const dy = by - ay;
+        const lengthSq = dx * dx + dy * dy;
+        const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, -(ax * dx + ay * dy) / lengthSq));
+        best = Math.min(best, Math.hypot(ax + t * dx, ay + t * dy));
+    }
+    return ring.length === 1 ? haversineKm(point, ring[0]) : best;
+};
+
+const segmentsIntersect = (p1: number[], p2: number[], p3: number[], p4: number[]): boolean => {
+    const d = (a: number[], b: number[], c: number[]) =>
+        (c[0] - a[0]) * (b[1] - a[1]) - (b[0] - a[0]) * (c[1] - a[1]);
+    const d1 = d(p3, p4, p1);
+    const d2 = d(p3, p4, p2);
+    const d3 = d(p1, p2, p3);
+    const d4 = d(p1, p2, p4);
+    return ((d1 > 0 && d2 < 0) || (d1 < 0 && d2 > 0)) && ((d3 > 0 && d4 < 0) || (d3 < 0 && d4 > 0));
+};
+
+const ringExtent = (ring: number[][]) => {
+    let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+    for (const [x, y] of ring) {
+        if (x < minX) minX = x;
+        if (x > maxX) maxX = x;
+        if (y < minY) minY = y;
+        if (y > maxY) maxY = y;
+    }
+    return { minX, minY, maxX, maxY };
+};
+
+/**
+ * Tests whether two rings overlap: either an edge crosses or one ring lies inside the other.
+ */
+export const ringsIntersect = (a: number[][], b: number[][]): boolean => {
+    if (a.length === 0 || b.length === 0) return false;
+    const ea = ringExtent(a);
+    const eb = ringExtent(b);
+    if (ea.minX > eb.maxX || ea.maxX < eb.minX || ea.minY > eb.maxY || ea.maxY < eb.minY) return false;
+    for (let i = 1; i < a.length; i++) {
+        for (let j = 1; j < b.length; j++) {
+            if (segmentsIntersect(a[i - 1], a[i], b[j - 1], b[j])) return true;
+        }
+    }
+    return isPointInPolygon([a[0][0], a[0][1]], b) || isPointInPolygon([b[0][0], b[0][1]], a);
+};
+
+/**
+ * Douglas–Peucker simplification of a closed ring in a local equirectangular projection. Vertices closer
+ * than `toleranceKm` to the simplified outline are dropped; the result stays closed and keeps at least
+ * three distinct vertices.
+ */
+export const simplifyRing = (ring: number[][], toleranceKm: number): number[][] => {
+    if (ring.length <= 5 || toleranceKm <= 0) return ring;
+    const kmPerDegLat = Math.PI * EARTH_RADIUS_KM / 180;
+    const kmPerDegLng = kmPerDegLat * Math.cos(toRad(ring[0][1]));
+    const points = ring.map(([lng, lat]) => [lng * kmPerDegLng, lat * kmPerDegLat]);
+    const keep = new Uint8Array(ring.length);
+    keep[0] = 1;
+    keep[ring.length - 1] = 1;
+
+    // The first vertex is also the last, so the ring is split at the vertex farthest from it.
+    let split = 1;
+    for (let i = 1; i < ring.length - 1; i++) {
+        if (Math.hypot(points[i][0] - points[0][0], points[i][1] - points[0][1]) >
+            Math.hypot(points[split][0] - points[0][0], points[split][1] - points[0][1])) split = i;
+    }
+    keep[split] = 1;
+
+    const stack: [number, number][] = [[0, split], [split, ring.length - 1]];
+    while (stack.length > 0) {
+        const [first, last] = stack.pop()!;
+        const [ax, ay] = points[first];
+        const dx = points[last][0] - ax;
+        const dy = points[last][1] - ay;
+        const lengthSq = dx * dx + dy * dy;
+        let farthest = -1;
+        let farthestDistance = toleranceKm;
+        for (let i = first + 1; i < last; i++) {
+            const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, ((points[i][0] - ax) * dx + (points[i][1] - ay) * dy) / lengthSq));
+            const distance = Math.hypot(points[i][0] - ax - t * dx, points[i][1] - ay - t * dy);
+            if (distance > farthestDistance) {
+                farthest = i;
+                farthestDistance = distance;
+            }
+        }
+        if (farthest >= 0) {
+            keep[farthest] = 1;
+            stack.push([first, farthest], [farthest, last]);
+        }
+    }
+
+    // A ring flattened to a line keeps the vertex farthest from it, so it still renders as a triangle.
+    if (keep.reduce((sum, k) => sum + k, 0) < 4) {
+        const [ax, ay] = points[0];
+        const dx = points[split][0] - ax;
+        const dy = points[split][1] - ay;
+        let farthest = split === 1 ? 2 : 1;
+        let farthestDistance = -1;
+        for (let i = 1; i < ring.length - 1; i++) {
+            const distance = Math.abs((points[i][0] - ax) * dy - (points[i][1] - ay) * dx);
+            if (i !== split && distance > farthestDistance) {
+                farthest = i;
+                farthestDistance = distance;
+            }
+        }
+        keep[farthest] = 1;
+    }
+    return ring.filter((_, i) => keep[i]);
+};
@@ -0,0 +1,82 @@
+import { BBox, PollutionData } from "../types";
+import { IMAGERY_SIZE_PX } from "./constellationService";
+
+const RAD = Math.PI / 180;
+// Web Mercator is undefined at the pole; the imagery service stops at this latitude.
+const MERCATOR_MAX_LAT = 85.05112878;
+
+/** An exported image: the requested geographic bbox and the pixel size it was rendered at. */
+export interface ImageFrame {
+  bbox: BBox;
+  width: number;
+  height: number;
+}
+
+interface MercatorExtent {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+const toMercatorY = (lat: number): number => {
+  const clamped = Math.max(-MERCATOR_MAX_LAT, Math.min(MERCATOR_MAX_LAT, lat));
+  return Math.log(Math.tan(Math.PI / 4 + clamped * RAD / 2));
+};
+
+const fromMercatorY = (y: number): number => (2 * Math.atan(Math.exp(y)) - Math.PI / 2) / RAD;
+
+export const getImageryFrame = (bbox: BBox): ImageFrame => ({ bbox, width: IMAGERY_SIZE_PX, height: IMAGERY_SIZE_PX });
+
+/**
+ * Extent the exported image actually covers, in Web Mercator radians. The imagery is rendered in
+ * Web Mercator, where rows are not evenly spaced in latitude and a degree of longitude shrinks with
+ * cos(lat); when the requested bbox does not match the image's aspect ratio (it was clipped at the
+ * Arctic Circle or the antimeridian), the server widens the shorter side around the centre.
+ */
+const getImageExtent = ({ bbox: [minLng, minLat, maxLng, maxLat], width, height }: ImageFrame): MercatorExtent => {
+  const extent = { minX: minLng * RAD, minY: toMercatorY(minLat), maxX: maxLng * RAD, maxY: toMercatorY(maxLat) };
+  const spanX = extent.maxX - extent.minX;
+  const spanY = extent.maxY - extent.minY;
+  const imageAspect = width / height;
+  if (spanX / spanY < imageAspect) {
+    const grow = (spanY * imageAspect - spanX) / 2;
+    return { ...extent, minX: extent.minX - grow, maxX: extent.maxX + grow };
+  }
+  const grow = (spanX / imageAspect - spanY) / 2;
+  return { ...extent, minY: extent.minY - grow, maxY: extent.maxY + grow };
+};
+
+/** Converts an image position `[x, y]` (column and row from the top-left corner) to `[lng, lat]`. */
+export const pixelToLngLat = (frame: ImageFrame, [x, y]: number[]): number[] => {
+  const extent = getImageExtent(frame);
+  const mercatorX = extent.minX + (x / frame.width) * (extent.maxX - extent.minX);
+  const mercatorY = extent.maxY - (y / frame.height) * (extent.maxY - extent.minY);
+  return [mercatorX / RAD, fromMercatorY(mercatorY)];
+};
+
+/** Inverse of pixelToLngLat. */
+export const lngLatToPixel = (frame: ImageFrame, [lng, lat]: number[]): number[] => {
+  const extent = getImageExtent(frame);
+  return [
+    ((lng * RAD - extent.minX) / (extent.maxX - extent.minX)) * frame.width,
+    ((extent.maxY - toMercatorY(lat)) / (extent.maxY - extent.minY)) * frame.height,
+  ];
+};
+
+const isPixel = (c: unknown): c is number[] =>
+  Array.isArray(c) && c.length >= 2 && Number.isFinite(c[0]) && Number.isFinite(c[1]);
+
+/**
+ * Moves the polygons of model detections from image pixels to `[lng, lat]`. Only well-formed vertices
+ * are converted; anything else is passed through unchanged for the validation step to reject.
+ */
+export const georeferenceDetections = (detections: Partial<PollutionData>[], frame: ImageFrame): Partial<PollutionData>[] =>
+  detections.map(detection => {
+    const geometry = detection?.geometry;
+    if (!geometry || !Array.isArray(geometry.coordinates)) return detection;
+    const coordinates = geometry.coordinates.map(ring =>
+      Array.isArray(ring) ? ring.map(c => isPixel(c) ? pixelToLngLat(frame, c) : c) : ring
+    );
+    return { ...detection, geometry: { ...geometry, coordinates } };
+  });
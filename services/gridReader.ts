@@ -0,0 +1,61 @@
+/** Placement of a regular lat/lng grid, stored row by row from `lat0` northwards and from `lng0` eastwards. */
+export interface GridGeometry {
+  lat0: number;
+  lng0: number;
+  dLat: number;
+  dLng: number;
+  nLat: number;
+  nLng: number;
+}
+
+export interface GridFile<K extends string> {
+  kind: K;
+  geometry: GridGeometry;
+  /** Reads an array with a value for every node; throws when it is missing, short or holds other values. */
+  readNodeValues: <T>(key: string, isValue: (value: unknown) => value is T, expected: string) => T[];
+}
+
+export const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const GEOMETRY_FIELDS: (keyof GridGeometry)[] = ['lat0', 'lng0', 'dLat', 'dLng', 'nLat', 'nLng'];
+
+/**
+ * Parses the common part of a gridded field file: its kind, which must be one of `kinds`, and the grid
+ * placement. Throws an Error with a user-facing message when the file is not JSON or the grid is incomplete.
+ */
+export const readGridFile = <K extends string>(text: string, fileName: string, kinds: K[]): GridFile<K> => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error(`${fileName}: файл не является корректным JSON.`);
+  }
+  const record: Record<string, unknown> = typeof data === 'object' && data !== null && !Array.isArray(data)
+    ? data as Record<string, unknown>
+    : {};
+  const kind = kinds.find(k => k === record.kind);
+  if (kind === undefined) {
+    throw new Error(`${fileName}: поле "kind" должно быть ${kinds.map(k => `"${k}"`).join(' или ')}.`);
+  }
+  const missing = GEOMETRY_FIELDS.filter(key => !isFiniteNumber(record[key]));
+  if (missing.length > 0) {
+    throw new Error(`${fileName}: отсутствуют или некорректны поля ${missing.join(', ')}.`);
+  }
+  const geometry = Object.fromEntries(GEOMETRY_FIELDS.map(key => [key, record[key]])) as unknown as GridGeometry;
+  if (geometry.dLat <= 0 || geometry.dLng <= 0 || geometry.nLat < 2 || geometry.nLng < 2) {
+    throw new Error(`${fileName}: сетка должна содержать не менее 2×2 узлов с положительным шагом.`);
+  }
+  const size = geometry.nLat * geometry.nLng;
+
+  return {
+    kind,
+    geometry,
+    readNodeValues: <T>(key: string, isValue: (value: unknown) => value is T, expected: string): T[] => {
+      const values = record[key];
+      if (!Array.isArray(values) || values.length !== size || !values.every(isValue)) {
+        throw new Error(`${fileName}: массив "${key}" должен содержать ${size} ${expected}.`);
+      }
+      return values;
+    },
+  };
+};
@@ -0,0 +1,9 @@
+/**
+ * Generates a stable unique identifier for records that are persisted or referenced across reloads.
+ */
+export const createId = (prefix: string): string => {
+  const random = typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+  return `${prefix}-${random}`;
+};
@@ -0,0 +1,317 @@
+import { ImportReport, PollutionData, ReferenceFeature, ReferenceGeometry, ReferenceLayer } from "../types";
+import { createId } from "./ids";
+
+export interface ImportResult {
+  detections: PollutionData[];
+  referenceLayer: ReferenceLayer | null;
+  report: ImportReport;
+}
+
+export interface RawFeature {
+  id?: string | number;
+  geometry: { type: string; coordinates: unknown } | null;
+  properties: Record<string, unknown>;
+}
+
+// Accepted spellings for the enumerated fields; keys are lower-cased before lookup.
+const TYPE_ALIASES: Record<string, PollutionData['type']> = {
+  'нефтяное': 'Нефтяное', 'нефть': 'Нефтяное', 'oil': 'Нефтяное', 'oil spill': 'Нефтяное',
+  'химическое': 'Химическое', 'chemical': 'Химическое',
+  'физическое': 'Физическое', 'physical': 'Физическое', 'debris': 'Физическое', 'plastic': 'Физическое',
+};
+const HAZARD_ALIASES: Record<string, PollutionData['hazardLevel']> = {
+  'низкий': 'Низкий', 'low': 'Низкий',
+  'средний': 'Средний', 'medium': 'Средний', 'moderate': 'Средний',
+  'высокий': 'Высокий', 'high': 'Высокий',
+};
+const IMPACT_AREA_ALIASES: Record<string, PollutionData['impactArea']> = {
+  'вода': 'Вода', 'water': 'Вода', 'sea': 'Вода',
+  'побережье': 'Побережье', 'shore': 'Побережье', 'shoreline': 'Побережье', 'coast': 'Побережье',
+  'почва': 'Почва', 'land': 'Почва', 'soil': 'Почва',
+};
+
+const TYPE_KEYS = ['type', 'pollutionType', 'pollution_type', 'category'];
+
+export const pick = (props: Record<string, unknown>, keys: string[]): unknown => {
+  for (const key of keys) {
+    if (props[key] !== undefined && props[key] !== null && props[key] !== '') return props[key];
+  }
+  return undefined;
+};
+
+const lookup = <T>(aliases: Record<string, T>, value: unknown): T | undefined =>
+  typeof value === 'string' ? aliases[value.trim().toLowerCase()] : undefined;
+
+// Dates later than this past the moment of import are treated as errors (e.g. microseconds since the epoch).
+const MAX_FUTURE_TIMESTAMP_MS = 24 * 60 * 60 * 1000;
+
+const parseTimestamp = (value: unknown): number | null => {
+  if (value === undefined) return Date.now();
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) return null;
+    // Values below 1e11 are seconds since the epoch rather than milliseconds.
+    return value < 1e11 ? value * 1000 : value;
+  }
+  if (typeof value === 'string') {
+    const numeric = Number(value);
+    if (!Number.isNaN(numeric) && value.trim() !== '') return parseTimestamp(numeric);
+    const parsed = Date.parse(value);
+    return Number.isNaN(parsed) ? null : parsed;
+  }
+  return null;
+};
+
+const parseConfidence = (value: unknown): number | null => {
+  // External reports are usually confirmed sightings, so a missing confidence means certain.
+  if (value === undefined) return 1;
+  const numeric = typeof value === 'string' ? Number(value.replace('%', '')) : value;
+  if (typeof numeric !== 'number' || Number.isNaN(numeric)) return null;
+  const normalized = numeric > 1 ? numeric / 100 : numeric;
+  return normalized >= 0 && normalized <= 1 ? normalized : null;
+};
+
+export const isValidPosition = (c: unknown): c is number[] =>
+  Array.isArray(c) && c.length >= 2 &&
+  typeof c[0] === 'number' && typeof c[1] === 'number' &&
+  Math.abs(c[0]) <= 180 && Math.abs(c[1]) <= 90;
+
+/**
+ * Validates an outer ring and closes it if the source left it open. Returns an error message on failure.
+ */
+export const normalizeRing = (ring: unknown): number[][] | string => {
+  if (!Array.isArray(ring) || ring.length < 3) return 'полигон содержит меньше трёх вершин';
+  if (!ring.every(isValidPosition)) return 'координаты вне допустимого диапазона';
+  const points = ring.map(c => [c[0], c[1]]);
+  const first = points[0];
+  const last = points[points.length - 1];
+  if (first[0] !== last[0] || first[1] !== last[1]) points.push([first[0], first[1]]);
+  return points.length >= 4 ? points : 'полигон содержит меньше трёх вершин';
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const toPositions = (value: unknown, minLength: number): number[][] | null =>
+  Array.isArray(value) && value.length >= minLength && value.every(isValidPosition) ? value.map(c => [c[0], c[1]]) : null;
+
+const toRings = (value: unknown): number[][][] | null => {
+  if (!Array.isArray(value) || value.length === 0) return null;
+  const rings = value.map(normalizeRing);
+  return rings.every((ring): ring is number[][] => typeof ring !== 'string') ? rings : null;
+};
+
+const toParts = <T>(value: unknown, readPart: (part: unknown) => T | null): T[] | null => {
+  if (!Array.isArray(value) || value.length === 0) return null;
+  const parts = value.map(readPart);
+  return parts.every((part): part is T => part !== null) ? parts : null;
+};
+
+/**
+ * Checks the type and coordinate shape of a reference geometry so that it can be drawn on the map.
+ * Returns an error message on failure.
+ */
+const validateReferenceGeometry = ({ type, coordinates }: { type: string; coordinates: unknown }): ReferenceGeometry | string => {
+  const invalid = `некорректные координаты геометрии ${type}`;
+  switch (type) {
+    case 'Point':
+      return isValidPosition(coordinates) ? { type, coordinates: [coordinates[0], coordinates[1]] } : invalid;
+    case 'MultiPoint': {
+      const points = toPositions(coordinates, 1);
+      return points ? { type, coordinates: points } : invalid;
+    }
+    case 'LineString': {
+      const line = toPositions(coordinates, 2);
+      return line ? { type, coordinates: line } : invalid;
+    }
+    case 'MultiLineString': {
+      const lines = toParts(coordinates, line => toPositions(line, 2));
+      return lines ? { type, coordinates: lines } : invalid;
+    }
+    case 'Polygon': {
+      const rings = toRings(coordinates);
+      return rings ? { type, coordinates: rings } : invalid;
+    }
+    case 'MultiPolygon': {
+      const polygons = toParts(coordinates, toRings);
+      return polygons ? { type, coordinates: polygons } : invalid;
+    }
+    default:
+      return `геометрия ${type} не поддерживается`;
+  }
+};
+
+const getFeatureName = (feature: RawFeature, index: number): string => {
+  const name = pick(feature.properties, ['name', 'title', 'id']);
+  return name !== undefined ? String(name) : `Объект #${index + 1}`;
+};
+
+/**
+ * Maps one feature onto PollutionData. Features without a pollution type are treated as reference
+ * geometry; features that claim to be pollution but fail validation are rejected with a reason.
+ */
+const mapFeature = (
+  feature: RawFeature,
+  fileName: string
+):
+  | { kind: 'detections'; detections: PollutionData[] }
+  | { kind: 'reference'; geometry: ReferenceGeometry }
+  | { kind: 'rejected'; reason: string } => {
+  const props = feature.properties;
+  const rawType = pick(props, TYPE_KEYS);
+  if (rawType === undefined) {
+    if (!feature.geometry) return { kind: 'rejected', reason: 'отсутствует геометрия' };
+    const geometry = validateReferenceGeometry(feature.geometry);
+    return typeof geometry === 'string' ? { kind: 'rejected', reason: geometry } : { kind: 'reference', geometry };
+  }
+
+  const type = lookup(TYPE_ALIASES, rawType);
+  if (!type) return { kind: 'rejected', reason: `неизвестный тип загрязнения «${String(rawType)}»` };
+
+  const geometry = feature.geometry;
+  if (!geometry) return { kind: 'rejected', reason: 'отсутствует геометрия' };
+  let outerRings: unknown[];
+  if (geometry.type === 'Polygon' && Array.isArray(geometry.coordinates)) {
+    outerRings = [geometry.coordinates[0]];
+  } else if (geometry.type === 'MultiPolygon' && Array.isArray(geometry.coordinates)) {
+    outerRings = geometry.coordinates.map((polygon: unknown) => Array.isArray(polygon) ? polygon[0] : undefined);
+  } else {
+    return { kind: 'rejected', reason: `геометрия ${geometry.type} не поддерживается для загрязнений` };
+  }
+
+  const confidence = parseConfidence(pick(props, ['confidence', 'probability', 'score']));
+  if (confidence === null) return { kind: 'rejected', reason: 'уверенность должна быть числом от 0 до 1 (или 0–100%)' };
+
+  const rawHazard = pick(props, ['hazardLevel', 'hazard', 'severity']);
+  const hazardLevel = rawHazard === undefined ? 'Средний' : lookup(HAZARD_ALIASES, rawHazard);
+  if (!hazardLevel) return { kind: 'rejected', reason: `неизвестный уровень опасности «${String(rawHazard)}»` };
+
+  const rawArea = pick(props, ['impactArea', 'area', 'surface']);
+  const impactArea = rawArea === undefined ? 'Вода' : lookup(IMPACT_AREA_ALIASES, rawArea);
+  if (!impactArea) return { kind: 'rejected', reason: `неизвестная область воздействия «${String(rawArea)}»` };
+
+  const timestamp = parseTimestamp(pick(props, ['timestamp', 'time', 'date', 'datetime', 'observed']));
+  if (timestamp === null) return { kind: 'rejected', reason: 'не удалось разобрать дату обнаружения' };
+  if (timestamp < 0 || timestamp > Date.now() + MAX_FUTURE_TIMESTAMP_MS) {
+    return { kind: 'rejected', reason: 'дата обнаружения вне допустимого диапазона (с 1970 года до сегодняшнего дня)' };
+  }
+
+  const agency = pick(props, ['source', 'agency', 'reporter', 'operator']);
+  const sourceName = agency !== undefined ? `${String(agency)} (${fileName})` : fileName;
+
+  const detections: PollutionData[] = [];
+  for (let i = 0; i < outerRings.length; i++) {
+    const ring = normalizeRing(outerRings[i]);
+    if (typeof ring === 'string') return { kind: 'rejected', reason: ring };
+    // Re-importing the same file updates features that carry an id instead of duplicating them.
+    const baseId = feature.id !== undefined ? `imp-${fileName}-${feature.id}` : createId('imp');
+    detections.push({
+      id: outerRings.length > 1 ? `${baseId}-${i}` : baseId,
+      type,
+      confidence,
+      geometry: { type: 'Polygon', coordinates: [ring] },
+      timestamp,
+      impactArea,
+      hazardLevel,
+      source: 'Импорт',
+      sourceName,
+    });
+  }
+  return { kind: 'detections', detections };
+};
+
+export const readGeoJSONFeatures = (text: string): RawFeature[] => {
+  const json: unknown = JSON.parse(text);
+  const toGeometry = (value: unknown): RawFeature['geometry'] =>
+    isRecord(value) && typeof value.type === 'string' ? { type: value.type, coordinates: value.coordinates } : null;
+  const toFeature = (f: unknown): RawFeature => {
+    const feature = isRecord(f) ? f : {};
+    const properties = isRecord(feature.properties) ? feature.properties : {};
+    const id = feature.id ?? properties.id;
+    return {
+      id: typeof id === 'string' || typeof id === 'number' ? id : undefined,
+      geometry: toGeometry(feature.geometry),
+      properties,
+    };
+  };
+  if (!isRecord(json)) throw new Error('файл не является GeoJSON FeatureCollection, Feature или Geometry');
+  if (json.type === 'FeatureCollection' && Array.isArray(json.features)) return json.features.map(toFeature);
+  if (json.type === 'Feature') return [toFeature(json)];
+  if (typeof json.type === 'string' && json.coordinates) return [{ geometry: toGeometry(json), properties: {} }];
+  throw new Error('файл не является GeoJSON FeatureCollection, Feature или Geometry');
+};
+
+const parseKmlCoordinates = (text: string | null | undefined): number[][] =>
+  (text ?? '').trim().split(/\s+/).filter(Boolean).map(tuple => tuple.split(',').map(Number));
+
+const readKmlFeatures = (text: string): RawFeature[] => {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('файл не является корректным XML');
+  }
+  return Array.from(doc.getElementsByTagName('Placemark')).map(placemark => {
+    const properties: Record<string, unknown> = {};
+    const name = placemark.getElementsByTagName('name')[0]?.textContent;
+    if (name) properties.name = name.trim();
+    Array.from(placemark.getElementsByTagName('Data')).forEach(data => {
+      const key = data.getAttribute('name');
+      if (key) properties[key] = data.getElementsByTagName('value')[0]?.textContent?.trim();
+    });
+    Array.from(placemark.getElementsByTagName('SimpleData')).forEach(data => {
+      const key = data.getAttribute('name');
+      if (key) properties[key] = data.textContent?.trim();
+    });
+
+    const polygons = Array.from(placemark.getElementsByTagName('Polygon')).map(polygon => {
+      const outer = polygon.getElementsByTagName('outerBoundaryIs')[0] ?? polygon;
+      return [parseKmlCoordinates(outer.getElementsByTagName('coordinates')[0]?.textContent)];
+    });
+    const line = placemark.getElementsByTagName('LineString')[0];
+    const point = placemark.getElementsByTagName('Point')[0];
+
+    let geometry: RawFeature['geometry'] = null;
+    if (polygons.length === 1) geometry = { type: 'Polygon', coordinates: polygons[0] };
+    else if (polygons.length > 1) geometry = { type: 'MultiPolygon', coordinates: polygons };
+    else if (line) geometry = { type: 'LineString', coordinates: parseKmlCoordinates(line.getElementsByTagName('coordinates')[0]?.textContent) };
+    else if (point) geometry = { type: 'Point', coordinates: parseKmlCoordinates(point.getElementsByTagName('coordinates')[0]?.textContent)[0] };
+
+    return { id: placemark.getAttribute('id') ?? undefined, geometry, properties };
+  });
+};
+
+/**
+ * Reads a GeoJSON or KML file dropped by the operator and splits it into detections,
+ * reference geometry and rejected features.
+ */
+export const importDetectionFile = async (file: File): Promise<ImportResult> => {
+  const text = await file.text();
+  const isKml = /\.kml$/i.test(file.name) || text.trimStart().startsWith('<');
+  let features: RawFeature[];
+  try {
+    features = isKml ? readKmlFeatures(text) : readGeoJSONFeatures(text);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(`Не удалось прочитать ${file.name}: ${reason}`);
+  }
+
+  const detections: PollutionData[] = [];
+  const referenceFeatures: ReferenceFeature[] = [];
+  const report: ImportReport = { fileName: file.name, imported: 0, referenceFeatures: 0, rejected: [] };
+
+  features.forEach((feature, index) => {
+    const result = mapFeature(feature, file.name);
+    if (result.kind === 'detections') {
+      detections.push(...result.detections);
+    } else if (result.kind === 'reference') {
+      referenceFeatures.push({ geometry: result.geometry, properties: feature.properties });
+    } else {
+      report.rejected.push({ index, name: getFeatureName(feature, index), reason: result.reason });
+    }
+  });
+
+  report.imported = detections.length;
+  report.referenceFeatures = referenceFeatures.length;
+  const referenceLayer = referenceFeatures.length > 0
+    ? { id: createId('ref'), name: file.name, features: referenceFeatures }
+    : null;
+  return { detections, referenceLayer, report };
+};
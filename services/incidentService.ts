@@ -0,0 +1,131 @@
+import { Incident, IncidentStatus, IncidentWorkflow, PollutionData } from "../types";
+import { haversineKm, polygonGeodesicAreaKm2, polygonPerimeterKm, ringCentroid, ringsIntersect } from "./geometry";
+
+export const INCIDENT_STATUSES: IncidentStatus[] = [
+  'Новый', 'Подтверждён', 'Направлена бригада', 'Локализован', 'Закрыт', 'Ложная тревога',
+];
+
+// Detections of the same type whose centroids are closer than this are treated as the same spill
+// even when their outlines do not overlap (drift between passes, georeferencing error).
+export const INCIDENT_MATCH_DISTANCE_KM = 25;
+
+// An incident while its detections are being grouped, before its id is settled.
+type IncidentDraft = Omit<Incident, 'workflow'>;
+
+const toObservation = (p: PollutionData) => ({
+  detectionId: p.id,
+  timestamp: p.timestamp,
+  areaKm2: polygonGeodesicAreaKm2(p.geometry.coordinates),
+  perimeterKm: polygonPerimeterKm(p.geometry.coordinates),
+  confidence: p.confidence,
+});
+
+/**
+ * Finds the incident a detection belongs to: an overlapping outline wins, otherwise the nearest
+ * incident within the match distance. Only incidents of the same pollution type are considered.
+ */
+const findMatchingIncident = (incidents: IncidentDraft[], p: PollutionData, maxDistanceKm: number): IncidentDraft | null => {
+  const ring = p.geometry.coordinates[0] ?? [];
+  const centroid = ringCentroid(ring);
+  let nearest: IncidentDraft | null = null;
+  let nearestDistance = Infinity;
+
+  for (const incident of incidents) {
+    if (incident.type !== p.type) continue;
+    const incidentRing = incident.latest.geometry.coordinates[0] ?? [];
+    if (ringsIntersect(ring, incidentRing)) {
+      return incident;
+    }
+    const distance = haversineKm(centroid, ringCentroid(incidentRing));
+    if (distance <= maxDistanceKm && distance < nearestDistance) {
+      nearest = incident;
+      nearestDistance = distance;
+    }
+  }
+  return nearest;
+};
+
+const getIncidentId = (detectionId: string): string => `inc-${detectionId}`;
+
+/**
+ * Merges repeated detections of the same spill into incidents. Detections are processed in time order
+ * and an incident is named after its first detection. When an imported older detection becomes the first
+ * one, the incident keeps the id its saved workflow was stored under, so status and notes are not lost.
+ */
+export const groupIntoIncidents = (
+  detections: PollutionData[],
+  workflows: Record<string, IncidentWorkflow> = {},
+  maxDistanceKm: number = INCIDENT_MATCH_DISTANCE_KM
+): Incident[] => {
+  const incidents: IncidentDraft[] = [];
+  const ordered = [...detections].sort((a, b) => a.timestamp - b.timestamp);
+
+  for (const p of ordered) {
+    const match = findMatchingIncident(incidents, p, maxDistanceKm);
+    if (match) {
+      match.latest = p;
+      match.lastSeen = p.timestamp;
+      match.observations.push(toObservation(p));
+    } else {
+      incidents.push({
+        id: getIncidentId(p.id),
+        type: p.type,
+        latest: p,
+        firstSeen: p.timestamp,
+        lastSeen: p.timestamp,
+        observations: [toObservation(p)],
+      });
+    }
+  }
+
+  return incidents.map(incident => {
+    const savedId = incident.observations.map(o => getIncidentId(o.detectionId)).find(id => workflows[id]);
+    const id = savedId ?? incident.id;
+    return { ...incident, id, workflow: workflows[id] ?? createIncidentWorkflow(id) };
+  });
+};
+
+/** Workflow status of the incident each detection belongs to. */
+export const getStatusByDetection = (incidents: Incident[]): Map<string, IncidentStatus> => {
+  const statuses = new Map<string, IncidentStatus>();
+  incidents.forEach(incident => incident.observations.forEach(o => statuses.set(o.detectionId, incident.workflow.status)));
+  return statuses;
+};
+
+/** Incident each detection belongs to. */
+export const getIncidentIdByDetection = (incidents: Incident[]): Map<string, string> => {
+  const ids = new Map<string, string>();
+  incidents.forEach(incident => incident.observations.forEach(o => ids.set(o.detectionId, incident.id)));
+  return ids;
+};
+
+// === Workflow ===
+
+export const createIncidentWorkflow = (incidentId: string): IncidentWorkflow => ({
+  incidentId,
+  status: 'Новый',
+  assignee: '',
+  notes: [],
+  history: [],
+});
+
+/**
+ * Moves an incident to a new status and records the transition in its audit trail.
+ */
+export const changeIncidentStatus = (workflow: IncidentWorkflow, status: IncidentStatus): IncidentWorkflow => {
+  if (workflow.status === status) return workflow;
+  return {
+    ...workflow,
+    status,
+    history: [...workflow.history, { timestamp: Date.now(), from: workflow.status, to: status }],
+  };
+};
+
+export const assignIncident = (workflow: IncidentWorkflow, assignee: string): IncidentWorkflow =>
+  ({ ...workflow, assignee: assignee.trim() });
+
+export const addIncidentNote = (workflow: IncidentWorkflow, text: string): IncidentWorkflow => {
+  const trimmed = text.trim();
+  if (!trimmed) return workflow;
+  return { ...workflow, notes: [...workflow.notes, { timestamp: Date.now(), text: trimmed }] };
+};
@@ -0,0 +1,174 @@
+import { feature } from 'topojson-client';
+import type { Topology, GeometryCollection } from 'topojson-specification';
+import { ImpactArea } from '../types';
+import { pointToRingDistanceKm } from './geometry';
+
+/** Spills whose outline comes this close to the coastline are classed as shoreline. */
+export const SHORELINE_DISTANCE_KM = 5;
+
+// Only coastline north of this latitude is indexed; the monitor never scans further south.
+const MIN_INDEXED_LAT = 45;
+// Latitude band height for the ray-casting index, degrees.
+const BAND_DEG = 0.25;
+// Cell size of the nearest-edge index, degrees (lat × lng).
+const CELL_LAT_DEG = 0.25;
+const CELL_LNG_DEG = 0.5;
+const CELL_COLUMNS = Math.round(360 / CELL_LNG_DEG);
+
+type Edge = [number, number, number, number]; // lng1, lat1, lng2, lat2
+
+export interface LandMask {
+    isLand: (lat: number, lng: number) => boolean;
+    /** Distance to the nearest coastline within `maxKm`, or Infinity when there is none that close. */
+    distanceToCoastKm: (lat: number, lng: number, maxKm: number) => number;
+}
+
+const bandIndex = (lat: number) => Math.floor((lat - MIN_INDEXED_LAT) / BAND_DEG);
+const cellRow = (lat: number) => Math.floor((lat - MIN_INDEXED_LAT) / CELL_LAT_DEG);
+const cellColumn = (lng: number) =>
+    ((Math.floor((lng + 180) / CELL_LNG_DEG) % CELL_COLUMNS) + CELL_COLUMNS) % CELL_COLUMNS;
+
+// Rings that cross the antimeridian jump between ±180; make their longitudes continuous instead.
+const unwrapRing = (ring: number[][]): number[][] => {
+    let offset = 0;
+    return ring.map(([lng, lat], i) => {
+        if (i > 0) {
+            const previous = ring[i - 1][0];
+            if (lng - previous > 180) offset -= 360;
+            else if (previous - lng > 180) offset += 360;
+        }
+        return [lng + offset, lat];
+    });
+};
+
+const toEdges = (ring: number[][], shift = 0): Edge[] => {
+    const edges: Edge[] = [];
+    for (let i = 1; i < ring.length; i++) {
+        edges.push([ring[i - 1][0] + shift, ring[i - 1][1], ring[i][0] + shift, ring[i][1]]);
+    }
+    return edges;
+};
+
+const pushTo = (index: Map<number, Edge[]>, key: number, edge: Edge) => {
+    const bucket = index.get(key);
+    if (bucket) bucket.push(edge);
+    else index.set(key, [edge]);
+};
+
+/**
+ * Builds the mask from land polygon rings ([lng, lat]). Edges are bucketed twice: by latitude band
+ * for even-odd ray casting, and by lat/lng cell for nearest-coast queries.
+ */
+export const createLandMask = (rings: number[][][]): LandMask => {
+    const bands = new Map<number, Edge[]>();
+    const cells = new Map<number, Edge[]>();
+
+    for (const sourceRing of rings) {
+        if (!sourceRing.some(([, lat]) => lat >= MIN_INDEXED_LAT)) continue;
+        const ring = unwrapRing(sourceRing);
+        const lngs = ring.map(([lng]) => lng);
+        const edges = toEdges(ring);
+        // A ring hanging past ±180 also gets a copy shifted back into range, so a ray cast from either
+        // side of the antimeridian sees it; a point lies inside at most one of the two copies.
+        const wrapped = Math.max(...lngs) > 180 ? toEdges(ring, -360)
+            : Math.min(...lngs) < -180 ? toEdges(ring, 360)
+            : [];
+
+        for (const edge of [...edges, ...wrapped]) {
+            const maxLat = Math.max(edge[1], edge[3]);
+            if (maxLat < MIN_INDEXED_LAT) continue;
+            const minLat = Math.max(MIN_INDEXED_LAT, Math.min(edge[1], edge[3]));
+            for (let b = bandIndex(minLat); b <= bandIndex(maxLat); b++) {
+                pushTo(bands, b, edge);
+            }
+        }
+        for (const edge of edges) {
+            const maxLat = Math.max(edge[1], edge[3]);
+            if (maxLat < MIN_INDEXED_LAT) continue;
+            const minLat = Math.max(MIN_INDEXED_LAT, Math.min(edge[1], edge[3]));
+            const minLng = Math.min(edge[0], edge[2]);
+            const maxLng = Math.max(edge[0], edge[2]);
+            for (let r = cellRow(minLat); r <= cellRow(maxLat); r++) {
+                for (let c = Math.floor((minLng + 180) / CELL_LNG_DEG); c <= Math.floor((maxLng + 180) / CELL_LNG_DEG); c++) {
+                    pushTo(cells, r * CELL_COLUMNS + ((c % CELL_COLUMNS) + CELL_COLUMNS) % CELL_COLUMNS, edge);
+                }
+            }
+        }
+    }
+
+    const isLand = (lat: number, lng: number): boolean => {
+        if (lat < MIN_INDEXED_LAT) return false;
+        let inside = false;
+        for (const [x1, y1, x2, y2] of bands.get(bandIndex(lat)) ?? []) {
+            if ((y1 > lat) !== (y2 > lat) && lng < (x2 - x1) * (lat - y1) / (y2 - y1) + x1) {
+                inside = !inside;
+            }
+        }
+        return inside;
+    };
+
+    const distanceToCoastKm = (lat: number, lng: number, maxKm: number): number => {
+        const latSpan = maxKm / 111.2;
+        const lngSpan = Math.min(180, latSpan / Math.max(0.01, Math.cos(lat * Math.PI / 180)));
+        const seen = new Set<Edge>();
+        let best = Infinity;
+        for (let r = cellRow(lat - latSpan); r <= cellRow(lat + latSpan); r++) {
+            const firstColumn = Math.floor((lng - lngSpan + 180) / CELL_LNG_DEG);
+            const lastColumn = Math.min(firstColumn + CELL_COLUMNS - 1, Math.floor((lng + lngSpan + 180) / CELL_LNG_DEG));
+            for (let c = firstColumn; c <= lastColumn; c++) {
+                for (const edge of cells.get(r * CELL_COLUMNS + cellColumn(c * CELL_LNG_DEG - 180)) ?? []) {
+                    if (seen.has(edge)) continue;
+                    seen.add(edge);
+                    best = Math.min(best, pointToRingDistanceKm([lng, lat], [[edge[0], edge[1]], [edge[2], edge[3]]]));
+                }
+            }
+        }
+        return best <= maxKm ? best : Infinity;
+    };
+
+    return { isLand, distanceToCoastKm };
+};
+
+let maskPromise: Promise<LandMask> | null = null;
+
+/**
+ * Loads the bundled Natural Earth 1:50m land polygons on first use and caches the indexed mask.
+ * The dataset is split into its own chunk so it does not weigh on the initial page load.
+ */
+export const loadLandMask = (): Promise<LandMask> => {
+    if (!maskPromise) {
+        maskPromise = import('world-atlas/land-50m.json').then(({ default: data }) => {
+            const topology = data as unknown as Topology<{ land: GeometryCollection }>;
+            const land = feature(topology, topology.objects.land);
+            const rings: number[][][] = [];
+            for (const { geometry } of land.features) {
+                if (geometry.type === 'Polygon') rings.push(...geometry.coordinates);
+                else if (geometry.type === 'MultiPolygon') geometry.coordinates.forEach(polygon => rings.push(...polygon));
+            }
+            return createLandMask(rings);
+        }).catch(err => {
+            // A failed chunk load (offline, redeployed chunk hashes) is retried on the next call.
+            maskPromise = null;
+            throw err;
+        });
+    }
+    return maskPromise;
+};
+
+/**
+ * Classifies a detection polygon against the coastline: land when its centre is ashore, shoreline
+ * when any part of it touches land or comes within SHORELINE_DISTANCE_KM of the coast, water otherwise.
+ */
+export const classifyImpactArea = (mask: LandMask, coordinates: number[][][]): ImpactArea => {
+    const ring = coordinates[0] ?? [];
+    if (ring.length === 0) return 'Вода';
+    const vertices = ring.length > 1 ? ring.slice(0, -1) : ring;
+    const centerLng = vertices.reduce((sum, [lng]) => sum + lng, 0) / vertices.length;
+    const centerLat = vertices.reduce((sum, [, lat]) => sum + lat, 0) / vertices.length;
+
+    if (mask.isLand(centerLat, centerLng)) return 'Почва';
+    const nearCoast = [[centerLng, centerLat], ...vertices].some(([lng, lat]) =>
+        mask.isLand(lat, lng) || mask.distanceToCoastKm(lat, lng, SHORELINE_DISTANCE_KM) !== Infinity
+    );
+    return nearCoast ? 'Побережье' : 'Вода';
+};
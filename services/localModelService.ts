@@ -0,0 +1,46 @@
+import { BBox, PollutionData, SatellitePosition } from "../types";
+import { isAbortError } from "./analysisQueue";
+
+export const DEFAULT_LOCAL_MODEL_URL = 'http://localhost:8000/detect';
+
+/**
+ * Sends an image to an in-house detection model served over HTTP.
+ * The endpoint receives `{ image, mimeType, position, bbox }` as JSON and must answer with
+ * `{ detections: [...] }` using the same fields as the Gemini response schema.
+ */
+export const analyzeImageLocally = async (
+  base64Image: string,
+  endpoint: string,
+  position: SatellitePosition,
+  bbox: BBox,
+  signal?: AbortSignal
+): Promise<Partial<PollutionData>[]> => {
+  let response: Response;
+  try {
+    response = await fetch(endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        image: base64Image,
+        mimeType: 'image/jpeg',
+        position: { lat: position.lat, lng: position.lng, heading: position.heading },
+        bbox,
+      }),
+      signal,
+    });
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.error("Локальная модель недоступна:", error);
+    throw new Error(`Локальная модель недоступна по адресу ${endpoint}.`);
+  }
+
+  if (!response.ok) {
+    throw new Error(`Локальная модель вернула ошибку ${response.status}.`);
+  }
+
+  const result = await response.json();
+  if (result && Array.isArray(result.detections)) {
+    return result.detections;
+  }
+  return [];
+};
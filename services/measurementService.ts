@@ -0,0 +1,55 @@
+import { PollutionData, SpillSize } from "../types";
+import { polygonGeodesicAreaKm2, polygonPerimeterKm, ringCentroid } from "./geometry";
+import { getSeaRegion } from "./seaRegions";
+
+export const SPILL_SIZES: SpillSize[] = ['До 1 км²', '1–10 км²', 'Более 10 км²'];
+
+export interface DetectionMeasures {
+  areaKm2: number;
+  perimeterKm: number;
+  sea: string;
+}
+
+export interface AreaSummaryRow {
+  key: string;
+  count: number;
+  areaKm2: number;
+}
+
+/**
+ * Ellipsoidal area and perimeter of a detection plus the sea its centroid falls into.
+ */
+export const measureDetection = (p: PollutionData): DetectionMeasures => {
+  const [lng, lat] = ringCentroid(p.geometry.coordinates[0] ?? []);
+  return {
+    areaKm2: polygonGeodesicAreaKm2(p.geometry.coordinates),
+    perimeterKm: polygonPerimeterKm(p.geometry.coordinates),
+    sea: getSeaRegion(lat, lng),
+  };
+};
+
+export const getSpillSize = (areaKm2: number): SpillSize => {
+  if (areaKm2 < 1) return 'До 1 км²';
+  if (areaKm2 <= 10) return '1–10 км²';
+  return 'Более 10 км²';
+};
+
+/**
+ * Counts detections and sums their area per group, largest total area first.
+ */
+export const summarizeArea = (
+  detections: PollutionData[],
+  measures: Map<string, DetectionMeasures>,
+  groupBy: (p: PollutionData, m: DetectionMeasures) => string
+): AreaSummaryRow[] => {
+  const rows = new Map<string, AreaSummaryRow>();
+  detections.forEach(p => {
+    const m = measures.get(p.id) ?? measureDetection(p);
+    const key = groupBy(p, m);
+    const row = rows.get(key) ?? { key, count: 0, areaKm2: 0 };
+    row.count += 1;
+    row.areaKm2 += m.areaKm2;
+    rows.set(key, row);
+  });
+  return Array.from(rows.values()).sort((a, b) => b.areaKm2 - a.areaKm2);
+};
@@ -0,0 +1,53 @@
+import { LatLng, Mission, Satellite } from "../types";
+import { isPointInPolygon } from "./geometry";
+import { createId } from "./ids";
+
+export const createMission = (name: string, waypoints: LatLng[], priorityAreas: number[][][]): Mission => ({
+  id: createId('mission'),
+  name: name.trim(),
+  waypoints,
+  priorityAreas,
+  createdAt: Date.now(),
+});
+
+/**
+ * A plan is usable when it has a route of at least two waypoints or at least one priority area.
+ */
+export const isMissionValid = (plan: Pick<Mission, 'waypoints' | 'priorityAreas'>): boolean =>
+  plan.waypoints.length >= 2 || plan.priorityAreas.length > 0;
+
+/**
+ * Assigns a plan to a satellite. A route replaces the patrol (and the TLE, since the satellite
+ * now flies the drawn waypoints); priority areas only change where scans are concentrated.
+ */
+export const assignMission = (satellite: Satellite, mission: Mission): Satellite => {
+  const hasRoute = mission.waypoints.length >= 2;
+  return {
+    ...satellite,
+    missionId: mission.id,
+    priorityAreas: mission.priorityAreas,
+    tle: hasRoute ? null : satellite.tle,
+    patrol: hasRoute ? { waypoints: mission.waypoints } : satellite.patrol,
+  };
+};
+
+export const isInPriorityArea = (satellite: Satellite): boolean =>
+  satellite.priorityAreas.some(area => isPointInPolygon([satellite.position.lng, satellite.position.lat], area));
+
+/**
+ * Removes a satellite's mission, returning it to the given patrol and the regular scan cadence.
+ */
+export const clearMission = (satellite: Satellite, defaultPatrol: Satellite['patrol']): Satellite => ({
+  ...satellite,
+  missionId: null,
+  priorityAreas: [],
+  patrol: defaultPatrol,
+});
+
+/**
+ * Closes a drawn polygon into a GeoJSON-style [lng, lat] ring.
+ */
+export const toPriorityAreaRing = (points: LatLng[]): number[][] => {
+  const ring = points.map(p => [p.lng, p.lat]);
+  return [...ring, ring[0]];
+};
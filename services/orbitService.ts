@@ -0,0 +1,136 @@
+import {
+  degreesLat,
+  degreesLong,
+  eciToGeodetic,
+  gstime,
+  propagate,
+  SatRec,
+  twoline2satrec,
+} from "satellite.js";
+import { TleSet } from "../types";
+import { initialBearing } from "./geometry";
+
+export interface Orbit {
+  tle: TleSet;
+  satrec: SatRec;
+}
+
+export interface OrbitalState {
+  lat: number;
+  lng: number;
+  altitudeKm: number;
+  heading: number;
+}
+
+// A ground track is split into segments wherever it crosses the antimeridian, as [lat, lng] pairs for Leaflet.
+export type GroundTrack = [number, number][][];
+
+/**
+ * Контрольная сумма строки TLE: сумма цифр по модулю 10, знак «-» считается как 1.
+ */
+const tleChecksum = (line: string): number => {
+  let sum = 0;
+  for (const ch of line.slice(0, 68)) {
+    if (ch >= '0' && ch <= '9') sum += Number(ch);
+    else if (ch === '-') sum += 1;
+  }
+  return sum % 10;
+};
+
+/**
+ * Parses a two- or three-line element set. Throws with a readable message when the text is not a valid TLE.
+ */
+export const parseTle = (text: string): TleSet => {
+  const lines = text.split(/\r?\n/).map(l => l.trimEnd()).filter(l => l.trim() !== '');
+  const line1Index = lines.findIndex(l => l.startsWith('1 '));
+  if (line1Index === -1 || !lines[line1Index + 1]?.startsWith('2 ')) {
+    throw new Error('Ожидаются строки TLE, начинающиеся с «1 » и «2 ».');
+  }
+  const line1 = lines[line1Index];
+  const line2 = lines[line1Index + 1];
+  for (const line of [line1, line2]) {
+    if (line.length < 69) {
+      throw new Error('Строка TLE должна содержать 69 символов.');
+    }
+    if (tleChecksum(line) !== Number(line[68])) {
+      throw new Error(`Неверная контрольная сумма в строке «${line.slice(0, 20)}…».`);
+    }
+  }
+  const name = line1Index > 0 ? lines[line1Index - 1].replace(/^0 /, '').trim() : `NORAD ${line1.slice(2, 7).trim()}`;
+  return { name, line1, line2 };
+};
+
+const orbitCache = new Map<string, Orbit>();
+
+export const createOrbit = (tle: TleSet): Orbit => {
+  const satrec = twoline2satrec(tle.line1, tle.line2);
+  if (satrec.error !== 0) {
+    throw new Error(`Не удалось инициализировать SGP4 (код ошибки ${satrec.error}).`);
+  }
+  return { tle, satrec };
+};
+
+/**
+ * Returns the initialized SGP4 record for an element set, reusing it across simulation ticks.
+ */
+export const getOrbit = (tle: TleSet): Orbit => {
+  const key = `${tle.line1}\n${tle.line2}`;
+  let orbit = orbitCache.get(key);
+  if (!orbit) {
+    orbit = createOrbit(tle);
+    orbitCache.set(key, orbit);
+  }
+  return orbit;
+};
+
+const getSubSatellitePoint = (orbit: Orbit, date: Date) => {
+  const result = propagate(orbit.satrec, date);
+  if (!result || typeof result.position !== 'object') return null;
+  const geodetic = eciToGeodetic(result.position, gstime(date));
+  return {
+    lat: degreesLat(geodetic.latitude),
+    lng: degreesLong(geodetic.longitude),
+    altitudeKm: geodetic.height,
+  };
+};
+
+/**
+ * Propagates the orbit with SGP4 and returns the sub-satellite point, altitude and ground-track heading.
+ * Returns null when the propagator fails (e.g. the element set has decayed).
+ */
+export const propagateOrbit = (orbit: Orbit, date: Date): OrbitalState | null => {
+  const current = getSubSatellitePoint(orbit, date);
+  const next = getSubSatellitePoint(orbit, new Date(date.getTime() + 1000));
+  if (!current || !next) return null;
+  return {
+    ...current,
+    heading: initialBearing(current.lat, current.lng, next.lat, next.lng),
+  };
+};
+
+/**
+ * Samples the ground track between two instants, splitting it at the antimeridian so Leaflet
+ * does not draw lines across the whole map.
+ */
+export const computeGroundTrack = (orbit: Orbit, from: Date, to: Date, stepSeconds = 30): GroundTrack => {
+  const segments: GroundTrack = [];
+  let segment: [number, number][] = [];
+  let prevLng: number | null = null;
+  for (let t = from.getTime(); t <= to.getTime(); t += stepSeconds * 1000) {
+    const point = getSubSatellitePoint(orbit, new Date(t));
+    if (!point) continue;
+    if (prevLng !== null && Math.abs(point.lng - prevLng) > 180) {
+      segments.push(segment);
+      segment = [];
+    }
+    segment.push([point.lat, point.lng]);
+    prevLng = point.lng;
+  }
+  if (segment.length > 0) segments.push(segment);
+  return segments.filter(s => s.length > 1);
+};
+
+/**
+ * Orbital period in minutes from the mean motion stored in the SGP4 record (radians per minute).
+ */
+export const getOrbitalPeriodMinutes = (orbit: Orbit): number => (2 * Math.PI) / orbit.satrec.no;
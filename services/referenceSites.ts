@@ -0,0 +1,86 @@
+// Bundled reference geography for spatial alert conditions. Coordinates are approximate and
+// meant for screening; protected areas are coarse outlines ([lng, lat] rings), not legal boundaries.
+
+export interface Settlement {
+  name: string;
+  lat: number;
+  lng: number;
+}
+
+export interface ProtectedArea {
+  name: string;
+  ring: number[][];
+}
+
+export const ARCTIC_SETTLEMENTS: Settlement[] = [
+  { name: 'Мурманск', lat: 68.97, lng: 33.08 },
+  { name: 'Архангельск', lat: 64.54, lng: 40.54 },
+  { name: 'Нарьян-Мар', lat: 67.64, lng: 53.0 },
+  { name: 'Амдерма', lat: 69.76, lng: 61.68 },
+  { name: 'Сабетта', lat: 71.27, lng: 72.07 },
+  { name: 'Диксон', lat: 73.51, lng: 80.55 },
+  { name: 'Дудинка', lat: 69.4, lng: 86.18 },
+  { name: 'Хатанга', lat: 71.98, lng: 102.47 },
+  { name: 'Тикси', lat: 71.64, lng: 128.87 },
+  { name: 'Певек', lat: 69.7, lng: 170.31 },
+  { name: 'Анадырь', lat: 64.73, lng: 177.51 },
+  { name: 'Уткиагвик', lat: 71.29, lng: -156.79 },
+  { name: 'Прудо-Бей', lat: 70.26, lng: -148.34 },
+  { name: 'Тактояктук', lat: 69.44, lng: -133.03 },
+  { name: 'Кембридж-Бей', lat: 69.12, lng: -105.06 },
+  { name: 'Резольют', lat: 74.7, lng: -94.83 },
+  { name: 'Понд-Инлет', lat: 72.7, lng: -77.96 },
+  { name: 'Каанаак', lat: 77.47, lng: -69.23 },
+  { name: 'Упернавик', lat: 72.79, lng: -56.15 },
+  { name: 'Илулиссат', lat: 69.22, lng: -51.1 },
+  { name: 'Иттоккортоормиит', lat: 70.49, lng: -21.97 },
+  { name: 'Лонгйир', lat: 78.22, lng: 15.65 },
+  { name: 'Баренцбург', lat: 78.06, lng: 14.21 },
+  { name: 'Хаммерфест', lat: 70.66, lng: 23.68 },
+  { name: 'Киркенес', lat: 69.73, lng: 30.05 },
+];
+
+const box = (minLng: number, minLat: number, maxLng: number, maxLat: number): number[][] => [
+  [minLng, minLat], [maxLng, minLat], [maxLng, maxLat], [minLng, maxLat], [minLng, minLat],
+];
+
+export const ARCTIC_PROTECTED_AREAS: ProtectedArea[] = [
+  { name: 'Заповедник «Остров Врангеля»', ring: box(-179.99, 70.8, -177.3, 71.6) },
+  { name: 'Большой Арктический заповедник', ring: box(86, 73.5, 98, 76.5) },
+  { name: 'Национальный парк «Русская Арктика»', ring: box(44, 79.8, 65, 81.9) },
+  { name: 'Ненецкий заповедник', ring: box(52.5, 68.2, 54.5, 68.9) },
+  { name: 'Национальный парк Северо-Восточной Гренландии', ring: box(-35, 72, -17, 81.5) },
+  { name: 'Заповедник Северо-Восточного Шпицбергена', ring: box(18, 79, 33, 80.8) },
+  { name: 'Арктический национальный заповедник (ANWR)', ring: box(-146, 69.3, -141, 70.2) },
+  { name: 'Национальный парк Сирмилик', ring: box(-81, 72.6, -76, 73.9) },
+];
+
+// Indigenous communities, bird colonies and fishing grounds that complement the protected areas
+// in the bundled sensitive-zones layer.
+export const INDIGENOUS_SETTLEMENTS: Settlement[] = [
+  { name: 'Уэлен', lat: 66.16, lng: -169.81 },
+  { name: 'Мыс Шмидта', lat: 68.87, lng: -179.37 },
+  { name: 'Сеяха', lat: 70.17, lng: 72.52 },
+  { name: 'Антипаюта', lat: 69.1, lng: 76.87 },
+  { name: 'Носок', lat: 70.17, lng: 82.33 },
+  { name: 'Уткиагвик', lat: 71.29, lng: -156.79 },
+  { name: 'Кактовик', lat: 70.13, lng: -143.62 },
+  { name: 'Тактояктук', lat: 69.44, lng: -133.03 },
+  { name: 'Понд-Инлет', lat: 72.7, lng: -77.96 },
+  { name: 'Каанаак', lat: 77.47, lng: -69.23 },
+  { name: 'Иттоккортоормиит', lat: 70.49, lng: -21.97 },
+];
+
+export const BIRD_COLONIES: Settlement[] = [
+  { name: 'Птичий базар о. Медвежий', lat: 74.4, lng: 19.0 },
+  { name: 'Птичий базар Безымянной губы (Новая Земля)', lat: 72.9, lng: 52.7 },
+  { name: 'Птичий базар о. Гукера', lat: 80.2, lng: 52.8 },
+  { name: 'Колония Принс-Леопольд', lat: 74.03, lng: -90.0 },
+  { name: 'Птичий базар о. Колючин', lat: 67.45, lng: -174.6 },
+];
+
+export const FISHING_GROUNDS: ProtectedArea[] = [
+  { name: 'Промысловый район Баренцева моря', ring: box(20, 70, 45, 74) },
+  { name: 'Промысловый район Печорского моря', ring: box(50, 69, 56, 71) },
+  { name: 'Промысловый район залива Диско', ring: box(-60, 68, -53, 72) },
+];
@@ -0,0 +1,119 @@
+import { Filters } from '../types';
+import { EMPTY_FILTERS, FILTER_CATEGORIES, FILTER_OPTIONS } from './filterService';
+
+export type Page = 'home' | 'monitor' | 'analytics';
+
+export interface MapView {
+  lat: number;
+  lng: number;
+  zoom: number;
+}
+
+/**
+ * Everything a shared link reproduces: the page, the map viewport, the active filters and the
+ * selected incident. A detection id may stand in for the incident it belongs to.
+ */
+export interface Route {
+  page: Page;
+  view: MapView | null;
+  filters: Filters;
+  incidentId: string | null;
+  detectionId: string | null;
+}
+
+export const HOME_ROUTE: Route = { page: 'home', view: null, filters: EMPTY_FILTERS, incidentId: null, detectionId: null };
+
+const PAGE_PATHS: Record<Page, string> = {
+  home: '',
+  monitor: 'monitor',
+  analytics: 'analytics',
+};
+
+const isPage = (path: string): Page | null =>
+  (Object.keys(PAGE_PATHS) as Page[]).find(page => PAGE_PATHS[page] === path) ?? null;
+
+const parseNumber = (value: string | null, min: number, max: number): number | null => {
+  if (value === null || value.trim() === '') return null;
+  const number = Number(value);
+  return Number.isFinite(number) && number >= min && number <= max ? number : null;
+};
+
+// A drawn filter area travels as `lng,lat;lng,lat;…` without the closing point. Areas drawn across the
+// antimeridian may reach past ±180.
+const parseArea = (value: string | null): number[][] | null => {
+  if (!value) return null;
+  const points = value.split(';').map(pair => pair.split(',').map(Number));
+  const valid = points.every(([lng, lat]) => Number.isFinite(lng) && Number.isFinite(lat) && Math.abs(lat) <= 90 && Math.abs(lng) <= 360);
+  if (!valid || points.length < 3) return null;
+  return [...points.map(([lng, lat]) => [lng, lat]), [points[0][0], points[0][1]]];
+};
+
+const formatArea = (ring: number[][]): string =>
+  ring.slice(0, -1).map(([lng, lat]) => `${lng.toFixed(4)},${lat.toFixed(4)}`).join(';');
+
+/**
+ * Reads a route from a location hash such as `#/monitor?lat=75.1&lng=40&z=5&type=Нефтяное&cmin=60`.
+ * Unknown pages fall back to home; malformed coordinates, ranges and unknown filter values are dropped.
+ */
+export const parseRoute = (hash: string): Route => {
+  const [path, query = ''] = hash.replace(/^#\/?/, '').split('?');
+  const page = isPage(path.replace(/\/$/, ''));
+  if (!page) return HOME_ROUTE;
+  const params = new URLSearchParams(query);
+
+  const lat = parseNumber(params.get('lat'), -90, 90);
+  const lng = parseNumber(params.get('lng'), -180, 180);
+  const zoom = parseNumber(params.get('z'), 0, 20);
+  const filters: Filters = { ...EMPTY_FILTERS };
+  FILTER_CATEGORIES.forEach(key => {
+    const allowed: string[] = FILTER_OPTIONS[key];
+    const values = (params.get(key) ?? '').split(',').filter(value => allowed.includes(value));
+    (filters as Record<typeof key, string[]>)[key] = Array.from(new Set(values));
+  });
+  filters.timeFrom = parseNumber(params.get('from'), 0, Number.MAX_SAFE_INTEGER);
+  filters.timeTo = parseNumber(params.get('to'), 0, Number.MAX_SAFE_INTEGER);
+  filters.area = parseArea(params.get('area'));
+  // Confidence bounds are written in percent to keep links short.
+  const confidenceMin = parseNumber(params.get('cmin'), 0, 100);
+  const confidenceMax = parseNumber(params.get('cmax'), 0, 100);
+  if (confidenceMin !== null) filters.confidenceMin = confidenceMin / 100;
+  if (confidenceMax !== null && confidenceMax / 100 >= filters.confidenceMin) filters.confidenceMax = confidenceMax / 100;
+  filters.minAreaKm2 = parseNumber(params.get('minArea'), 0, Number.MAX_SAFE_INTEGER) ?? 0;
+
+  return {
+    page,
+    view: lat !== null && lng !== null && zoom !== null ? { lat, lng, zoom } : null,
+    filters,
+    incidentId: params.get('incident') || null,
+    detectionId: params.get('detection') || null,
+  };
+};
+
+/**
+ * Builds the location hash for a route. The home page carries no state and only the monitor
+ * carries the map viewport and selection.
+ */
+export const formatRoute = (route: Route): string => {
+  if (route.page === 'home') return '#/';
+  const isMonitor = route.page === 'monitor';
+  const params = new URLSearchParams();
+  if (isMonitor && route.view) {
+    params.set('lat', route.view.lat.toFixed(4));
+    params.set('lng', route.view.lng.toFixed(4));
+    params.set('z', String(route.view.zoom));
+  }
+  const { filters } = route;
+  FILTER_CATEGORIES.forEach(key => {
+    if (filters[key].length > 0) params.set(key, filters[key].join(','));
+  });
+  if (filters.timeFrom !== null) params.set('from', String(filters.timeFrom));
+  if (filters.timeTo !== null) params.set('to', String(filters.timeTo));
+  if (filters.confidenceMin > 0) params.set('cmin', String(Math.round(filters.confidenceMin * 100)));
+  if (filters.confidenceMax < 1) params.set('cmax', String(Math.round(filters.confidenceMax * 100)));
+  if (filters.minAreaKm2 > 0) params.set('minArea', String(filters.minAreaKm2));
+  if (filters.area) params.set('area', formatArea(filters.area));
+  if (isMonitor && route.incidentId) params.set('incident', route.incidentId);
+  else if (isMonitor && route.detectionId) params.set('detection', route.detectionId);
+  const query = params.toString();
+  return `#/${PAGE_PATHS[route.page]}${query ? `?${query}` : ''}`;
+};
@@ -0,0 +1,138 @@
+import { PollutionData } from "../types";
+import { ringCentroid } from "./geometry";
+import { GridGeometry, isFiniteNumber, readGridFile } from "./gridReader";
+
+// Concentration at and above which ice edges, melt ponds and shadows make slick lookalikes common.
+export const HEAVY_ICE_CONCENTRATION = 0.7;
+// Satellite detections in heavy ice keep this share of their original confidence.
+const HEAVY_ICE_CONFIDENCE_FACTOR = 0.5;
+// Cells below the conventional ice-edge threshold are left off the map overlay.
+export const ICE_EDGE_CONCENTRATION = 0.15;
+
+/**
+ * Regular lat/lng grid of sea-ice concentration (0–1). Nodes without data (land, gaps) are null.
+ */
+export interface SeaIceGrid extends GridGeometry {
+  name: string;
+  concentration: (number | null)[];
+}
+
+export interface SeaIceCell {
+  bounds: [[number, number], [number, number]];
+  concentration: number;
+}
+
+const isConcentration = (value: unknown): value is number | null => value === null || isFiniteNumber(value);
+
+/**
+ * Parses a gridded sea-ice concentration field from JSON. Concentrations are given in percent
+ * (0–100); null or negative values mark nodes without data. Throws an Error with a user-facing
+ * message when the file does not describe a complete grid.
+ */
+export const parseSeaIceGrid = (text: string, fileName: string): SeaIceGrid => {
+  const { geometry, readNodeValues } = readGridFile(text, fileName, ['seaIce']);
+  const values = readNodeValues('concentration', isConcentration, 'чисел или null');
+  if (values.some(v => v !== null && v > 100)) {
+    throw new Error(`${fileName}: сплочённость задаётся в процентах от 0 до 100.`);
+  }
+  return {
+    name: fileName,
+    ...geometry,
+    concentration: values.map(v => (v !== null && v >= 0 ? v / 100 : null)),
+  };
+};
+
+/**
+ * Synthetic late-winter ice cover: close pack over the central Arctic, an ice edge pushed north to
+ * about 78° N by the Atlantic inflow in the Barents Sea and down to about 70° N on the Pacific side.
+ * For testing only.
+ */
+export const createSyntheticSeaIce = (): SeaIceGrid => {
+  const grid: SeaIceGrid = { name: 'Синтетический лёд', lat0: 60, lng0: -180, dLat: 1, dLng: 2, nLat: 31, nLng: 180, concentration: [] };
+  for (let row = 0; row < grid.nLat; row++) {
+    for (let col = 0; col < grid.nLng; col++) {
+      const lat = grid.lat0 + row * grid.dLat;
+      const lng = grid.lng0 + col * grid.dLng;
+      const edgeLat = 74 + 4 * Math.cos((lng - 30) * Math.PI / 180);
+      grid.concentration.push(Math.max(0, Math.min(1, ICE_EDGE_CONCENTRATION + (lat - edgeLat) / 6)));
+    }
+  }
+  return grid;
+};
+
+/**
+ * Bilinear interpolation of the concentration at a point, weighted over the surrounding nodes that
+ * have data. Returns null outside the grid or when none of them do; global grids wrap around in longitude.
+ */
+export const sampleSeaIce = (grid: SeaIceGrid, lat: number, lng: number): number | null => {
+  const isGlobal = grid.nLng * grid.dLng >= 360;
+  let x = (lng - grid.lng0) / grid.dLng;
+  if (isGlobal) x = ((x % grid.nLng) + grid.nLng) % grid.nLng;
+  const y = (lat - grid.lat0) / grid.dLat;
+  if (y < 0 || y > grid.nLat - 1 || x < 0 || (!isGlobal && x > grid.nLng - 1)) return null;
+
+  const col = Math.floor(x);
+  const row = Math.min(Math.floor(y), grid.nLat - 2);
+  const fx = x - col;
+  const fy = y - row;
+  const nextCol = isGlobal ? (col + 1) % grid.nLng : Math.min(col + 1, grid.nLng - 1);
+  const nodes: [number, number, number][] = [
+    [row, col, (1 - fx) * (1 - fy)],
+    [row, nextCol, fx * (1 - fy)],
+    [row + 1, col, (1 - fx) * fy],
+    [row + 1, nextCol, fx * fy],
+  ];
+  let sum = 0;
+  let weight = 0;
+  for (const [r, c, w] of nodes) {
+    const value = grid.concentration[r * grid.nLng + c];
+    if (value === null || w === 0) continue;
+    sum += value * w;
+    weight += w;
+  }
+  return weight > 0 ? sum / weight : null;
+};
+
+/** Grid nodes at or above the ice-edge threshold as map cells centred on each node. */
+export const getSeaIceCells = (grid: SeaIceGrid): SeaIceCell[] => {
+  const cells: SeaIceCell[] = [];
+  for (let row = 0; row < grid.nLat; row++) {
+    for (let col = 0; col < grid.nLng; col++) {
+      const concentration = grid.concentration[row * grid.nLng + col];
+      if (concentration === null || concentration < ICE_EDGE_CONCENTRATION) continue;
+      const lat = grid.lat0 + row * grid.dLat;
+      const lng = grid.lng0 + col * grid.dLng;
+      cells.push({
+        bounds: [
+          [Math.max(-90, lat - grid.dLat / 2), lng - grid.dLng / 2],
+          [Math.min(90, lat + grid.dLat / 2), lng + grid.dLng / 2],
+        ],
+        concentration,
+      });
+    }
+  }
+  return cells;
+};
+
+/**
+ * Tags a detection with the ice concentration at its centroid. Satellite detections in heavy ice
+ * get half their confidence and a review reason, keeping the original confidence alongside;
+ * imported reports are only tagged, since they were not produced by our image analysis.
+ */
+export const screenDetectionForIce = (detection: PollutionData, grid: SeaIceGrid): PollutionData => {
+  const [lng, lat] = ringCentroid(detection.geometry.coordinates[0] ?? []);
+  const iceConcentration = sampleSeaIce(grid, lat, lng);
+  if (iceConcentration === null) return detection;
+  if (iceConcentration < HEAVY_ICE_CONCENTRATION || detection.source === 'Импорт') {
+    return { ...detection, iceConcentration };
+  }
+  const confidence = detection.confidence * HEAVY_ICE_CONFIDENCE_FACTOR;
+  return {
+    ...detection,
+    iceConcentration,
+    confidence,
+    originalConfidence: detection.confidence,
+    reviewReason: `Сплочённый лёд ${Math.round(iceConcentration * 100)} %: кромки льда, снежницы и тени похожи на нефтяные пятна. ` +
+      `Уверенность снижена с ${Math.round(detection.confidence * 100)} % до ${Math.round(confidence * 100)} %, требуется проверка оператором.`,
+  };
+};
@@ -0,0 +1,32 @@
+// Approximate Arctic marginal seas as longitude/latitude boxes, checked in order.
+// Good enough for grouping statistics; not a substitute for the IHO sea limits.
+interface SeaRegion {
+  name: string;
+  /** [minLng, minLat, maxLng, maxLat] */
+  bounds: [number, number, number, number];
+}
+
+export const CENTRAL_ARCTIC = 'Центральная Арктика';
+
+const ARCTIC_SEA_REGIONS: SeaRegion[] = [
+  { name: 'Баренцево море', bounds: [15, 66, 55, 81] },
+  { name: 'Карское море', bounds: [55, 66, 100, 81.5] },
+  { name: 'Море Лаптевых', bounds: [100, 70, 140, 81] },
+  { name: 'Восточно-Сибирское море', bounds: [140, 66, 180, 79] },
+  { name: 'Чукотское море', bounds: [-180, 66, -156, 75] },
+  { name: 'Море Бофорта', bounds: [-156, 66, -120, 76] },
+  { name: 'Канадский архипелаг', bounds: [-120, 66, -80, 83] },
+  { name: 'Море Баффина', bounds: [-80, 66, -50, 78] },
+  { name: 'Гренландское море', bounds: [-45, 66, 15, 81] },
+];
+
+export const SEA_REGION_NAMES = [...ARCTIC_SEA_REGIONS.map(r => r.name), CENTRAL_ARCTIC];
+
+/**
+ * Returns the name of the Arctic sea containing the point, or the central Arctic basin if none matches.
+ */
+export const getSeaRegion = (lat: number, lng: number): string => {
+  const region = ARCTIC_SEA_REGIONS.find(({ bounds: [minLng, minLat, maxLng, maxLat] }) =>
+    lng >= minLng && lng <= maxLng && lat >= minLat && lat <= maxLat);
+  return region ? region.name : CENTRAL_ARCTIC;
+};
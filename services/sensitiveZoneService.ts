@@ -0,0 +1,145 @@
+import { BBox, PollutionData, ProximityClass, SensitiveZone, SensitiveZoneCategory, SensitiveZoneProximity } from "../types";
+import { isPointInPolygon, pointToRingDistanceKm, ringsIntersect } from "./geometry";
+import { isValidPosition, normalizeRing, pick, readGeoJSONFeatures } from "./importService";
+import {
+  ARCTIC_PROTECTED_AREAS,
+  ARCTIC_SETTLEMENTS,
+  BIRD_COLONIES,
+  FISHING_GROUNDS,
+  INDIGENOUS_SETTLEMENTS,
+  ProtectedArea,
+  Settlement,
+} from "./referenceSites";
+
+export const BUNDLED_SENSITIVE_ZONES_NAME = 'Встроенный набор';
+
+export const SENSITIVE_ZONE_CATEGORIES: SensitiveZoneCategory[] = [
+  'Заповедник', 'Поселение', 'Птичий базар', 'Рыболовный район', 'Прочее',
+];
+
+export const PROXIMITY_CLASSES: ProximityClass[] = ['Пересечение', 'До 10 км', '10–50 км', 'Далее 50 км'];
+
+// Accepted spellings of the `category` property; keys are lower-cased before lookup.
+const CATEGORY_ALIASES: Record<string, SensitiveZoneCategory> = {
+  'заповедник': 'Заповедник', 'оопт': 'Заповедник', 'reserve': 'Заповедник', 'protected_area': 'Заповедник', 'protected area': 'Заповедник',
+  'поселение': 'Поселение', 'settlement': 'Поселение', 'indigenous_settlement': 'Поселение', 'community': 'Поселение',
+  'птичий базар': 'Птичий базар', 'bird_colony': 'Птичий базар', 'bird colony': 'Птичий базар', 'colony': 'Птичий базар',
+  'рыболовный район': 'Рыболовный район', 'fishing_ground': 'Рыболовный район', 'fishing ground': 'Рыболовный район', 'fishery': 'Рыболовный район',
+};
+
+const fromSite = (category: SensitiveZoneCategory, prefix: string) => (site: Settlement, index: number): SensitiveZone => ({
+  id: `zone-${prefix}-${index + 1}`,
+  name: site.name,
+  category,
+  geometry: { type: 'Point', coordinates: [site.lng, site.lat] },
+});
+
+const fromArea = (category: SensitiveZoneCategory, prefix: string) => (area: ProtectedArea, index: number): SensitiveZone => ({
+  id: `zone-${prefix}-${index + 1}`,
+  name: area.name,
+  category,
+  geometry: { type: 'Polygon', coordinates: [area.ring] },
+});
+
+// Indigenous communities first, then the towns and ports that alert rules measure distances to.
+const BUNDLED_SETTLEMENTS: Settlement[] = [
+  ...INDIGENOUS_SETTLEMENTS,
+  ...ARCTIC_SETTLEMENTS.filter(town => !INDIGENOUS_SETTLEMENTS.some(s => s.name === town.name)),
+];
+
+export const getBundledSensitiveZones = (): SensitiveZone[] => [
+  ...ARCTIC_PROTECTED_AREAS.map(fromArea('Заповедник', 'reserve')),
+  ...FISHING_GROUNDS.map(fromArea('Рыболовный район', 'fishing')),
+  ...BUNDLED_SETTLEMENTS.map(fromSite('Поселение', 'settlement')),
+  ...BIRD_COLONIES.map(fromSite('Птичий базар', 'birds')),
+];
+
+/**
+ * Reads sensitive zones from a GeoJSON file. Points and polygons are accepted (multi-polygons are
+ * split into one zone per part); the `category` property is matched against known aliases and
+ * defaults to "Прочее". Throws when the file contains no usable zones.
+ */
+export const parseSensitiveZones = (text: string, fileName: string): SensitiveZone[] => {
+  let features;
+  try {
+    features = readGeoJSONFeatures(text);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(`Не удалось прочитать ${fileName}: ${reason}`);
+  }
+
+  const zones: SensitiveZone[] = [];
+  features.forEach((feature, index) => {
+    const name = String(pick(feature.properties, ['name', 'title', 'id']) ?? `Зона #${index + 1}`);
+    const rawCategory = pick(feature.properties, ['category', 'type', 'kind']);
+    const category = CATEGORY_ALIASES[String(rawCategory ?? '').trim().toLowerCase()] ?? 'Прочее';
+    const id = `zone-${fileName}-${feature.id ?? index + 1}`;
+    const geometry = feature.geometry;
+    if (!geometry) return;
+
+    if (geometry.type === 'Point' && isValidPosition(geometry.coordinates)) {
+      zones.push({ id, name, category, geometry: { type: 'Point', coordinates: geometry.coordinates.slice(0, 2) } });
+      return;
+    }
+    const polygons: unknown[] = geometry.type === 'Polygon' ? [geometry.coordinates]
+      : geometry.type === 'MultiPolygon' && Array.isArray(geometry.coordinates) ? geometry.coordinates
+      : [];
+    polygons.forEach((polygon, part) => {
+      const ring = Array.isArray(polygon) ? normalizeRing(polygon[0]) : 'некорректный полигон';
+      if (typeof ring === 'string') return;
+      zones.push({ id: polygons.length > 1 ? `${id}-${part + 1}` : id, name, category, geometry: { type: 'Polygon', coordinates: [ring] } });
+    });
+  });
+
+  if (zones.length === 0) {
+    throw new Error(`${fileName}: не найдено ни одной точки или полигона.`);
+  }
+  return zones;
+};
+
+const measureZone = (ring: number[][], zone: SensitiveZone): { distanceKm: number; intersects: boolean } => {
+  if (zone.geometry.type === 'Point') {
+    const point = zone.geometry.coordinates;
+    const intersects = isPointInPolygon([point[0], point[1]], ring);
+    return { distanceKm: intersects ? 0 : pointToRingDistanceKm(point, ring), intersects };
+  }
+  const zoneRing = zone.geometry.coordinates[0] ?? [];
+  if (ringsIntersect(ring, zoneRing)) return { distanceKm: 0, intersects: true };
+  const fromDetection = Math.min(...ring.map(v => pointToRingDistanceKm(v, zoneRing)));
+  const fromZone = Math.min(...zoneRing.map(v => pointToRingDistanceKm(v, ring)));
+  return { distanceKm: Math.min(fromDetection, fromZone), intersects: false };
+};
+
+/**
+ * Nearest sensitive zone to a detection. Any intersecting zone is reported with zero distance.
+ */
+export const findNearestZone = (p: PollutionData, zones: SensitiveZone[]): SensitiveZoneProximity | null => {
+  const ring = p.geometry.coordinates[0] ?? [];
+  if (ring.length === 0) return null;
+  let nearest: SensitiveZoneProximity | null = null;
+  for (const zone of zones) {
+    const { distanceKm, intersects } = measureZone(ring, zone);
+    if (!nearest || distanceKm < nearest.distanceKm) {
+      nearest = { zoneId: zone.id, zoneName: zone.name, category: zone.category, distanceKm, intersects };
+    }
+  }
+  return nearest;
+};
+
+/**
+ * Whether any zone lies within a scan footprint; such scenes are analysed ahead of the rest.
+ */
+export const hasZoneInFootprint = (zones: SensitiveZone[], [minLng, minLat, maxLng, maxLat]: BBox): boolean => {
+  const footprint = [[minLng, minLat], [maxLng, minLat], [maxLng, maxLat], [minLng, maxLat], [minLng, minLat]];
+  return zones.some(zone => zone.geometry.type === 'Point'
+    ? isPointInPolygon([zone.geometry.coordinates[0], zone.geometry.coordinates[1]], footprint)
+    : ringsIntersect(footprint, zone.geometry.coordinates[0] ?? []));
+};
+
+export const getProximityClass = (proximity: SensitiveZoneProximity | null | undefined): ProximityClass => {
+  if (!proximity) return 'Далее 50 км';
+  if (proximity.intersects) return 'Пересечение';
+  if (proximity.distanceKm <= 10) return 'До 10 км';
+  if (proximity.distanceKm <= 50) return '10–50 км';
+  return 'Далее 50 км';
+};
@@ -4,20 +4,116 @@ export interface SatellitePosition {
   heading: number;
   dataRate: number;
   stepIndex?: number;
+  // Geodetic altitude in km, known when the position comes from orbit propagation.
+  altitude?: number;
 }
 
+export interface TleSet {
+  name: string;
+  line1: string;
+  line2: string;
+}
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+// Multi-waypoint patrol flown back and forth; `legIndex` on the satellite tracks the current leg.
+export interface PatrolRoute {
+  waypoints: LatLng[];
+}
+
+// Operator-drawn plan: a patrol route and/or priority polygons ([lng, lat] rings) where scans are concentrated.
+export interface Mission {
+  id: string;
+  name: string;
+  waypoints: LatLng[];
+  priorityAreas: number[][][];
+  createdAt: number;
+}
+
+export type MissionDrawingMode = 'route' | 'area';
+
+// Geometry being clicked on the map; finished shapes go into the unsaved plan.
+export interface MissionDrawing {
+  mode: MissionDrawingMode;
+  points: LatLng[];
+}
+
+export interface MissionPlannerActions {
+  onStartDrawing: (mode: MissionDrawingMode) => void;
+  onFinishDrawing: () => void;
+  onCancelDrawing: () => void;
+  onDiscardDraft: () => void;
+  onSaveMission: (name: string) => void;
+  onAssignMission: (id: string) => void;
+  onUnassignMission: () => void;
+  onDeleteMission: (id: string) => void;
+}
+
+// A plan drawn on the map: either a saved mission assigned to a satellite or the unsaved draft.
+export interface MissionOverlay {
+  id: string;
+  color: string;
+  waypoints: LatLng[];
+  priorityAreas: number[][][];
+  isDraft?: boolean;
+}
+
+export type SatelliteStatus = 'Ожидание' | 'Съёмка' | 'В очереди' | 'Анализ' | 'Вне зоны';
+
+// One CubeSat of the constellation with its own trajectory, scan schedule and image feed.
+export interface Satellite {
+  id: string;
+  name: string;
+  color: string;
+  position: SatellitePosition;
+  // When set, the position is propagated from the TLE; otherwise the satellite flies its patrol route.
+  tle: TleSet | null;
+  patrol: PatrolRoute;
+  patrolDirection: 'forward' | 'backward';
+  legIndex: number;
+  missionId: string | null;
+  priorityAreas: number[][][];
+  // AI analysis runs every `scanIntervalTicks`, shifted by `scanOffsetTicks` so satellites do not fire together.
+  scanIntervalTicks: number;
+  scanOffsetTicks: number;
+  imageIntervalTicks: number;
+  currentImage: string;
+  status: SatelliteStatus;
+}
+
+/** Bounding box in the GeoJSON order: [minLng, minLat, maxLng, maxLat]. */
+export type BBox = [number, number, number, number];
+
 export interface GeoJSONGeometry {
   type: 'Polygon';
   coordinates: number[][][];
 }
 
+export type DetectionSource = 'ИИ' | 'Симуляция' | 'Импорт';
+
+export type ImpactArea = 'Вода' | 'Побережье' | 'Почва';
+
 export interface PollutionData {
+  id: string;
   type: 'Химическое' | 'Нефтяное' | 'Физическое';
   confidence: number;
   geometry: GeoJSONGeometry;
   timestamp: number;
-  impactArea: 'Вода' | 'Почва';
+  impactArea: ImpactArea;
   hazardLevel: 'Низкий' | 'Средний' | 'Высокий';
+  source?: DetectionSource;
+  // Satellite that produced the detection; absent for imported and seed data.
+  satelliteId?: string;
+  // Where an imported detection came from, e.g. the reporting agency or file name.
+  sourceName?: string;
+  // Sea-ice concentration (0–1) at the detection centroid, when the ice field covers it.
+  iceConcentration?: number;
+  // Why the detection needs an operator's review; set together with the confidence it had before screening.
+  reviewReason?: string;
+  originalConfidence?: number;
 }
 
 export interface LogEntry {
@@ -33,9 +129,257 @@ export enum AppState {
   Analyzing = 'ANALYZING'
 }
 
+export type SensitiveZoneCategory = 'Заповедник' | 'Поселение' | 'Птичий базар' | 'Рыболовный район' | 'Прочее';
+
+export interface SensitiveZone {
+  id: string;
+  name: string;
+  category: SensitiveZoneCategory;
+  /** A site marker or a polygon of closed [lng, lat] rings, outer ring first. */
+  geometry: { type: 'Point'; coordinates: number[] } | { type: 'Polygon'; coordinates: number[][][] };
+}
+
+/** The zones in effect on both pages and where they came from (a file name or the bundled set). */
+export interface SensitiveZoneSet {
+  name: string;
+  zones: SensitiveZone[];
+}
+
+export interface SensitiveZoneProximity {
+  zoneId: string;
+  zoneName: string;
+  category: SensitiveZoneCategory;
+  distanceKm: number;
+  intersects: boolean;
+}
+
+export type ProximityClass = 'Пересечение' | 'До 10 км' | '10–50 км' | 'Далее 50 км';
+
+export type SpillSize = 'До 1 км²' | '1–10 км²' | 'Более 10 км²';
+
+// Filter categories picked with checkboxes; values within a category are alternatives.
+export type FilterCategory = 'type' | 'hazardLevel' | 'impactArea' | 'status' | 'size' | 'proximity';
+
 export interface Filters {
   type: ('Химическое' | 'Нефтяное' | 'Физическое')[];
   hazardLevel: ('Низкий' | 'Средний' | 'Высокий')[];
-  impactArea: ('Вода' | 'Почва')[];
-  confidence: ('Низкая' | 'Средняя' | 'Высокая')[];
+  impactArea: ImpactArea[];
+  status: IncidentStatus[];
+  size: SpillSize[];
+  proximity: ProximityClass[];
+  // Detection time window in ms since epoch; null leaves that end open.
+  timeFrom: number | null;
+  timeTo: number | null;
+  // Closed [lng, lat] ring drawn on the map; detections must overlap it.
+  area: number[][] | null;
+  // Inclusive confidence range, 0–1.
+  confidenceMin: number;
+  confidenceMax: number;
+  // Smallest geodesic area in km²; 0 turns the filter off.
+  minAreaKm2: number;
+}
+
+export interface FilterPreset {
+  id: string;
+  name: string;
+  filters: Filters;
+  createdAt: number;
+}
+
+export interface FilterPresetActions {
+  onSave: (name: string) => void;
+  onApply: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+export type FilterAreaShape = 'rectangle' | 'polygon';
+
+// Filter area being clicked on the map: a rectangle from two corners or a polygon finished by the operator.
+export interface FilterAreaDrawing {
+  shape: FilterAreaShape;
+  points: LatLng[];
+}
+
+export interface FilterAreaActions {
+  onStartDrawing: (shape: FilterAreaShape) => void;
+  onFinishDrawing: () => void;
+  onCancelDrawing: () => void;
+}
+
+export interface IncidentObservation {
+  detectionId: string;
+  timestamp: number;
+  areaKm2: number;
+  perimeterKm: number;
+  confidence: number;
+}
+
+export type IncidentStatus = 'Новый' | 'Подтверждён' | 'Направлена бригада' | 'Локализован' | 'Закрыт' | 'Ложная тревога';
+
+export interface IncidentNote {
+  timestamp: number;
+  text: string;
+}
+
+export interface IncidentStatusChange {
+  timestamp: number;
+  from: IncidentStatus;
+  to: IncidentStatus;
+}
+
+// Operator-managed part of an incident, persisted separately from the detections it is built from.
+export interface IncidentWorkflow {
+  incidentId: string;
+  status: IncidentStatus;
+  assignee: string;
+  notes: IncidentNote[];
+  history: IncidentStatusChange[];
+}
+
+// A spill tracked across passes: every detection that matches it becomes an observation.
+export interface Incident {
+  id: string;
+  type: PollutionData['type'];
+  latest: PollutionData;
+  firstSeen: number;
+  lastSeen: number;
+  observations: IncidentObservation[];
+  workflow: IncidentWorkflow;
+}
+
+export interface IncidentActions {
+  onSelect: (incidentId: string) => void;
+  onStatusChange: (incidentId: string, status: IncidentStatus) => void;
+  onAssign: (incidentId: string, assignee: string) => void;
+  onAddNote: (incidentId: string, text: string) => void;
+}
+
+export type ExportFormat = 'geojson' | 'kml' | 'csv';
+
+// Actions of the detection list; bulk actions take the ids of the checked rows.
+export interface DetectionListActions {
+  onSelect: (detectionId: string) => void;
+  onExport: (detectionIds: string[], format: ExportFormat) => void;
+  onStatusChange: (detectionIds: string[], status: IncidentStatus) => void;
+}
+
+// Geometry of an imported reference feature; it is validated on import, so Leaflet can always draw it.
+export type ReferenceGeometry =
+  | { type: 'Point'; coordinates: number[] }
+  | { type: 'MultiPoint' | 'LineString'; coordinates: number[][] }
+  | { type: 'MultiLineString' | 'Polygon'; coordinates: number[][][] }
+  | { type: 'MultiPolygon'; coordinates: number[][][][] };
+
+// Non-pollution features from imported files (routes, zones, reports without a type), drawn as context.
+export interface ReferenceFeature {
+  geometry: ReferenceGeometry;
+  properties: Record<string, unknown>;
+}
+
+export interface ReferenceLayer {
+  id: string;
+  name: string;
+  features: ReferenceFeature[];
+}
+
+// A model detection that failed validation; it is listed for review instead of being put on the map.
+export interface QuarantinedDetection {
+  id: string;
+  timestamp: number;
+  satelliteId: string;
+  satelliteName: string;
+  providerLabel: string;
+  reason: string;
+  // The detection exactly as the model returned it, serialized for display.
+  raw: string;
+}
+
+export interface ImportRejection {
+  index: number;
+  name: string;
+  reason: string;
+}
+
+export interface ImportReport {
+  fileName: string;
+  imported: number;
+  referenceFeatures: number;
+  rejected: ImportRejection[];
+}
+
+export type AlertEnumField = 'type' | 'hazardLevel' | 'impactArea' | 'source';
+export type AlertNumericField = 'confidence' | 'areaKm2';
+export type AlertComparison = '>' | '>=' | '<' | '<=';
+
+// Conditions of a rule are combined with AND.
+export type AlertCondition =
+  | { kind: 'equals'; field: AlertEnumField; value: string }
+  | { kind: 'compare'; field: AlertNumericField; op: AlertComparison; value: number }
+  | { kind: 'nearSettlement'; distanceKm: number }
+  | { kind: 'inProtectedArea' };
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  conditions: AlertCondition[];
+  createdAt: number;
+}
+
+export interface WebhookEndpoint {
+  id: string;
+  url: string;
+  enabled: boolean;
+}
+
+export interface Alarm {
+  id: string;
+  ruleId: string;
+  ruleName: string;
+  detectionId: string;
+  detectionType: PollutionData['type'];
+  timestamp: number;
+  /** Human-readable explanation of the matched conditions. */
+  reasons: string[];
+  acknowledgedAt: number | null;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  alarmId: string;
+  url: string;
+  attempt: number;
+  timestamp: number;
+  status: 'success' | 'retry' | 'failed';
+  httpStatus?: number;
+  error?: string;
+}
+
+export interface AlarmActions {
+  onAcknowledge: (id: string) => void;
+  onAcknowledgeAll: () => void;
+}
+
+// Requests to a metered analysis service allowed per minute and per day; set by the operator and persisted.
+export interface AnalysisBudget {
+  requestsPerMinute: number;
+  requestsPerDay: number;
+}
+
+// Satellite image kept by the analysis cache, addressed by the SHA-256 of its bytes. Every export URL
+// that returned these pixels points to it, so a revisited bbox is not downloaded again.
+export interface CachedImage {
+  hash: string;
+  urls: string[];
+  image: string; // base64 JPEG
+  bytes: number;
+  lastUsedAt: number;
+}
+
+// Model output for one image, before georeferencing, under `${imageHash}:${provider}:${model}:${promptVersion}`.
+export interface CachedAnalysis {
+  key: string;
+  imageHash: string;
+  detections: unknown[];
+  createdAt: number;
 }
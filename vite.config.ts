@@ -12,7 +12,9 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.DETECTION_PROVIDER': JSON.stringify(env.DETECTION_PROVIDER),
+        'process.env.LOCAL_MODEL_URL': JSON.stringify(env.LOCAL_MODEL_URL)
       },
       resolve: {
         alias: {